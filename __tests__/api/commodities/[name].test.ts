@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/commodities/[name]';
+import { getCommodities } from '@/lib/data/commodities';
+import { CommodityDetailSchema } from '@/types/commodity';
+
+async function getCommodity(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+async function getHeaviestCommodity() {
+  return (await getCommodities({ limit: 1 })).data[0];
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('API /api/commodities/[name]', () => {
+  it('should match the list totals, case-insensitively', async () => {
+    const heaviest = await getHeaviestCommodity();
+    const { status, body } = await getCommodity({
+      name: encodeURIComponent(heaviest.name.toUpperCase()),
+    });
+
+    expect(status).toBe(200);
+    const commodity = CommodityDetailSchema.parse(body);
+    expect(commodity).toMatchObject({
+      ...heaviest,
+      shipments: Number(heaviest.shipments),
+      kg: Number(heaviest.kg),
+    });
+  });
+
+  it('should return a contiguous monthly trend adding up to the totals', async () => {
+    const heaviest = await getHeaviestCommodity();
+    const { body } = await getCommodity({ name: heaviest.name });
+
+    const commodity = CommodityDetailSchema.parse(body);
+    expect(sum(commodity.monthly.map(m => m.shipments))).toBe(
+      commodity.shipments
+    );
+    expect(sum(commodity.monthly.map(m => m.kg))).toBe(commodity.kg);
+    for (const [i, point] of commodity.monthly.entries()) {
+      expect(point.month).toMatch(/^\d{4}-\d{2}-01$/);
+      if (i > 0) {
+        const previous = new Date(commodity.monthly[i - 1].month);
+        previous.setUTCMonth(previous.getUTCMonth() + 1);
+        expect(point.month).toBe(previous.toISOString().slice(0, 10));
+      }
+    }
+  });
+
+  it('should rank importers, exporters and lanes by kg', async () => {
+    const heaviest = await getHeaviestCommodity();
+    const { body } = await getCommodity({ name: heaviest.name, limit: '50' });
+
+    const commodity = CommodityDetailSchema.parse(body);
+    for (const list of [
+      commodity.topImporters,
+      commodity.topExporters,
+      commodity.topLanes,
+    ]) {
+      const kg = list.map(entry => entry.kg);
+      expect(kg.length).toBeGreaterThan(0);
+      expect(kg).toEqual([...kg].sort((a, b) => b - a));
+    }
+    expect(sum(commodity.topLanes.map(l => l.shipments))).toBe(
+      commodity.shipments
+    );
+    expect(commodity.topImporters).toHaveLength(commodity.importers);
+  });
+
+  it('should zero-fill a date range with no shipments', async () => {
+    const heaviest = await getHeaviestCommodity();
+    const { status, body } = await getCommodity({
+      name: heaviest.name,
+      from: '2000-01-01',
+      to: '2000-03-31',
+    });
+
+    expect(status).toBe(200);
+    const commodity = CommodityDetailSchema.parse(body);
+    expect(commodity.shipments).toBe(0);
+    expect(commodity.monthly.map(m => m.month)).toEqual([
+      '2000-01-01',
+      '2000-02-01',
+      '2000-03-01',
+    ]);
+    expect(commodity.topImporters).toEqual([]);
+  });
+
+  it('should return 404 for an unknown commodity', async () => {
+    const { status, body } = await getCommodity({ name: 'Unobtainium' });
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ error: 'Commodity not found' });
+  });
+
+  it('should return 400 when the name is missing', async () => {
+    const { status } = await getCommodity({});
+
+    expect(status).toBe(400);
+  });
+
+  it('should return 405 for non-GET methods', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'PUT',
+      query: { name: 'Steel' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/commodities';
+import { CommoditiesResponseSchema } from '@/types/commodity';
+import { loadShipments } from '@/lib/data/shipments';
+
+async function getCommodities(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/commodities', () => {
+  it('should list every commodity heaviest first', async () => {
+    const { status, body } = await getCommodities({ limit: '500' });
+
+    expect(status).toBe(200);
+    const { data, total } = CommoditiesResponseSchema.parse(body);
+    expect(data).toHaveLength(total);
+
+    const shipments = Number((await loadShipments({ limit: 1 })).total);
+    expect(data.reduce((n, c) => n + c.shipments, 0)).toBe(shipments);
+    const kg = data.map(c => c.kg);
+    expect(kg).toEqual([...kg].sort((a, b) => b - a));
+    for (const commodity of data) {
+      expect(commodity.industrySector).not.toBe('');
+      expect(commodity.importers).toBeGreaterThan(0);
+      expect(commodity.exporters).toBeGreaterThan(0);
+    }
+  });
+
+  it('should paginate with limit and offset', async () => {
+    const { body: first } = await getCommodities({ limit: '5' });
+    const { body: second } = await getCommodities({
+      limit: '5',
+      offset: '5',
+    });
+
+    const page1 = CommoditiesResponseSchema.parse(first);
+    const page2 = CommoditiesResponseSchema.parse(second);
+    expect(page1.data).toHaveLength(5);
+    expect(page2.total).toBe(page1.total);
+    expect(page2.data[0].name).not.toBe(page1.data[0].name);
+  });
+
+  it('should search commodity names case-insensitively', async () => {
+    const { body: all } = await getCommodities({ limit: '1' });
+    const name = CommoditiesResponseSchema.parse(all).data[0].name;
+    const { body } = await getCommodities({
+      search: name.slice(0, 4).toUpperCase(),
+    });
+
+    const { data, total } = CommoditiesResponseSchema.parse(body);
+    expect(total).toBeGreaterThan(0);
+    expect(data.map(c => c.name)).toContain(name);
+    for (const commodity of data) {
+      expect(commodity.name.toLowerCase()).toContain(
+        name.slice(0, 4).toLowerCase()
+      );
+    }
+  });
+
+  it('should return 400 for an invalid date range', async () => {
+    const { status } = await getCommodities({ preset: 'forever' });
+
+    expect(status).toBe(400);
+  });
+
+  it('should return 405 for non-GET methods', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
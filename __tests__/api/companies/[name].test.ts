@@ -180,4 +180,43 @@ describe('API /api/companies/[name]', () => {
       expect(res._getStatusCode()).toBe(404);
     }
   });
+
+  it('should limit totals, partners and commodities to the date range', async () => {
+    const fetchDetail = async (query: Record<string, string>) => {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query: { name: existingCompanyName, ...query },
+      });
+      await handler(req, res);
+      expect(res._getStatusCode()).toBe(200);
+      return CompanyDetailSchema.parse(JSON.parse(res._getData()));
+    };
+
+    const all = await fetchDetail({});
+    const ranged = await fetchDetail({ preset: 'last12m' });
+    expect(ranged.id).toBe(all.id);
+    expect(ranged.totalShipments).toBeLessThanOrEqual(all.totalShipments);
+
+    // Outside the dataset: the company still resolves, with nothing counted
+    const empty = await fetchDetail({ from: '2000-01-01', to: '2000-12-31' });
+    expect(empty).toMatchObject({
+      id: all.id,
+      role: all.role,
+      totalShipments: 0,
+      totalWeight: 0,
+      topTradingPartners: [],
+      topCommodities: [],
+    });
+  });
+
+  it('should return 400 for an invalid date range', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { name: existingCompanyName, to: 'yesterday' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+  });
 });
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/[name]/partners';
+import { PartnersResponseSchema } from '@/types/company';
+import { getCompanies, getCompanyDetailById } from '@/lib/data/shipments';
+
+async function getPartners(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/[name]/partners', () => {
+  let existingCompany: { id: string; name: string };
+
+  beforeAll(async () => {
+    const companies = await getCompanies({ limit: 1 });
+    existingCompany = companies.data[0];
+  });
+
+  it('should list every partner, starting with the top partners from the detail', async () => {
+    const { status, body } = await getPartners({
+      name: existingCompany.name,
+      limit: '100',
+    });
+
+    expect(status).toBe(200);
+    const { data, total } = PartnersResponseSchema.parse(body);
+    expect(data).toHaveLength(Math.min(total, 100));
+
+    const detail = (await getCompanyDetailById(existingCompany.id))!;
+    expect(total).toBeGreaterThanOrEqual(detail.topTradingPartners.length);
+    expect(data[0].shipments).toBe(detail.topTradingPartners[0].shipments);
+    expect(data.reduce((sum, p) => sum + p.shipments, 0)).toBeLessThanOrEqual(
+      detail.totalShipments
+    );
+
+    for (const partner of data) {
+      expect(partner.firstShipment <= partner.lastShipment).toBe(true);
+      expect(partner.commodities.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should sort by kg in either order', async () => {
+    const desc = PartnersResponseSchema.parse(
+      (await getPartners({ name: existingCompany.name, sort: 'kg' })).body
+    );
+    const asc = PartnersResponseSchema.parse(
+      (
+        await getPartners({
+          name: existingCompany.name,
+          sort: 'kg',
+          order: 'asc',
+        })
+      ).body
+    );
+
+    const kg = desc.data.map(p => p.kg);
+    expect(kg).toEqual([...kg].sort((a, b) => b - a));
+    expect(asc.data[0].kg).toBeLessThanOrEqual(desc.data.at(-1)!.kg);
+  });
+
+  it('should filter to suppliers or customers', async () => {
+    const all = PartnersResponseSchema.parse(
+      (await getPartners({ name: existingCompany.name })).body
+    );
+    const suppliers = PartnersResponseSchema.parse(
+      (
+        await getPartners({
+          name: existingCompany.name,
+          direction: 'suppliers',
+        })
+      ).body
+    );
+    const customers = PartnersResponseSchema.parse(
+      (
+        await getPartners({
+          name: existingCompany.name,
+          direction: 'customers',
+        })
+      ).body
+    );
+
+    expect(suppliers.data.every(p => p.direction === 'supplier')).toBe(true);
+    expect(customers.data.every(p => p.direction === 'customer')).toBe(true);
+    expect(suppliers.total + customers.total).toBeGreaterThanOrEqual(all.total);
+  });
+
+  it('should page through partners without overlap', async () => {
+    const first = PartnersResponseSchema.parse(
+      (await getPartners({ name: existingCompany.name, limit: '2' })).body
+    );
+    const second = PartnersResponseSchema.parse(
+      (
+        await getPartners({
+          name: existingCompany.name,
+          limit: '2',
+          offset: '2',
+        })
+      ).body
+    );
+
+    expect(first.total).toBe(second.total);
+    const firstIds = first.data.map(p => p.id);
+    for (const partner of second.data) {
+      expect(firstIds).not.toContain(partner.id);
+    }
+  });
+
+  it('should return 400 for an invalid sort or direction', async () => {
+    const queries: Record<string, string>[] = [
+      { sort: 'name' },
+      { direction: 'sideways' },
+    ];
+    for (const query of queries) {
+      const { status, body } = await getPartners({
+        name: existingCompany.name,
+        ...query,
+      });
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 404 for non-existent company', async () => {
+    const { status } = await getPartners({ name: 'NonExistentCompanyXYZ123' });
+
+    expect(status).toBe(404);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+      query: { name: existingCompany.name },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
+
+describe('API /api/companies/[name]/partners exports', () => {
+  it('should download every partner as NDJSON', async () => {
+    const companies = await getCompanies({ limit: 1 });
+    const { body } = await getPartners({
+      name: companies.data[0].name,
+      limit: '1',
+    });
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { name: companies.data[0].name, format: 'ndjson' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const lines = (res._getData() as string).trimEnd().split('\n');
+    expect(lines).toHaveLength(body.total);
+    expect(Object.keys(JSON.parse(lines[0]))).toContain('direction');
+  });
+
+  it('should return 404 for an unknown company before any download starts', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { name: 'No Such Company Ltd', format: 'csv' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+    expect(res.getHeader('Content-Disposition')).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/[name]/similar';
+import { SimilarCompaniesResponseSchema } from '@/types/company';
+import { getCompanies } from '@/lib/data/shipments';
+
+async function getSimilar(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/[name]/similar', () => {
+  let existingCompany: { id: string; name: string };
+
+  beforeAll(async () => {
+    const companies = await getCompanies({ limit: 1 });
+    existingCompany = companies.data[0];
+  });
+
+  it('should rank other companies by score', async () => {
+    const { status, body } = await getSimilar({ name: existingCompany.name });
+
+    expect(status).toBe(200);
+    const { data } = SimilarCompaniesResponseSchema.parse(body);
+    expect(data.length).toBeGreaterThan(0);
+    expect(data.length).toBeLessThanOrEqual(10);
+    expect(data.map(s => s.company.id)).not.toContain(existingCompany.id);
+    const scores = data.map(s => s.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('should explain each score with its overlaps', async () => {
+    const { body } = await getSimilar({
+      name: existingCompany.name,
+      limit: '50',
+    });
+
+    const { data } = SimilarCompaniesResponseSchema.parse(body);
+    for (const similar of data) {
+      expect(similar.score).toBeGreaterThan(0);
+      expect(similar.score).toBeCloseTo(
+        0.6 * similar.partnerOverlap + 0.4 * similar.commodityOverlap,
+        2
+      );
+      expect(similar.partnerOverlap > 0).toBe(
+        similar.sharedCustomers + similar.sharedSuppliers > 0
+      );
+      expect(similar.commodityOverlap > 0).toBe(
+        similar.sharedCommodities.length > 0
+      );
+      const signals = [
+        similar.sharedCustomers,
+        similar.sharedSuppliers,
+        similar.sharedCommodities.length,
+      ].filter(count => count > 0);
+      expect(similar.reasons).toHaveLength(signals.length);
+    }
+  });
+
+  it('should respect the limit', async () => {
+    const { body } = await getSimilar({
+      name: existingCompany.name,
+      limit: '2',
+    });
+
+    expect(body.data).toHaveLength(2);
+  });
+
+  it('should return no companies for a range without shipments', async () => {
+    const { status, body } = await getSimilar({
+      name: existingCompany.name,
+      from: '1990-01-01',
+      to: '1990-12-31',
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual([]);
+  });
+
+  it('should return 404 for non-existent company', async () => {
+    const { status, body } = await getSimilar({
+      name: 'NonExistentCompanyXYZ123',
+    });
+
+    expect(status).toBe(404);
+    expect(body).toHaveProperty('error');
+  });
+
+  it('should return 400 for invalid date range', async () => {
+    const { status } = await getSimilar({
+      name: existingCompany.name,
+      from: 'not-a-date',
+    });
+
+    expect(status).toBe(400);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+      query: { name: existingCompany.name },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
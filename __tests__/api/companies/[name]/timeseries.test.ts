@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/[name]/timeseries';
+import { CompanyTimeseriesSchema } from '@/types/company';
+import { getCompanies, getCompanyDetailById } from '@/lib/data/shipments';
+
+async function getTimeseries(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/[name]/timeseries', () => {
+  let existingCompany: { id: string; name: string };
+
+  beforeAll(async () => {
+    const companies = await getCompanies({ limit: 1 });
+    existingCompany = companies.data[0];
+  });
+
+  it('should return contiguous monthly points that add up to the detail totals', async () => {
+    const { status, body } = await getTimeseries({
+      name: existingCompany.name,
+    });
+
+    expect(status).toBe(200);
+    const data = CompanyTimeseriesSchema.parse(body);
+    expect(data.id).toBe(existingCompany.id);
+    expect(data.points.length).toBeGreaterThan(0);
+
+    data.points.forEach((point, i) => {
+      expect(point.month).toMatch(/^\d{4}-\d{2}-01$/);
+      if (i > 0) {
+        const previous = new Date(data.points[i - 1].month);
+        previous.setUTCMonth(previous.getUTCMonth() + 1);
+        expect(point.month).toBe(previous.toISOString().slice(0, 10));
+      }
+    });
+
+    const detail = (await getCompanyDetailById(existingCompany.id))!;
+    const shipments = data.points.reduce(
+      (sum, p) => sum + p.importShipments + p.exportShipments,
+      0
+    );
+    expect(shipments).toBe(detail.totalShipments);
+  });
+
+  it('should zero-fill every month of the requested range', async () => {
+    const { body } = await getTimeseries({
+      name: existingCompany.name,
+      preset: '2025-Q3',
+    });
+
+    const data = CompanyTimeseriesSchema.parse(body);
+    expect(data.points.map(p => p.month)).toEqual([
+      '2025-07-01',
+      '2025-08-01',
+      '2025-09-01',
+    ]);
+  });
+
+  it('should return 404 for non-existent company', async () => {
+    const { status, body } = await getTimeseries({
+      name: 'NonExistentCompanyXYZ123',
+    });
+
+    expect(status).toBe(404);
+    expect(body).toHaveProperty('error');
+  });
+
+  it('should return 400 for a missing name or invalid range', async () => {
+    expect((await getTimeseries({})).status).toBe(400);
+    expect(
+      (await getTimeseries({ name: existingCompany.name, preset: 'someday' }))
+        .status
+    ).toBe(400);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+      query: { name: existingCompany.name },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/by-id/[id]';
+import nameHandler from '@/pages/api/companies/[name]';
+import { CompanyDetailSchema } from '@/types/company';
+import { getCompanies } from '@/lib/data/shipments';
+
+async function getDetail(route: typeof handler, query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await route(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/by-id/[id]', () => {
+  let existingCompany: { id: string; name: string };
+
+  beforeAll(async () => {
+    const companies = await getCompanies({ limit: 1 });
+    existingCompany = companies.data[0];
+  });
+
+  it('should return 200 with company detail for a valid id', async () => {
+    const { status, body } = await getDetail(handler, {
+      id: existingCompany.id,
+    });
+
+    expect(status).toBe(200);
+    const validated = CompanyDetailSchema.parse(body);
+    expect(validated.id).toBe(existingCompany.id);
+    expect(validated.name).toBe(existingCompany.name);
+    expect(validated.aliases).toContain(existingCompany.name);
+  });
+
+  it('should return trading partners with ids', async () => {
+    const { body } = await getDetail(handler, { id: existingCompany.id });
+
+    body.topTradingPartners.forEach((partner: { id: string }) => {
+      expect(typeof partner.id).toBe('string');
+      expect(partner.id).not.toBe('');
+    });
+  });
+
+  it('should return 404 for unknown ids', async () => {
+    const { status } = await getDetail(handler, { id: 'no-such-company-xx' });
+    expect(status).toBe(404);
+  });
+
+  it('should return 400 when id parameter is missing', async () => {
+    const { status } = await getDetail(handler, {});
+    expect(status).toBe(400);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+      query: { id: existingCompany.id },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+
+  it('should merge legal-suffix variants into one company', async () => {
+    const [plain, suffixed] = await Promise.all([
+      getDetail(nameHandler, { name: 'Bowman Andros' }),
+      getDetail(nameHandler, { name: 'Bowman Andros, LLC' }),
+    ]);
+
+    expect(plain.status).toBe(200);
+    expect(suffixed.body.id).toBe(plain.body.id);
+    expect(plain.body.aliases).toEqual(
+      expect.arrayContaining(['Bowman Andros', 'Bowman Andros, LLC'])
+    );
+
+    const byId = await getDetail(handler, { id: plain.body.id });
+    expect(byId.body.totalShipments).toBe(plain.body.totalShipments);
+  });
+
+  it('should resolve casing and punctuation variants by name', async () => {
+    const { status, body } = await getDetail(nameHandler, {
+      name: 'bowman andros llc',
+    });
+
+    expect(status).toBe(200);
+    expect(body.id).toBe('bowman-andros-us');
+  });
+
+  it('should return the sector mix adding up to the totals', async () => {
+    const { body } = await getDetail(handler, { id: existingCompany.id });
+
+    const detail = CompanyDetailSchema.parse(body);
+    expect(detail.sectorMix.length).toBeGreaterThan(0);
+    expect(detail.sectorMix.reduce((n, s) => n + s.shipments, 0)).toBe(
+      detail.totalShipments
+    );
+    const kg = detail.sectorMix.map(s => s.kg);
+    expect(kg).toEqual([...kg].sort((a, b) => b - a));
+  });
+});
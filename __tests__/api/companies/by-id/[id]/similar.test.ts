@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/by-id/[id]/similar';
+import nameHandler from '@/pages/api/companies/[name]/similar';
+import { getCompanies } from '@/lib/data/shipments';
+
+async function getSimilar(
+  route: typeof handler,
+  query: Record<string, string>
+) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await route(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/by-id/[id]/similar', () => {
+  let existingCompany: { id: string; name: string };
+
+  beforeAll(async () => {
+    const companies = await getCompanies({ limit: 1 });
+    existingCompany = companies.data[0];
+  });
+
+  it('should match the by-name response', async () => {
+    const byId = await getSimilar(handler, { id: existingCompany.id });
+    const byName = await getSimilar(nameHandler, {
+      name: existingCompany.name,
+    });
+
+    expect(byId.status).toBe(200);
+    expect(byId.body).toEqual(byName.body);
+  });
+
+  it('should return 404 for unknown ids', async () => {
+    const { status } = await getSimilar(handler, {
+      id: 'no-such-company-xx',
+    });
+
+    expect(status).toBe(404);
+  });
+});
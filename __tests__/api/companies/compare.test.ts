@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/compare';
+import { CompanyComparisonSchema } from '@/types/company';
+import { getCompanies, getCompanyDetailById } from '@/lib/data/shipments';
+
+async function getComparison(query: Record<string, string | string[]>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+async function getTopCompanyIds(count: number): Promise<string[]> {
+  const companies = await getCompanies({ limit: count });
+  return companies.data.map(company => company.id);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('API /api/companies/compare', () => {
+  it('should return each company detail in request order', async () => {
+    const ids = (await getTopCompanyIds(3)).reverse();
+    const { status, body } = await getComparison({ names: ids.join(',') });
+
+    expect(status).toBe(200);
+    const comparison = CompanyComparisonSchema.parse(body);
+    expect(comparison.companies.map(c => c.id)).toEqual(ids);
+    expect(comparison.companies[0]).toEqual(await getCompanyDetailById(ids[0]));
+  });
+
+  it('should align monthly series with the compared companies', async () => {
+    const ids = await getTopCompanyIds(2);
+    const { body } = await getComparison({ names: ids.join(',') });
+
+    const comparison = CompanyComparisonSchema.parse(body);
+    expect(comparison.monthly.length).toBeGreaterThan(0);
+    for (const month of comparison.monthly) {
+      expect(month.kg).toHaveLength(2);
+      expect(month.shipments).toHaveLength(2);
+    }
+    comparison.companies.forEach((company, i) => {
+      expect(sum(comparison.monthly.map(m => m.shipments[i]))).toBe(
+        company.totalShipments
+      );
+    });
+    const months = comparison.monthly.map(m => m.month);
+    expect(months).toEqual([...months].sort());
+  });
+
+  it('should only list partners and commodities shared by two or more', async () => {
+    const ids = await getTopCompanyIds(5);
+    const { body } = await getComparison({ names: ids.join(','), limit: '5' });
+
+    const comparison = CompanyComparisonSchema.parse(body);
+    expect(comparison.sharedCommodities.length).toBeGreaterThan(0);
+    expect(comparison.sharedCommodities.length).toBeLessThanOrEqual(5);
+    expect(comparison.sharedPartners.length).toBeLessThanOrEqual(5);
+    for (const shared of [
+      ...comparison.sharedPartners,
+      ...comparison.sharedCommodities,
+    ]) {
+      expect(shared.kg).toHaveLength(5);
+      expect(shared.shipments.filter(n => n > 0).length).toBeGreaterThan(1);
+    }
+  });
+
+  it('should accept names, including repeated parameters', async () => {
+    const companies = await getCompanies({ limit: 2 });
+    const names = companies.data.map(company => company.name);
+    const { status, body } = await getComparison({ names });
+
+    expect(status).toBe(200);
+    expect(body.companies.map((c: { id: string }) => c.id)).toEqual(
+      companies.data.map(company => company.id)
+    );
+  });
+
+  it('should zero-fill months across the date range', async () => {
+    const ids = await getTopCompanyIds(2);
+    const { body } = await getComparison({
+      names: ids.join(','),
+      from: '2025-01-01',
+      to: '2025-03-31',
+    });
+
+    const comparison = CompanyComparisonSchema.parse(body);
+    expect(comparison.monthly.map(m => m.month)).toEqual([
+      '2025-01-01',
+      '2025-02-01',
+      '2025-03-01',
+    ]);
+  });
+
+  it('should return 400 for fewer than 2 or more than 5 companies', async () => {
+    const ids = await getTopCompanyIds(6);
+    const invalid: Record<string, string>[] = [
+      {},
+      { names: ids[0] },
+      { names: ids.join(',') },
+    ];
+
+    for (const query of invalid) {
+      const { status, body } = await getComparison(query);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 400 when a company appears twice', async () => {
+    const companies = await getCompanies({ limit: 1 });
+    const [company] = companies.data;
+    const { status, body } = await getComparison({
+      names: [company.id, company.name],
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toContain(company.name);
+  });
+
+  it('should return 404 for an unknown company', async () => {
+    const ids = await getTopCompanyIds(1);
+    const { status, body } = await getComparison({
+      names: `${ids[0]},NonExistentCompanyXYZ123`,
+    });
+
+    expect(status).toBe(404);
+    expect(body.error).toContain('NonExistentCompanyXYZ123');
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/duplicates';
+import { DuplicatesResponseSchema } from '@/types/company';
+
+async function getDuplicates(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/duplicates', () => {
+  it('should return scored candidate pairs that pass Zod validation', async () => {
+    const { status, body } = await getDuplicates();
+
+    expect(status).toBe(200);
+    const validated = DuplicatesResponseSchema.parse(body);
+    expect(validated.total).toBeGreaterThan(0);
+    expect(validated.data.length).toBeGreaterThan(0);
+  });
+
+  it('should sort candidates by score descending', async () => {
+    const { body } = await getDuplicates({ minScore: '0.5', limit: '50' });
+
+    for (let i = 0; i < body.data.length - 1; i++) {
+      expect(body.data[i].score).toBeGreaterThanOrEqual(body.data[i + 1].score);
+    }
+  });
+
+  it('should explain every score', async () => {
+    const { body } = await getDuplicates();
+
+    body.data.forEach(
+      (candidate: {
+        score: number;
+        reasons: string[];
+        sharedDomains: string[];
+      }) => {
+        expect(candidate.score).toBeGreaterThanOrEqual(0.75);
+        expect(candidate.score).toBeLessThanOrEqual(1);
+        expect(candidate.reasons.length).toBeGreaterThan(0);
+        if (candidate.sharedDomains.length > 0) {
+          expect(candidate.reasons.join(' ')).toContain(
+            candidate.sharedDomains[0]
+          );
+        }
+      }
+    );
+  });
+
+  it('should suggest merging the smaller company into the larger one', async () => {
+    const { body } = await getDuplicates();
+
+    body.data.forEach(
+      (candidate: {
+        source: { totalShipments: number };
+        target: { totalShipments: number };
+      }) => {
+        expect(candidate.source.totalShipments).toBeLessThanOrEqual(
+          candidate.target.totalShipments
+        );
+      }
+    );
+  });
+
+  it('should flag companies sharing a website domain', async () => {
+    const { body } = await getDuplicates({ minScore: '0.5', limit: '1000' });
+
+    const withDomain = body.data.filter(
+      (candidate: { sharedDomains: string[] }) =>
+        candidate.sharedDomains.length > 0
+    );
+    expect(withDomain.length).toBeGreaterThan(0);
+  });
+
+  it('should return fewer candidates for a higher minScore', async () => {
+    const { body: loose } = await getDuplicates({ minScore: '0.6' });
+    const { body: strict } = await getDuplicates({ minScore: '0.9' });
+
+    expect(strict.total).toBeLessThanOrEqual(loose.total);
+  });
+
+  it('should return 400 for an invalid minScore', async () => {
+    for (const minScore of ['abc', '-1', '2']) {
+      const { status } = await getDuplicates({ minScore });
+      expect(status).toBe(400);
+    }
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/facets';
+import companiesHandler from '@/pages/api/companies';
+import {
+  CompaniesResponseSchema,
+  CompanyFacetsSchema,
+  FacetValue,
+} from '@/types/company';
+
+async function getFacets(query: Record<string, string | string[]> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+async function countCompanies(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query: { ...query, limit: '1' },
+  });
+
+  await companiesHandler(req, res);
+
+  return CompaniesResponseSchema.parse(JSON.parse(res._getData())).total;
+}
+
+const countOf = (values: FacetValue[], value: string) =>
+  values.find(facet => facet.value === value)?.count ?? 0;
+
+const sum = (values: FacetValue[]) =>
+  values.reduce((n, facet) => n + facet.count, 0);
+
+describe('API /api/companies/facets', () => {
+  it('should count each facet under every filter but its own', async () => {
+    const facetsFor = async (query: Record<string, string>) => {
+      const { status, body } = await getFacets(query);
+      expect(status).toBe(200);
+      return CompanyFacetsSchema.parse(body);
+    };
+
+    const unfiltered = await facetsFor({});
+    const total = await countCompanies();
+    expect(sum(unfiltered.country)).toBe(total);
+    expect(sum(unfiltered.role)).toBe(total);
+
+    const filters = { country: 'DE', role: 'exporter' };
+    const filtered = await facetsFor(filters);
+    const filteredTotal = await countCompanies(filters);
+    const exportersAnywhere = await facetsFor({ role: 'exporter' });
+    const germanCompanies = await facetsFor({ country: 'DE' });
+
+    // The country facet ignores the country filter, and the role facet the role filter
+    expect(filtered.country).toEqual(exportersAnywhere.country);
+    expect(countOf(filtered.country, 'DE')).toBe(filteredTotal);
+    expect(filtered.role).toEqual(germanCompanies.role);
+    expect(countOf(filtered.role, 'exporter')).toBe(filteredTotal);
+
+    // Commodity counts are companies within the other filters
+    for (const facet of filtered.commodity) {
+      expect(facet.count).toBeLessThanOrEqual(filteredTotal);
+    }
+    const [top] = filtered.commodity;
+    expect(await countCompanies({ ...filters, commodity: top.value })).toBe(
+      top.count
+    );
+  });
+
+  it('should list selected facet values even without matches', async () => {
+    const { status, body } = await getFacets({
+      commodity: ['No Such Commodity', 'Neither, With Comma'],
+    });
+
+    expect(status).toBe(200);
+    expect(CompanyFacetsSchema.parse(body).commodity).toEqual(
+      expect.arrayContaining([
+        { value: 'No Such Commodity', count: 0 },
+        { value: 'Neither, With Comma', count: 0 },
+      ])
+    );
+  });
+
+  it('should return 400 for an invalid filter', async () => {
+    const queries: Record<string, string>[] = [
+      { role: 'broker' },
+      { minShipments: '-1' },
+      { minWeight: 'heavy' },
+      { from: '2025-05-01', to: '2025-01-01' },
+    ];
+    for (const query of queries) {
+      const { status, body } = await getFacets(query);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -3,6 +3,8 @@ import { createMocks } from 'node-mocks-http';
 import type { NextApiRequest, NextApiResponse } from 'next';
 import handler from '@/pages/api/companies';
 import { CompaniesResponseSchema } from '@/types/company';
+import { getCompanies, getCompanyStats, query } from '@/lib/data/shipments';
+import { sql } from '@/lib/data/sql';
 
 describe('API /api/companies', () => {
   it('should return 200 with companies data for GET request', async () => {
@@ -195,4 +197,383 @@ describe('API /api/companies', () => {
     // Should return first page (offset 0) instead of negative offset
     expect(data.data.length).toBe(5);
   });
+
+  it('should only count shipments inside the date range', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { from: '2025-01-01', to: '2025-03-31', limit: '1000' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const ranged = CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    const all = await getCompanies({ limit: 1000 });
+    const allTotals = new Map(all.data.map(c => [c.id, c.totalShipments]));
+
+    expect(ranged.total).toBeGreaterThan(0);
+    expect(ranged.total).toBeLessThan(Number(all.total));
+    expect(ranged.data.length).toBe(ranged.total);
+    ranged.data.forEach(company => {
+      expect(company.totalShipments).toBeGreaterThan(0);
+      expect(company.totalShipments).toBeLessThanOrEqual(
+        allTotals.get(company.id)!
+      );
+    });
+  });
+
+  it('should treat a quarter preset like the equivalent from/to range', async () => {
+    const fetchCompanies = async (query: Record<string, string>) => {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query,
+      });
+      await handler(req, res);
+      return JSON.parse(res._getData());
+    };
+
+    expect(await fetchCompanies({ preset: '2025-Q1' })).toEqual(
+      await fetchCompanies({ from: '2025-01-01', to: '2025-03-31' })
+    );
+  });
+
+  it('should filter companies by country, case-insensitively', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { country: 'de, nl', limit: '1000' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const filtered = CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    const all = await getCompanies({ limit: 1000 });
+    const expected = all.data.filter(c => ['DE', 'NL'].includes(c.country));
+
+    expect(filtered.total).toBeGreaterThan(0);
+    expect(filtered.total).toBe(expected.length);
+    expect(filtered.data.every(c => ['DE', 'NL'].includes(c.country))).toBe(
+      true
+    );
+  });
+
+  it('should return 400 for an empty country list', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { country: ' , ' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+  });
+
+  it('should only count shipments in the sector filter', async () => {
+    const { sectors } = await getCompanyStats();
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { sector: sectors[0].sector.toLowerCase(), limit: '1000' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const filtered = CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    const all = await getCompanies({ limit: 1000 });
+    const allTotals = new Map(all.data.map(c => [c.id, c.totalShipments]));
+
+    expect(filtered.total).toBeGreaterThan(0);
+    // Each shipment counts once for its importer and once for its exporter
+    expect(filtered.data.reduce((n, c) => n + c.totalShipments, 0)).toBe(
+      2 * Number(sectors[0].shipments)
+    );
+    filtered.data.forEach(company => {
+      expect(company.totalShipments).toBeLessThanOrEqual(
+        allTotals.get(company.id)!
+      );
+    });
+  });
+
+  it('should sort by any list column in either direction', async () => {
+    const fetchSorted = async (query: Record<string, string>) => {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query: { ...query, limit: '1000' },
+      });
+      await handler(req, res);
+      expect(res._getStatusCode()).toBe(200);
+      return CompaniesResponseSchema.parse(JSON.parse(res._getData())).data;
+    };
+
+    const byName = await fetchSorted({ sort: 'name', order: 'asc' });
+    const names = byName.map(c => c.name);
+    expect(names).toEqual(
+      [...names].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    );
+
+    const byLast = await fetchSorted({ sort: 'lastShipment' });
+    const dates = byLast.map(c => c.lastShipment);
+    expect(dates).toEqual([...dates].sort().reverse());
+
+    const byWeight = await fetchSorted({ sort: 'totalWeight', order: 'asc' });
+    const weights = byWeight.map(c => c.totalWeight);
+    expect(weights).toEqual([...weights].sort((a, b) => a - b));
+  });
+
+  it('should report each company role and first and last shipment in the range', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { from: '2024-01-01', to: '2024-12-31', limit: '1000' },
+    });
+
+    await handler(req, res);
+
+    const { data } = CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    expect(data.length).toBeGreaterThan(0);
+    for (const company of data) {
+      expect(company.firstShipment >= '2024-01-01').toBe(true);
+      expect(company.lastShipment <= '2024-12-31').toBe(true);
+      expect(company.firstShipment <= company.lastShipment).toBe(true);
+    }
+
+    const top = data[0];
+    const [{ imports, exports }] = await query<{
+      imports: number;
+      exports: number;
+    }>(sql`
+      SELECT
+        CAST(COUNT(*) FILTER (WHERE importer_id = ${top.id}) AS INTEGER) as imports,
+        CAST(COUNT(*) FILTER (WHERE exporter_id = ${top.id}) AS INTEGER) as exports
+      FROM shipment_parties
+      WHERE shipment_date BETWEEN '2024-01-01' AND '2024-12-31'
+    `);
+    const expectedRole =
+      imports && exports ? 'both' : imports ? 'importer' : 'exporter';
+    expect(top.role).toBe(expectedRole);
+  });
+
+  it('should return 400 for an unknown sort column or order', async () => {
+    for (const query of [{ sort: 'website' }, { order: 'up' }]) {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query,
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(400);
+    }
+  });
+
+  it('should filter companies by role, commodity and minimums', async () => {
+    const all = await getCompanies({ limit: 1000 });
+    const [{ commodity }] = await query<{ commodity: string }>(sql`
+      SELECT commodity_name as commodity FROM shipment_parties
+      GROUP BY commodity_name ORDER BY COUNT(*) DESC LIMIT 1
+    `);
+    const traders = await query<{ id: string }>(sql`
+      SELECT importer_id as id FROM shipment_parties
+      WHERE commodity_name = ${commodity}
+      UNION
+      SELECT exporter_id FROM shipment_parties
+      WHERE commodity_name = ${commodity}
+    `);
+    const traderIds = new Set(traders.map(row => row.id));
+
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: {
+        role: 'importer,both',
+        commodity,
+        minShipments: '2',
+        minWeight: '1000',
+        limit: '1000',
+      },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const filtered = CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    const expected = all.data.filter(
+      c =>
+        c.role !== 'exporter' &&
+        traderIds.has(c.id) &&
+        c.totalShipments >= 2 &&
+        c.totalWeight >= 1000
+    );
+    expect(filtered.total).toBeGreaterThan(0);
+    expect(filtered.data.map(c => c.id).sort()).toEqual(
+      expected.map(c => c.id).sort()
+    );
+  });
+
+  it('should count each facet under every filter but its own', async () => {
+    const fetchPage = async (query: Record<string, string>) => {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query: { ...query, limit: '1000' },
+      });
+      await handler(req, res);
+      expect(res._getStatusCode()).toBe(200);
+      return CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    };
+
+    const unfiltered = await fetchPage({});
+    const countOf = (
+      values: { value: string; count: number }[],
+      value: string
+    ) => values.find(facet => facet.value === value)?.count ?? 0;
+    expect(
+      unfiltered.facets!.country.reduce((n, facet) => n + facet.count, 0)
+    ).toBe(unfiltered.total);
+    expect(
+      unfiltered.facets!.role.reduce((n, facet) => n + facet.count, 0)
+    ).toBe(unfiltered.total);
+
+    const filtered = await fetchPage({ country: 'DE', role: 'exporter' });
+    const exportersAnywhere = await fetchPage({ role: 'exporter' });
+    const germanCompanies = await fetchPage({ country: 'DE' });
+
+    // The country facet ignores the country filter, and the role facet the role filter
+    expect(filtered.facets!.country).toEqual(exportersAnywhere.facets!.country);
+    expect(countOf(filtered.facets!.country, 'DE')).toBe(filtered.total);
+    expect(filtered.facets!.role).toEqual(germanCompanies.facets!.role);
+    expect(countOf(filtered.facets!.role, 'exporter')).toBe(filtered.total);
+
+    // Commodity counts are companies within the other filters
+    for (const facet of filtered.facets!.commodity) {
+      expect(facet.count).toBeLessThanOrEqual(filtered.total);
+    }
+    const [top] = filtered.facets!.commodity;
+    const withCommodity = await fetchPage({
+      country: 'DE',
+      role: 'exporter',
+      commodity: top.value,
+    });
+    expect(withCommodity.total).toBe(top.count);
+  });
+
+  it('should list selected facet values even without matches', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { commodity: ['No Such Commodity', 'Neither, With Comma'] },
+    });
+
+    await handler(req, res);
+
+    const { total, facets } = CompaniesResponseSchema.parse(
+      JSON.parse(res._getData())
+    );
+    expect(total).toBe(0);
+    expect(facets!.commodity).toEqual(
+      expect.arrayContaining([
+        { value: 'No Such Commodity', count: 0 },
+        { value: 'Neither, With Comma', count: 0 },
+      ])
+    );
+  });
+
+  it('should leave out facets with facets=false', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { country: 'DE', facets: 'false' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const body = CompaniesResponseSchema.parse(JSON.parse(res._getData()));
+    expect(body.total).toBeGreaterThan(0);
+    expect(body.facets).toBeUndefined();
+  });
+
+  it('should return 400 for an invalid facet filter', async () => {
+    for (const query of [
+      { role: 'broker' },
+      { minShipments: '-1' },
+      { minWeight: 'heavy' },
+    ]) {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query,
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(400);
+    }
+  });
+
+  it('should fuzzy search with q and rank by relevance', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { q: 'bosh', limit: '1000' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const { data, total } = CompaniesResponseSchema.parse(
+      JSON.parse(res._getData())
+    );
+    const { total: literal } = await getCompanies({ search: 'bosh' });
+    expect(Number(literal)).toBe(0);
+    expect(total).toBe(data.length);
+    expect(data[0].name).toMatch(/Bosch/);
+
+    // An explicit sort still wins over relevance
+    const { req: sortedReq, res: sortedRes } = createMocks<
+      NextApiRequest,
+      NextApiResponse
+    >({
+      method: 'GET',
+      query: { q: 'bosh', sort: 'name', order: 'asc', limit: '1000' },
+    });
+    await handler(sortedReq, sortedRes);
+    const sorted = CompaniesResponseSchema.parse(
+      JSON.parse(sortedRes._getData())
+    );
+    const names = sorted.data.map(c => c.name);
+    expect(sorted.total).toBe(total);
+    expect(names).toEqual(
+      [...names].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    );
+  });
+});
+
+describe('API /api/companies exports', () => {
+  it('should download every filtered company as CSV', async () => {
+    const all = await getCompanies({ search: 'steel', limit: 1 });
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { search: 'steel', format: 'csv', limit: '1' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader('Content-Disposition')).toBe(
+      'attachment; filename="companies.csv"'
+    );
+    const lines = (res._getData() as string).trimEnd().split('\r\n');
+    expect(lines[0]).toBe(
+      'id,name,country,role,totalShipments,totalWeight,firstShipment,lastShipment'
+    );
+    expect(lines.length - 1).toBe(Number(all.total));
+  });
+
+  it('should honour an Accept header for CSV', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { country: 'de' },
+      headers: { accept: 'text/csv' },
+    });
+
+    await handler(req, res);
+
+    expect(res.getHeader('Content-Type')).toBe('text/csv');
+    const [, ...rows] = (res._getData() as string).trimEnd().split('\r\n');
+    expect(rows.length).toBeGreaterThan(0);
+  });
 });
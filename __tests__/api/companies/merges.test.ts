@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/companies/merges';
+import { CompanyMergeSchema } from '@/types/company';
+import {
+  getCompanies,
+  getCompanyDetailById,
+  getCompanyStats,
+} from '@/lib/data/shipments';
+import {
+  getCompanyMerges,
+  getDuplicateCandidates,
+} from '@/lib/data/duplicates';
+
+async function postMerge(body: unknown) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'POST',
+    body: body as Record<string, string>,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/companies/merges', () => {
+  let source: { id: string; totalShipments: number };
+  let target: { id: string; totalShipments: number };
+
+  beforeAll(async () => {
+    const { data } = await getDuplicateCandidates({ limit: 1 });
+    source = data[0].source;
+    target = data[0].target;
+  });
+
+  it('should merge the source into the target and combine totals', async () => {
+    const companiesBefore = await getCompanies({ limit: 1 });
+
+    const { status, body } = await postMerge({
+      sourceId: source.id,
+      targetId: target.id,
+    });
+
+    expect(status).toBe(201);
+    const merge = CompanyMergeSchema.parse(body);
+    expect(merge.aliasId).toBe(source.id);
+    expect(merge.canonicalId).toBe(target.id);
+
+    const detail = await getCompanyDetailById(target.id);
+    expect(detail!.totalShipments).toBe(
+      source.totalShipments + target.totalShipments
+    );
+
+    // The merged-away company no longer appears on its own
+    const companiesAfter = await getCompanies({ limit: 1 });
+    expect(Number(companiesAfter.total)).toBe(
+      Number(companiesBefore.total) - 1
+    );
+    const { data: all } = await getCompanies({ limit: 1000 });
+    expect(all.map(c => c.id)).not.toContain(source.id);
+  });
+
+  it('should resolve the merged-away id to the target', async () => {
+    const detail = await getCompanyDetailById(source.id);
+    expect(detail!.id).toBe(target.id);
+  });
+
+  it('should no longer suggest the merged pair', async () => {
+    const { data } = await getDuplicateCandidates({ limit: 1000 });
+    const ids = data.flatMap(c => [c.source.id, c.target.id]);
+    expect(ids).not.toContain(source.id);
+  });
+
+  it('should count merged companies once in stats', async () => {
+    const stats = await getCompanyStats();
+    const { data: all } = await getCompanies({ limit: 1000 });
+    expect(Number(stats.totalImporters)).toBeLessThanOrEqual(all.length);
+  });
+
+  it('should list accepted merges', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const { data } = JSON.parse(res._getData());
+    expect(data).toEqual([
+      expect.objectContaining({ aliasId: source.id, canonicalId: target.id }),
+    ]);
+  });
+
+  it('should return 409 when the companies are already merged', async () => {
+    const { status } = await postMerge({
+      sourceId: source.id,
+      targetId: target.id,
+    });
+    expect(status).toBe(409);
+  });
+
+  it('should apply only one of two opposite concurrent merges', async () => {
+    const { data } = await getDuplicateCandidates({ limit: 1 });
+    const a = data[0].source.id;
+    const b = data[0].target.id;
+
+    const results = await Promise.all([
+      postMerge({ sourceId: a, targetId: b }),
+      postMerge({ sourceId: b, targetId: a }),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual([201, 409]);
+    const merges = (await getCompanyMerges()).filter(m =>
+      [a, b].includes(m.aliasId)
+    );
+    expect(merges).toHaveLength(1);
+  });
+
+  it('should return 404 for unknown companies', async () => {
+    const { status } = await postMerge({
+      sourceId: 'no-such-company-xx',
+      targetId: target.id,
+    });
+    expect(status).toBe(404);
+  });
+
+  it('should return 400 for invalid bodies', async () => {
+    const invalidBodies = [
+      {},
+      { sourceId: source.id },
+      { sourceId: target.id, targetId: target.id },
+      { sourceId: 1, targetId: 2 },
+    ];
+
+    for (const body of invalidBodies) {
+      const { status } = await postMerge(body);
+      expect(status).toBe(400);
+    }
+  });
+
+  it('should return 405 for other methods', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'DELETE',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
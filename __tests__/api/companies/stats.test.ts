@@ -3,6 +3,7 @@ import { createMocks } from 'node-mocks-http';
 import type { NextApiRequest, NextApiResponse } from 'next';
 import handler from '@/pages/api/companies/stats';
 import { StatsResponseSchema } from '@/types/company';
+import { getCompanyStats } from '@/lib/data/shipments';
 
 describe('API /api/companies/stats', () => {
   it('should return 200 with stats data for GET request', async () => {
@@ -82,4 +83,144 @@ describe('API /api/companies/stats', () => {
       expect(item.month).toMatch(/^[A-Z][a-z]{2} \d{4}$/);
     });
   });
+
+  it('should limit every metric to the requested date range', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { from: '2025-01-01', to: '2025-03-31' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const ranged = StatsResponseSchema.parse(JSON.parse(res._getData()));
+    expect(ranged.monthlyVolume.map(m => m.month)).toEqual([
+      'Jan 2025',
+      'Feb 2025',
+      'Mar 2025',
+    ]);
+
+    const all = await getCompanyStats();
+    expect(ranged.totalImporters).toBeLessThan(Number(all.totalImporters));
+    expect(ranged.totalExporters).toBeLessThan(Number(all.totalExporters));
+  });
+
+  it('should resolve presets relative to the latest shipment', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { preset: 'ytd' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = StatsResponseSchema.parse(JSON.parse(res._getData()));
+    // The dataset ends in December 2025
+    expect(data.monthlyVolume[0].month).toBe('Jan 2025');
+    expect(data.monthlyVolume.at(-1)!.month).toBe('Dec 2025');
+  });
+
+  it('should return 400 for an invalid date range', async () => {
+    const invalidQueries: Record<string, string>[] = [
+      { from: '2025-13-01' },
+      { from: '2025-06-01', to: '2025-01-01' },
+      { preset: 'last7y' },
+      { preset: 'ytd', from: '2025-01-01' },
+    ];
+
+    for (const query of invalidQueries) {
+      const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+        method: 'GET',
+        query,
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(400);
+      expect(JSON.parse(res._getData())).toHaveProperty('error');
+    }
+  });
+
+  it('should break weight and shipments down by sector', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+    });
+
+    await handler(req, res);
+
+    const data = StatsResponseSchema.parse(JSON.parse(res._getData()));
+    expect(data.sectors.length).toBeGreaterThan(1);
+    const kg = data.sectors.map(s => s.kg);
+    expect(kg).toEqual([...kg].sort((a, b) => b - a));
+
+    // Sector shares add up to the whole of each month
+    const shares = new Map<string, number>();
+    for (const item of data.sectorMonthly) {
+      shares.set(item.month, (shares.get(item.month) ?? 0) + item.share);
+    }
+    expect([...shares.keys()]).toEqual(data.monthlyVolume.map(m => m.month));
+    for (const share of shares.values()) {
+      expect(share).toBeCloseTo(1, 6);
+    }
+  });
+
+  it('should segment every metric by sector', async () => {
+    const all = await getCompanyStats();
+    const sector = all.sectors[0];
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { sector: sector.sector.toUpperCase() },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = StatsResponseSchema.parse(JSON.parse(res._getData()));
+    expect(data.sectors).toEqual([
+      { ...sector, kg: Number(sector.kg), shipments: Number(sector.shipments) },
+    ]);
+    expect(data.sectorMonthly.every(m => m.share === 1)).toBe(true);
+    expect(data.totalImporters).toBeLessThanOrEqual(Number(all.totalImporters));
+  });
+});
+
+describe('API /api/companies/stats exports', () => {
+  async function exportStats(query: Record<string, string>) {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query,
+    });
+
+    await handler(req, res);
+
+    return res;
+  }
+
+  it('should export the monthly volume table by default', async () => {
+    const stats = await getCompanyStats();
+    const res = await exportStats({ format: 'json' });
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader('Content-Disposition')).toBe(
+      'attachment; filename="monthlyVolume.json"'
+    );
+    expect(JSON.parse(res._getData())).toHaveLength(stats.monthlyVolume.length);
+  });
+
+  it('should export the requested table', async () => {
+    const res = await exportStats({ format: 'csv', table: 'topCommodities' });
+
+    const [header] = (res._getData() as string).split('\r\n');
+    expect(header).toBe(
+      Object.keys(StatsResponseSchema.shape.topCommodities.element.shape).join(
+        ','
+      )
+    );
+  });
+
+  it('should return 400 for an unknown table', async () => {
+    const res = await exportStats({ format: 'csv', table: 'shipments' });
+
+    expect(res._getStatusCode()).toBe(400);
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/countries/[code]';
+import listHandler from '@/pages/api/countries';
+import { CountriesResponseSchema, CountryDetailSchema } from '@/types/country';
+
+async function getCountry(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+async function getBusiestCountry() {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+  });
+  await listHandler(req, res);
+  return CountriesResponseSchema.parse(JSON.parse(res._getData())).data[0];
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('API /api/countries/[code]', () => {
+  it('should match the country list totals, case-insensitively', async () => {
+    const busiest = await getBusiestCountry();
+    const { status, body } = await getCountry({
+      code: busiest.code.toLowerCase(),
+    });
+
+    expect(status).toBe(200);
+    const country = CountryDetailSchema.parse(body);
+    expect(country).toMatchObject(busiest);
+  });
+
+  it('should split partner kg by direction and rank partners by kg', async () => {
+    const busiest = await getBusiestCountry();
+    const { body } = await getCountry({ code: busiest.code, limit: '50' });
+
+    const country = CountryDetailSchema.parse(body);
+    expect(country.topPartners.length).toBeGreaterThan(0);
+    expect(sum(country.topPartners.map(p => p.importKg))).toBe(
+      country.importKg
+    );
+    expect(sum(country.topPartners.map(p => p.exportKg))).toBe(
+      country.exportKg
+    );
+    const totals = country.topPartners.map(p => p.importKg + p.exportKg);
+    expect(totals).toEqual([...totals].sort((a, b) => b - a));
+  });
+
+  it('should list top commodities and companies based in the country', async () => {
+    const busiest = await getBusiestCountry();
+    const { body } = await getCountry({ code: busiest.code, limit: '3' });
+
+    const country = CountryDetailSchema.parse(body);
+    expect(country.topCommodities.length).toBeGreaterThan(0);
+    expect(country.topCommodities.length).toBeLessThanOrEqual(3);
+    expect(country.topCompanies.length).toBeGreaterThan(0);
+    expect(country.topCompanies.length).toBeLessThanOrEqual(3);
+    const shipments = country.topCompanies.map(c => c.totalShipments);
+    expect(shipments).toEqual([...shipments].sort((a, b) => b - a));
+  });
+
+  it('should return zero totals for a known country outside the date range', async () => {
+    const busiest = await getBusiestCountry();
+    const { status, body } = await getCountry({
+      code: busiest.code,
+      from: '1990-01-01',
+      to: '1990-12-31',
+    });
+
+    expect(status).toBe(200);
+    const country = CountryDetailSchema.parse(body);
+    expect(country.importShipments + country.exportShipments).toBe(0);
+    expect(country.topPartners).toEqual([]);
+    expect(country.topCompanies).toEqual([]);
+  });
+
+  it('should return 404 for a country with no shipments', async () => {
+    const { status, body } = await getCountry({ code: 'ZZ' });
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ error: 'Country not found' });
+  });
+
+  it('should return 400 when the code is missing', async () => {
+    const { status } = await getCountry({ code: ' ' });
+
+    expect(status).toBe(400);
+  });
+
+  it('should return 405 for non-GET methods', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'DELETE',
+      query: { code: 'US' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/countries/flows';
+import { CountryFlowsResponseSchema } from '@/types/country';
+import { loadShipments } from '@/lib/data/shipments';
+
+async function getFlows(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/countries/flows', () => {
+  it('should cover every shipment when no axis is truncated', async () => {
+    const { status, body } = await getFlows({ limit: '100' });
+
+    expect(status).toBe(200);
+    const data = CountryFlowsResponseSchema.parse(body);
+    const total = Number((await loadShipments({ limit: 1 })).total);
+    expect(data.flows.reduce((n, flow) => n + flow.shipments, 0)).toBe(total);
+
+    const cells = data.flows.map(f => `${f.origin}>${f.destination}`);
+    expect(new Set(cells).size).toBe(cells.length);
+    for (const flow of data.flows) {
+      expect(data.origins).toContain(flow.origin);
+      expect(data.destinations).toContain(flow.destination);
+    }
+  });
+
+  it('should keep only the top origins and destinations with limit', async () => {
+    const { body: all } = await getFlows({ limit: '100' });
+    const { body } = await getFlows({ limit: '1' });
+
+    const full = CountryFlowsResponseSchema.parse(all);
+    const data = CountryFlowsResponseSchema.parse(body);
+    expect(data.origins).toEqual(full.origins.slice(0, 1));
+    expect(data.destinations).toEqual(full.destinations.slice(0, 1));
+    expect(
+      data.flows.every(
+        f =>
+          f.origin === data.origins[0] && f.destination === data.destinations[0]
+      )
+    ).toBe(true);
+  });
+
+  it('should return an empty matrix outside the data', async () => {
+    const { body } = await getFlows({ from: '1990-01-01', to: '1990-12-31' });
+
+    expect(CountryFlowsResponseSchema.parse(body)).toEqual({
+      origins: [],
+      destinations: [],
+      flows: [],
+    });
+  });
+
+  it('should return 405 for non-GET methods', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
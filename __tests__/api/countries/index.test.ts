@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/countries';
+import { CountriesResponseSchema } from '@/types/country';
+import { loadShipments } from '@/lib/data/shipments';
+
+async function getCountries(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('API /api/countries', () => {
+  it('should count every shipment once as an import and once as an export', async () => {
+    const { status, body } = await getCountries();
+
+    expect(status).toBe(200);
+    const { data } = CountriesResponseSchema.parse(body);
+    expect(data.length).toBeGreaterThan(1);
+
+    const total = Number((await loadShipments({ limit: 1 })).total);
+    expect(sum(data.map(c => c.importShipments))).toBe(total);
+    expect(sum(data.map(c => c.exportShipments))).toBe(total);
+    expect(new Set(data.map(c => c.code)).size).toBe(data.length);
+  });
+
+  it('should order countries by total kg and count their companies', async () => {
+    const { body } = await getCountries();
+    const { data } = CountriesResponseSchema.parse(body);
+
+    const totals = data.map(c => c.importKg + c.exportKg);
+    expect(totals).toEqual([...totals].sort((a, b) => b - a));
+    for (const country of data) {
+      expect(country.importers > 0).toBe(country.importShipments > 0);
+      expect(country.exporters > 0).toBe(country.exportShipments > 0);
+    }
+  });
+
+  it('should only count shipments inside the date range', async () => {
+    const { body: all } = await getCountries();
+    const { status, body } = await getCountries({
+      from: '2024-01-01',
+      to: '2024-12-31',
+    });
+
+    expect(status).toBe(200);
+    const { data } = CountriesResponseSchema.parse(body);
+    const { total } = await loadShipments({
+      limit: 1,
+      from: '2024-01-01',
+      to: '2024-12-31',
+    });
+    expect(sum(data.map(c => c.importShipments))).toBe(Number(total));
+    expect(Number(total)).toBeLessThan(
+      sum(CountriesResponseSchema.parse(all).data.map(c => c.importShipments))
+    );
+  });
+
+  it('should return 400 for an invalid date range', async () => {
+    const { status } = await getCountries({ from: 'yesterday' });
+
+    expect(status).toBe(400);
+  });
+
+  it('should return 405 for non-GET methods', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
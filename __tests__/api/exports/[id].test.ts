@@ -0,0 +1,144 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/exports/[id]';
+import {
+  createExportJob,
+  EXPIRED_JOB_RETENTION_MS,
+  EXPORT_JOB_TTL_MS,
+  waitForExportJobs,
+} from '@/lib/data/exports';
+import { ExportJobSchema } from '@/types/export';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-'));
+  vi.stubEnv('EXPORTS_DIR', dir);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function getJob(id: string) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query: { id },
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/exports/[id]', () => {
+  it('should report progress until the job completes', async () => {
+    const { id } = createExportJob({
+      resource: 'companies',
+      format: 'csv',
+      query: { search: 'steel' },
+    });
+
+    const queued = await getJob(id);
+    expect(queued.status).toBe(200);
+    expect(['queued', 'running']).toContain(queued.body.status);
+    expect(queued.body.expiresAt).toBeNull();
+
+    await waitForExportJobs();
+
+    const { status, body } = await getJob(id);
+    expect(status).toBe(200);
+    const job = ExportJobSchema.parse(body);
+    expect(job.status).toBe('completed');
+    expect(job.progress).toBe(1);
+    expect(job.bytes).toBeGreaterThan(0);
+    expect(Date.parse(job.expiresAt!) - Date.parse(job.completedAt!)).toBe(
+      EXPORT_JOB_TTL_MS
+    );
+  });
+
+  it('should expire the job and delete its file after the TTL', async () => {
+    const { id } = createExportJob({
+      resource: 'shipments',
+      format: 'parquet',
+      query: { sort: 'shipment_date', order: 'desc', commodity: 'steel' },
+    });
+    await waitForExportJobs();
+    const file = path.join(dir, `${id}.parquet`);
+    expect(fs.existsSync(file)).toBe(true);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + EXPORT_JOB_TTL_MS + 1000);
+
+    const { body } = await getJob(id);
+    expect(body).toMatchObject({ status: 'expired', downloadUrl: null });
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('should forget expired jobs after the retention period', async () => {
+    const { id } = createExportJob({
+      resource: 'companies',
+      format: 'csv',
+      query: { search: 'steel' },
+    });
+    await waitForExportJobs();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(
+      Date.now() + EXPORT_JOB_TTL_MS + EXPIRED_JOB_RETENTION_MS + 1000
+    );
+
+    expect((await getJob(id)).status).toBe(404);
+    expect(fs.existsSync(path.join(dir, `${id}.csv`))).toBe(false);
+  });
+
+  it('should delete stale files left behind by a restart', async () => {
+    const stale = path.join(dir, 'left-over.csv');
+    const fresh = path.join(dir, 'recent.parquet');
+    fs.writeFileSync(stale, 'id\n');
+    fs.writeFileSync(fresh, 'id\n');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 4 * EXPORT_JOB_TTL_MS);
+    fs.utimesSync(fresh, new Date(), new Date());
+
+    await getJob('no-such-job');
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.existsSync(fresh)).toBe(true);
+  });
+
+  it('should return 404 for an unknown job', async () => {
+    const { status, body } = await getJob('no-such-job');
+
+    expect(status).toBe(404);
+    expect(body.error).toBe('Export job not found');
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'DELETE',
+      query: { id: 'no-such-job' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
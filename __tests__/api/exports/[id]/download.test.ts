@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/exports/[id]/download';
+import { createExportJob, waitForExportJobs } from '@/lib/data/exports';
+import { loadShipments } from '@/lib/data/shipments';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-'));
+  vi.stubEnv('EXPORTS_DIR', dir);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function download(id: string) {
+  // A real emitter, so the piped file stream sees 'finish'
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>(
+    { method: 'GET', query: { id } },
+    { eventEmitter: EventEmitter }
+  );
+
+  await handler(req, res);
+
+  return res;
+}
+
+describe('API /api/exports/[id]/download', () => {
+  it('should return 409 while the job is queued, then serve the file', async () => {
+    const { id, createdAt } = createExportJob({
+      resource: 'shipments',
+      format: 'csv',
+      query: { importerCountry: ['US'], sort: 'shipment_date', order: 'desc' },
+    });
+
+    const pending = await download(id);
+    expect(pending._getStatusCode()).toBe(409);
+
+    await waitForExportJobs();
+
+    const res = await download(id);
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader('Content-Type')).toBe('text/csv');
+    expect(res.getHeader('Content-Disposition')).toBe(
+      `attachment; filename="shipments-${createdAt.slice(0, 10)}.csv"`
+    );
+    const text = res._getBuffer().toString('utf8');
+    expect(res.getHeader('Content-Length')).toBe(Buffer.byteLength(text));
+
+    const { total } = await loadShipments({
+      importerCountry: ['US'],
+      limit: 1,
+    });
+    expect(text.trimEnd().split('\n')).toHaveLength(Number(total) + 1);
+  });
+
+  it('should return 404 for an unknown job', async () => {
+    const res = await download('no-such-job');
+
+    expect(res._getStatusCode()).toBe(404);
+  });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/exports';
+import { getExportJob, waitForExportJobs } from '@/lib/data/exports';
+import {
+  getCompanies,
+  loadShipments,
+  query,
+  resolveDateRange,
+} from '@/lib/data/shipments';
+import { ExportJobSchema } from '@/types/export';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-'));
+  vi.stubEnv('EXPORTS_DIR', dir);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function postExport(body: unknown) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'POST',
+    body: body as Record<string, unknown>,
+  });
+
+  await handler(req, res);
+
+  return {
+    status: res._getStatusCode(),
+    headers: res._getHeaders(),
+    body: JSON.parse(res._getData()),
+  };
+}
+
+describe('API /api/exports', () => {
+  it('should queue a job and write every matching shipment to CSV', async () => {
+    const { status, headers, body } = await postExport({
+      resource: 'shipments',
+      query: { commodity: 'steel', sort: 'weight_metric_tonnes' },
+    });
+
+    expect(status).toBe(202);
+    const job = ExportJobSchema.parse(body);
+    expect(job).toMatchObject({
+      resource: 'shipments',
+      format: 'csv',
+      status: 'queued',
+      downloadUrl: null,
+    });
+    expect(headers.location).toBe(`/api/exports/${job.id}`);
+
+    await waitForExportJobs();
+
+    const { total } = await loadShipments({ commodity: 'steel', limit: 1 });
+    const done = getExportJob(job.id)!;
+    expect(done).toMatchObject({
+      status: 'completed',
+      progress: 1,
+      rows: Number(total),
+      downloadUrl: `/api/exports/${job.id}/download`,
+    });
+    expect(Date.parse(done.expiresAt!)).toBeGreaterThan(Date.now());
+
+    const lines = fs
+      .readFileSync(path.join(dir, `${job.id}.csv`), 'utf8')
+      .trimEnd()
+      .split('\n');
+    expect(lines[0]).toMatch(/^id,importer_name,/);
+    expect(lines).toHaveLength(Number(total) + 1);
+  });
+
+  it('should export filtered companies to Parquet', async () => {
+    const { status, body } = await postExport({
+      resource: 'companies',
+      format: 'parquet',
+      query: { country: 'de', preset: 'last12m' },
+    });
+
+    expect(status).toBe(202);
+    await waitForExportJobs();
+
+    const range = await resolveDateRange({ preset: 'last12m' });
+    const expected = await getCompanies({ country: ['DE'], ...range });
+    const file = path.join(dir, `${body.id}.parquet`);
+    const rows = await query<{ id: string }>(
+      `SELECT id FROM read_parquet('${file}')`
+    );
+    expect(getExportJob(body.id)?.status).toBe('completed');
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.map(row => row.id)).toEqual(expected.data.map(c => c.id));
+  });
+
+  it('should return 400 for an unknown resource, format or filter', async () => {
+    const bodies: unknown[] = [
+      { resource: 'partners' },
+      { resource: 'shipments', format: 'xlsx' },
+      { resource: 'shipments', query: { sort: 'not_a_column' } },
+      {
+        resource: 'companies',
+        query: { from: '2024-02-01', to: '2024-01-01' },
+      },
+    ];
+
+    for (const body of bodies) {
+      const { status, body: response } = await postExport(body);
+      expect(status).toBe(400);
+      expect(response).toHaveProperty('error');
+    }
+  });
+
+  it('should return 405 for non-POST requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
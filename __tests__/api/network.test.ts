@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/network';
+import { NetworkResponseSchema } from '@/types/network';
+import { getCompanies } from '@/lib/data/shipments';
+
+async function getNetwork(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/network', () => {
+  let existingCompany: { id: string; name: string };
+
+  beforeAll(async () => {
+    const companies = await getCompanies({ limit: 1 });
+    existingCompany = companies.data[0];
+  });
+
+  it('should return the busiest companies with edges only between them', async () => {
+    const { status, body } = await getNetwork({ limit: '20' });
+
+    expect(status).toBe(200);
+    const data = NetworkResponseSchema.parse(body);
+    expect(data.nodes).toHaveLength(20);
+    expect(data.truncated).toBe(true);
+    expect(data.nodes[0].id).toBe(existingCompany.id);
+    expect(data.nodes.every(node => node.depth === null)).toBe(true);
+
+    const ids = new Set(data.nodes.map(node => node.id));
+    expect(data.edges.length).toBeGreaterThan(0);
+    for (const edge of data.edges) {
+      expect(ids.has(edge.source)).toBe(true);
+      expect(ids.has(edge.target)).toBe(true);
+      expect(edge.shipments).toBeGreaterThan(0);
+    }
+  });
+
+  it('should return the ego network around a company', async () => {
+    const { body } = await getNetwork({ company: existingCompany.id });
+
+    const data = NetworkResponseSchema.parse(body);
+    expect(data.nodes[0]).toMatchObject({
+      id: existingCompany.id,
+      depth: 0,
+    });
+    expect(data.nodes.slice(1).every(node => node.depth === 1)).toBe(true);
+
+    // Every neighbour is linked to the center
+    for (const node of data.nodes.slice(1)) {
+      expect(
+        data.edges.some(
+          edge =>
+            (edge.source === existingCompany.id && edge.target === node.id) ||
+            (edge.target === existingCompany.id && edge.source === node.id)
+        )
+      ).toBe(true);
+    }
+  });
+
+  it('should reach further with a larger depth', async () => {
+    const depth1 = NetworkResponseSchema.parse(
+      (await getNetwork({ company: existingCompany.id, limit: '500' })).body
+    );
+    const depth2 = NetworkResponseSchema.parse(
+      (
+        await getNetwork({
+          company: existingCompany.id,
+          depth: '2',
+          limit: '500',
+        })
+      ).body
+    );
+
+    expect(depth2.nodes.length).toBeGreaterThan(depth1.nodes.length);
+    expect(Math.max(...depth2.nodes.map(node => node.depth ?? 0))).toBe(2);
+  });
+
+  it('should only count shipments matching the commodity and date filters', async () => {
+    const all = NetworkResponseSchema.parse(
+      (await getNetwork({ limit: '500' })).body
+    );
+    const filtered = NetworkResponseSchema.parse(
+      (await getNetwork({ limit: '500', preset: '2025-Q3' })).body
+    );
+    const none = NetworkResponseSchema.parse(
+      (await getNetwork({ commodity: 'NoSuchCommodityXYZ' })).body
+    );
+
+    const total = (edges: { shipments: number }[]) =>
+      edges.reduce((sum, edge) => sum + edge.shipments, 0);
+    expect(total(filtered.edges)).toBeGreaterThan(0);
+    expect(total(filtered.edges)).toBeLessThan(total(all.edges));
+    expect(none).toEqual({ nodes: [], edges: [], truncated: false });
+  });
+
+  it('should return 400 for an invalid depth', async () => {
+    for (const depth of ['0', '4', 'deep']) {
+      const { status, body } = await getNetwork({
+        company: existingCompany.id,
+        depth,
+      });
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 404 for an unknown company', async () => {
+    const { status } = await getNetwork({ company: 'no-such-company-xx' });
+
+    expect(status).toBe(404);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/paths';
+import { Path, PathsResponseSchema } from '@/types/network';
+import { appendShipments } from '@/lib/data/shipments';
+
+async function getPaths(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+/** Legs chain the path's companies in order and strength is the weakest leg */
+function expectConnected(path: Path) {
+  expect(path.legs).toHaveLength(path.hops);
+  expect(path.companies).toHaveLength(path.hops + 1);
+  path.legs.forEach((leg, i) => {
+    expect(leg.source).toBe(path.companies[i].id);
+    expect(leg.target).toBe(path.companies[i + 1].id);
+  });
+  expect(path.strength).toBe(Math.min(...path.legs.map(leg => leg.kg)));
+}
+
+function shipment(
+  id: string,
+  exporter: [string, string],
+  importer: [string, string],
+  weight: number
+) {
+  return {
+    id,
+    exporter_name: exporter[0],
+    exporter_website: null,
+    exporter_country: exporter[1],
+    importer_name: importer[0],
+    importer_website: null,
+    importer_country: importer[1],
+    shipment_date: '2025-05-01',
+    commodity_name: 'Test Resin',
+    industry_sector: 'Chemicals',
+    weight_metric_tonnes: weight,
+  };
+}
+
+const SUPPLIER: [string, string] = ['Path Test Resin Works', 'CN'];
+const BROKER: [string, string] = ['Path Test Broker', 'MX'];
+const MILL: [string, string] = ['Path Test Mill', 'VN'];
+const CONVERTER: [string, string] = ['Path Test Converter', 'MX'];
+const BUYER: [string, string] = ['Path Test Buyer', 'US'];
+
+describe('API /api/paths', () => {
+  // Supplier reaches the buyer via a thin 2-hop route and a heavy 3-hop route
+  const pair = {
+    source: 'path-test-resin-works-cn',
+    target: 'path-test-buyer-us',
+    targetName: BUYER[0],
+  };
+
+  beforeAll(async () => {
+    await appendShipments([
+      shipment('path-1', SUPPLIER, BROKER, 1),
+      shipment('path-2', BROKER, BUYER, 2),
+      shipment('path-3', SUPPLIER, MILL, 8),
+      shipment('path-4', MILL, CONVERTER, 6),
+      shipment('path-5', CONVERTER, BUYER, 5),
+    ]);
+  });
+
+  it('should find routes through an intermediary', async () => {
+    const { status, body } = await getPaths({
+      from: pair.source,
+      to: pair.target,
+    });
+
+    expect(status).toBe(200);
+    const data = PathsResponseSchema.parse(body);
+    expect(data.from.id).toBe(pair.source);
+    expect(data.to.id).toBe(pair.target);
+    expect(data.maxHops).toBe(3);
+
+    expect(data.shortest).toHaveLength(1);
+    expect(data.shortest[0].companies.map(c => c.name)).toEqual([
+      SUPPLIER[0],
+      BROKER[0],
+      BUYER[0],
+    ]);
+    expect(data.shortest[0].strength).toBe(1000);
+
+    // The longer route moves more through its weakest leg
+    expect(data.strongest.map(path => [path.hops, path.strength])).toEqual([
+      [3, 5000],
+      [2, 1000],
+    ]);
+    expect(data.strongest[0].companies.map(c => c.name)).toEqual([
+      SUPPLIER[0],
+      MILL[0],
+      CONVERTER[0],
+      BUYER[0],
+    ]);
+    [...data.shortest, ...data.strongest].forEach(expectConnected);
+  });
+
+  it('should accept company names and respect maxHops', async () => {
+    const byName = PathsResponseSchema.parse(
+      (await getPaths({ from: pair.source, to: pair.targetName })).body
+    );
+    expect(byName.to.id).toBe(pair.target);
+
+    const twoHops = PathsResponseSchema.parse(
+      (
+        await getPaths({
+          from: pair.source,
+          to: pair.target,
+          maxHops: '2',
+        })
+      ).body
+    );
+    expect(twoHops.strongest.map(path => path.hops)).toEqual([2]);
+
+    const oneHop = PathsResponseSchema.parse(
+      (
+        await getPaths({
+          from: pair.source,
+          to: pair.target,
+          maxHops: '1',
+        })
+      ).body
+    );
+    expect(oneHop.shortest).toEqual([]);
+    expect(oneHop.strongest).toEqual([]);
+  });
+
+  it('should follow trade from exporter to importer only', async () => {
+    const reverse = PathsResponseSchema.parse(
+      (await getPaths({ from: pair.target, to: pair.source })).body
+    );
+
+    expect(reverse.shortest).toEqual([]);
+  });
+
+  it('should return 400 for missing or identical companies and invalid maxHops', async () => {
+    const queries: Record<string, string>[] = [
+      { from: pair.source },
+      { from: pair.source, to: pair.source },
+      { from: pair.source, to: SUPPLIER[0] }, // same company by ID and name
+      { from: pair.source, to: pair.target, maxHops: '6' },
+    ];
+    for (const query of queries) {
+      const { status, body } = await getPaths(query);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should keep the strongest routes when many branch out', async () => {
+    const hub: [string, string] = ['Path Test Fan Hub', 'DE'];
+    const sink: [string, string] = ['Path Test Fan Sink', 'FR'];
+    const brokers = Array.from({ length: 30 }, (_, i): [string, string] => [
+      `Path Test Fan Broker ${i + 1}`,
+      'PL',
+    ]);
+    await appendShipments(
+      brokers.flatMap((broker, i) => [
+        shipment(`fan-in-${i}`, hub, broker, i + 1),
+        shipment(`fan-out-${i}`, broker, sink, 100),
+      ])
+    );
+
+    const { status, body } = await getPaths({
+      from: 'path-test-fan-hub-de',
+      to: 'path-test-fan-sink-fr',
+    });
+
+    expect(status).toBe(200);
+    const data = PathsResponseSchema.parse(body);
+    expect(data.strongest.map(path => path.strength)).toEqual([
+      30000, 29000, 28000, 27000, 26000,
+    ]);
+    expect(data.shortest).toEqual(data.strongest);
+  });
+
+  it('should return 404 for an unknown company', async () => {
+    const { status } = await getPaths({
+      from: pair.source,
+      to: 'NonExistentCompanyXYZ123',
+    });
+
+    expect(status).toBe(404);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/search';
+import { SearchResponseSchema } from '@/types/search';
+import { query } from '@/lib/data/shipments';
+import { sql } from '@/lib/data/sql';
+
+async function search(params: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query: params,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/search', () => {
+  it('should tolerate typos and find the company by name', async () => {
+    const { status, body } = await search({ q: 'robrt bosh' });
+
+    expect(status).toBe(200);
+    const { query: q, data, total } = SearchResponseSchema.parse(body);
+    expect(q).toBe('robrt bosh');
+    expect(total).toBeGreaterThan(0);
+    expect(data[0].company.name).toMatch(/Robert Bosch/);
+    const [best] = data[0].matches;
+    expect(best.field).toBe('name');
+    const highlighted = best.highlights.map(([start, end]) =>
+      best.text.slice(start, end)
+    );
+    expect(highlighted).toEqual(['Robert', 'Bosch']);
+  });
+
+  it('should ignore word order', async () => {
+    const inOrder = SearchResponseSchema.parse(
+      (await search({ q: 'bosch steering' })).body
+    );
+    const reversed = SearchResponseSchema.parse(
+      (await search({ q: 'steering bosch' })).body
+    );
+
+    expect(inOrder.total).toBeGreaterThan(0);
+    expect(reversed.data.map(r => r.company.id)).toEqual(
+      inOrder.data.map(r => r.company.id)
+    );
+  });
+
+  it('should match website domains and traded commodities', async () => {
+    const [{ domain, company_id }] = await query<{
+      domain: string;
+      company_id: string;
+    }>(
+      sql`SELECT domain, company_id FROM company_websites ORDER BY domain LIMIT 1`
+    );
+    const byWebsite = SearchResponseSchema.parse(
+      (await search({ q: domain, limit: '100' })).body
+    );
+    const hit = byWebsite.data.find(r => r.company.id === company_id);
+    expect(hit?.matches.some(m => m.field === 'website')).toBe(true);
+
+    const byCommodity = SearchResponseSchema.parse(
+      (await search({ q: 'plastc articles' })).body
+    );
+    expect(byCommodity.total).toBeGreaterThan(0);
+    expect(byCommodity.data[0].matches[0]).toMatchObject({
+      field: 'commodity',
+      text: 'Plastic Articles',
+    });
+  });
+
+  it('should rank name matches above commodity matches', async () => {
+    const { body } = await search({ q: 'steel', limit: '100' });
+
+    const { data } = SearchResponseSchema.parse(body);
+    const scores = data.map(r => r.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    const firstCommodity = data.findIndex(
+      r => r.matches[0].field === 'commodity'
+    );
+    const lastName = data.findLastIndex(r => r.matches[0].field === 'name');
+    expect(lastName).toBeGreaterThanOrEqual(0);
+    expect(firstCommodity).toBeGreaterThan(lastName);
+  });
+
+  it('should page through results', async () => {
+    const all = SearchResponseSchema.parse(
+      (await search({ q: 'gmbh', limit: '10' })).body
+    );
+    const second = SearchResponseSchema.parse(
+      (await search({ q: 'gmbh', limit: '5', offset: '5' })).body
+    );
+
+    expect(second.total).toBe(all.total);
+    expect(second.data.map(r => r.company.id)).toEqual(
+      all.data.slice(5, 10).map(r => r.company.id)
+    );
+  });
+
+  it('should return nothing for a query without words', async () => {
+    const { status, body } = await search({ q: "'; --" });
+
+    expect(status).toBe(200);
+    expect(SearchResponseSchema.parse(body)).toEqual({
+      query: "'; --",
+      data: [],
+      total: 0,
+    });
+  });
+
+  it('should return 400 for a missing or empty query', async () => {
+    for (const params of [{}, { q: '   ' }] as Record<string, string>[]) {
+      const { status, body } = await search(params);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/search/suggest';
+import { SUGGESTION_GROUPS, SuggestResponseSchema } from '@/types/search';
+
+async function suggest(params: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query: params,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/search/suggest', () => {
+  it('should return every group with metrics', async () => {
+    const { status, body } = await suggest({ q: 'steel' });
+
+    expect(status).toBe(200);
+    const response = SuggestResponseSchema.parse(body);
+    expect(response.query).toBe('steel');
+    expect(response.companies.length).toBeGreaterThan(0);
+    expect(response.companies[0].metricUnit).toBe('shipments');
+    expect(response.commodities.length).toBeGreaterThan(0);
+    for (const suggestion of response.commodities) {
+      expect(suggestion.metricUnit).toBe('kg');
+      expect(suggestion.metric).toBeGreaterThan(0);
+    }
+  });
+
+  it('should suggest countries by name or code', async () => {
+    const byName = SuggestResponseSchema.parse(
+      (await suggest({ q: 'germ' })).body
+    );
+    expect(byName.countries[0]).toMatchObject({
+      id: 'DE',
+      label: 'Germany',
+      metricUnit: 'kg',
+    });
+
+    const byCode = SuggestResponseSchema.parse(
+      (await suggest({ q: 'de' })).body
+    );
+    expect(byCode.countries.map(c => c.id)).toContain('DE');
+  });
+
+  it('should tolerate typos in commodities and sectors', async () => {
+    const commodities = SuggestResponseSchema.parse(
+      (await suggest({ q: 'plastc' })).body
+    ).commodities;
+    expect(commodities.length).toBeGreaterThan(0);
+    for (const { id } of commodities) {
+      expect(id).toMatch(/plastic/i);
+    }
+
+    const { sectors } = SuggestResponseSchema.parse(
+      (await suggest({ q: 'automotve' })).body
+    );
+    expect(sectors[0]).toMatchObject({
+      id: 'Automotive',
+      metricUnit: 'shipments',
+    });
+    expect(sectors[0].metric).toBeGreaterThan(0);
+  });
+
+  it('should limit each group', async () => {
+    const { body } = await suggest({ q: 'a', limit: '2' });
+
+    const response = SuggestResponseSchema.parse(body);
+    for (const group of SUGGESTION_GROUPS) {
+      expect(response[group].length).toBeLessThanOrEqual(2);
+    }
+    expect(response.companies).toHaveLength(2);
+  });
+
+  it('should return empty groups for a query without words', async () => {
+    const { status, body } = await suggest({ q: "'; --" });
+
+    expect(status).toBe(200);
+    expect(SuggestResponseSchema.parse(body)).toEqual({
+      query: "'; --",
+      companies: [],
+      commodities: [],
+      countries: [],
+      sectors: [],
+    });
+  });
+
+  it('should return 400 for a missing or empty query', async () => {
+    for (const params of [{}, { q: '   ' }] as Record<string, string>[]) {
+      const { status, body } = await suggest(params);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/shipments';
+import { EventEmitter } from 'events';
+import ExcelJS from 'exceljs';
+import type { Shipment } from '@/types/shipment';
+
+async function getShipments(query: Record<string, string>) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return {
+    status: res._getStatusCode(),
+    body: JSON.parse(res._getData()),
+  };
+}
+
+describe('API /api/shipments', () => {
+  it('should return 200 with shipments data for GET request', async () => {
+    const { status, body } = await getShipments({ limit: '5' });
+
+    expect(status).toBe(200);
+    expect(body.data.length).toBe(5);
+    expect(Number(body.total)).toBeGreaterThan(5);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+
+  it('should sort by shipment_date descending by default', async () => {
+    const { body } = await getShipments({ limit: '20' });
+    const dates = body.data.map((s: Shipment) => s.shipment_date);
+
+    expect(dates).toEqual([...dates].sort().reverse());
+  });
+
+  it('should sort by any column in either direction', async () => {
+    const { body } = await getShipments({
+      limit: '20',
+      sort: 'weight_metric_tonnes',
+      order: 'asc',
+    });
+    const weights = body.data.map((s: Shipment) =>
+      Number(s.weight_metric_tonnes)
+    );
+
+    expect(weights).toEqual([...weights].sort((a, b) => a - b));
+  });
+
+  it('should filter by importer country and date range', async () => {
+    const { status, body } = await getShipments({
+      importerCountry: 'us',
+      from: '2025-01-01',
+      to: '2025-03-31',
+      limit: '1000',
+    });
+
+    expect(status).toBe(200);
+    expect(body.data.length).toBeGreaterThan(0);
+    body.data.forEach((s: Shipment) => {
+      expect(s.importer_country).toBe('US');
+      expect(s.shipment_date >= '2025-01-01').toBe(true);
+      expect(s.shipment_date <= '2025-03-31').toBe(true);
+    });
+  });
+
+  it('should filter by name, commodity, sector and weight range', async () => {
+    const { body: sample } = await getShipments({ limit: '1' });
+    const shipment: Shipment = sample.data[0];
+
+    const { body } = await getShipments({
+      importer: shipment.importer_name.slice(0, 5).toLowerCase(),
+      exporter: shipment.exporter_name,
+      commodity: shipment.commodity_name,
+      sector: shipment.industry_sector,
+      minWeight: String(shipment.weight_metric_tonnes),
+      maxWeight: String(shipment.weight_metric_tonnes),
+    });
+
+    expect(body.data.map((s: Shipment) => s.id)).toContain(shipment.id);
+    body.data.forEach((s: Shipment) => {
+      expect(s.exporter_name).toBe(shipment.exporter_name);
+      expect(s.industry_sector).toBe(shipment.industry_sector);
+      expect(s.weight_metric_tonnes).toBe(shipment.weight_metric_tonnes);
+    });
+  });
+
+  it('should report the total of matching rows, not the whole table', async () => {
+    const { body: all } = await getShipments({ limit: '1' });
+    const { body: filtered } = await getShipments({
+      limit: '1',
+      to: '2023-01-01',
+    });
+
+    expect(Number(filtered.total)).toBeLessThan(Number(all.total));
+  });
+
+  it('should return 400 for invalid filters or sort columns', async () => {
+    const invalidQueries: Record<string, string>[] = [
+      { sort: 'importer_name; DROP TABLE shipments' },
+      { order: 'sideways' },
+      { from: 'yesterday' },
+      { from: '2025-06-01', to: '2025-01-01' },
+      { minWeight: 'heavy' },
+      { minWeight: '10', maxWeight: '1' },
+    ];
+
+    for (const query of invalidQueries) {
+      const { status, body } = await getShipments(query);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+});
+
+async function exportShipments(
+  query: Record<string, string>,
+  headers: Record<string, string> = {}
+) {
+  // A real emitter, so piped streams (the XLSX writer) see 'finish'
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>(
+    { method: 'GET', query, headers },
+    { eventEmitter: EventEmitter }
+  );
+
+  await handler(req, res);
+
+  return { res, text: res._getData() as string };
+}
+
+describe('API /api/shipments exports', () => {
+  it('should stream every matching row as CSV, ignoring limit', async () => {
+    const { body } = await getShipments({ limit: '1', to: '2023-12-31' });
+    const { res, text } = await exportShipments({
+      format: 'csv',
+      limit: '1',
+      to: '2023-12-31',
+    });
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader('Content-Type')).toBe('text/csv');
+    expect(res.getHeader('Content-Disposition')).toBe(
+      'attachment; filename="shipments.csv"'
+    );
+    const lines = text.trimEnd().split('\r\n');
+    expect(lines[0]).toBe(
+      'id,importer_name,importer_website,importer_country,exporter_name,exporter_website,exporter_country,shipment_date,commodity_name,industry_sector,weight_metric_tonnes'
+    );
+    // Quoted fields may contain commas but not line breaks in this data
+    expect(lines.length - 1).toBe(Number(body.total));
+  });
+
+  it('should export NDJSON when the Accept header asks for it', async () => {
+    const { body } = await getShipments({ limit: '1', commodity: 'steel' });
+    const { res, text } = await exportShipments(
+      { commodity: 'steel' },
+      { accept: 'application/x-ndjson' }
+    );
+
+    expect(res.getHeader('Content-Type')).toBe('application/x-ndjson');
+    const rows: Shipment[] = text
+      .trimEnd()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(rows).toHaveLength(Number(body.total));
+    for (const row of rows) {
+      expect(row.commodity_name.toLowerCase()).toContain('steel');
+    }
+  });
+
+  it('should export a JSON array in the requested sort order', async () => {
+    const { text } = await exportShipments({
+      format: 'json',
+      sort: 'weight_metric_tonnes',
+      order: 'asc',
+      to: '2023-06-30',
+    });
+
+    const rows: Shipment[] = JSON.parse(text);
+    expect(rows.length).toBeGreaterThan(0);
+    const weights = rows.map(row => row.weight_metric_tonnes);
+    expect(weights).toEqual([...weights].sort((a, b) => a - b));
+  });
+
+  it('should export a workbook with a header row', async () => {
+    const { res } = await exportShipments({ format: 'xlsx', limit: '5' });
+
+    expect(res._getStatusCode()).toBe(200);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(new Uint8Array(res._getBuffer()).buffer);
+    const sheet = workbook.getWorksheet('shipments')!;
+    expect(sheet.getRow(1).getCell(1).value).toBe('id');
+    expect(sheet.rowCount).toBeGreaterThan(5);
+  });
+
+  it('should return 400 for an unknown format', async () => {
+    const { status, body } = await getShipments({ format: 'pdf' });
+
+    expect(status).toBe(400);
+    expect(body).toHaveProperty('error');
+  });
+});
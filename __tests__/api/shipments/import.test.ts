@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/shipments/import';
+import { ShipmentImportResponseSchema } from '@/types/shipment';
+import {
+  getCompanies,
+  getCompanyStats,
+  loadShipments,
+} from '@/lib/data/shipments';
+
+function shipment(
+  id: string | number,
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    id,
+    importer_name: 'Zephyr Test Imports LLC',
+    importer_website: 'zephyr-imports.example',
+    importer_country: 'us',
+    exporter_name: 'Quokka Test Exports GmbH',
+    exporter_website: null,
+    exporter_country: 'DE',
+    shipment_date: '2025-06-15',
+    commodity_name: 'Test Widgets',
+    industry_sector: 'Industrial',
+    weight_metric_tonnes: 2.5,
+    ...overrides,
+  };
+}
+
+async function postImport(body: unknown, contentType = 'application/json') {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body: body as Record<string, string>,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+describe('API /api/shipments/import', () => {
+  it('should append a JSON array and update aggregates immediately', async () => {
+    const statsBefore = await getCompanyStats();
+    const shipmentsBefore = Number((await loadShipments({ limit: 1 })).total);
+
+    const { status, body } = await postImport([
+      shipment('import-1'),
+      shipment(900001, { weight_metric_tonnes: 1 }),
+    ]);
+
+    expect(status).toBe(200);
+    const result = ShipmentImportResponseSchema.parse(body);
+    expect(result.accepted).toBe(2);
+    expect(result.rejected).toBe(0);
+    expect(result.results.map(r => r.id)).toEqual(['import-1', '900001']);
+
+    const statsAfter = await getCompanyStats();
+    expect(Number((await loadShipments({ limit: 1 })).total)).toBe(
+      shipmentsBefore + 2
+    );
+    expect(Number(statsAfter.totalImporters)).toBe(
+      Number(statsBefore.totalImporters) + 1
+    );
+    expect(Number(statsAfter.totalExporters)).toBe(
+      Number(statsBefore.totalExporters) + 1
+    );
+
+    const { data } = await getCompanies({ search: 'Zephyr Test Imports' });
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({
+      id: 'zephyr-test-imports-us',
+      country: 'US',
+      totalShipments: 2,
+      totalWeight: 3500,
+    });
+  });
+
+  it('should accept NDJSON and report invalid lines per row', async () => {
+    const body = [
+      JSON.stringify(shipment('import-ndjson-1')),
+      '{not json',
+      JSON.stringify(
+        shipment('import-ndjson-2', {
+          shipment_date: '2025-02-30',
+          weight_metric_tonnes: -1,
+        })
+      ),
+      JSON.stringify({ importer_name: 'No Id' }),
+    ].join('\n');
+
+    const { status, body: response } = await postImport(
+      body,
+      'application/x-ndjson'
+    );
+
+    expect(status).toBe(200);
+    const result = ShipmentImportResponseSchema.parse(response);
+    expect(result.accepted).toBe(1);
+    expect(result.rejected).toBe(3);
+    expect(result.results[0]).toEqual({
+      row: 1,
+      id: 'import-ndjson-1',
+      status: 'accepted',
+      errors: [],
+    });
+    expect(result.results[1]).toEqual({
+      row: 2,
+      id: null,
+      status: 'rejected',
+      errors: ['Invalid JSON'],
+    });
+    expect(result.results[2].id).toBe('import-ndjson-2');
+    expect(result.results[2].errors).toHaveLength(2);
+    expect(result.results[2].errors[0]).toMatch(/^shipment_date:/);
+    expect(result.results[2].errors[1]).toMatch(/^weight_metric_tonnes:/);
+    expect(result.results[3].id).toBeNull();
+    expect(result.results[3].errors).toContainEqual(
+      expect.stringMatching(/^id:/)
+    );
+  });
+
+  it('should deduplicate by id within the request and against stored rows', async () => {
+    const [existing] = (await loadShipments({ limit: 1 })).data;
+
+    const { body } = await postImport([
+      shipment('import-dup'),
+      shipment('import-dup', { weight_metric_tonnes: 99 }),
+      shipment(existing.id),
+    ]);
+
+    const result = ShipmentImportResponseSchema.parse(body);
+    expect(result.results.map(r => [r.status, r.errors])).toEqual([
+      ['accepted', []],
+      ['rejected', ['Duplicate id in request']],
+      ['rejected', ['Shipment with this id already exists']],
+    ]);
+
+    // Re-importing the same record is a no-op
+    const again = ShipmentImportResponseSchema.parse(
+      (await postImport([shipment('import-dup')])).body
+    );
+    expect(again.accepted).toBe(0);
+
+    const { data } = await loadShipments({ importer: 'Zephyr Test Imports' });
+    expect(data.filter(s => s.id === 'import-dup')).toHaveLength(1);
+  });
+
+  it('should return 400 for a body that is not an array or NDJSON', async () => {
+    for (const body of [{ id: 1 }, '', '[not json', []]) {
+      const { status, body: response } = await postImport(body);
+      expect(status).toBe(400);
+      expect(response).toHaveProperty('error');
+    }
+  });
+
+  it('should return 405 for non-POST requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { createMocks } from 'node-mocks-http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/stats/timeseries';
+import { TimeseriesResponseSchema } from '@/types/stats';
+import { loadShipments } from '@/lib/data/shipments';
+
+async function getTimeseries(query: Record<string, string> = {}) {
+  const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query,
+  });
+
+  await handler(req, res);
+
+  return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('API /api/stats/timeseries', () => {
+  it('should default to contiguous monthly kg buckets keyed by ISO start date', async () => {
+    const { status, body } = await getTimeseries();
+
+    expect(status).toBe(200);
+    const data = TimeseriesResponseSchema.parse(body);
+    expect(data).toMatchObject({
+      interval: 'month',
+      metric: 'kg',
+      groupBy: null,
+    });
+    expect(data.series).toHaveLength(1);
+
+    const [series] = data.series;
+    expect(series.group).toBeNull();
+    expect(series.total).toBe(sum(series.points.map(p => p.value)));
+    for (const [i, point] of series.points.entries()) {
+      expect(point.bucket).toMatch(/^\d{4}-\d{2}-01$/);
+      if (i > 0) {
+        const previous = new Date(series.points[i - 1].bucket);
+        previous.setUTCMonth(previous.getUTCMonth() + 1);
+        expect(point.bucket).toBe(previous.toISOString().slice(0, 10));
+      }
+    }
+  });
+
+  it('should count every shipment with metric=shipments', async () => {
+    const { body } = await getTimeseries({
+      interval: 'year',
+      metric: 'shipments',
+    });
+
+    const data = TimeseriesResponseSchema.parse(body);
+    const total = Number((await loadShipments({ limit: 1 })).total);
+    expect(data.series[0].total).toBe(total);
+    expect(data.series[0].points.every(p => p.bucket.endsWith('-01-01'))).toBe(
+      true
+    );
+  });
+
+  it('should zero-fill days without shipments inside the range', async () => {
+    const { body } = await getTimeseries({
+      interval: 'day',
+      metric: 'shipments',
+      from: '2025-03-01',
+      to: '2025-03-31',
+    });
+
+    const { points } = TimeseriesResponseSchema.parse(body).series[0];
+    expect(points).toHaveLength(31);
+    expect(points[0].bucket).toBe('2025-03-01');
+    expect(points[30].bucket).toBe('2025-03-31');
+    expect(points.some(p => p.value === 0)).toBe(true);
+  });
+
+  it('should start weekly buckets on Monday', async () => {
+    const { body } = await getTimeseries({ interval: 'week', preset: 'ytd' });
+
+    const { points } = TimeseriesResponseSchema.parse(body).series[0];
+    expect(points.length).toBeGreaterThan(0);
+    for (const point of points) {
+      expect(new Date(point.bucket).getUTCDay()).toBe(1);
+    }
+  });
+
+  it('should count each company once per bucket with metric=companies', async () => {
+    const { body } = await getTimeseries({
+      interval: 'quarter',
+      metric: 'companies',
+    });
+
+    const { points } = TimeseriesResponseSchema.parse(body).series[0];
+    const { body: shipments } = await getTimeseries({
+      interval: 'quarter',
+      metric: 'shipments',
+    });
+    const shipmentPoints =
+      TimeseriesResponseSchema.parse(shipments).series[0].points;
+
+    expect(points.map(p => p.bucket)).toEqual(
+      shipmentPoints.map(p => p.bucket)
+    );
+    points.forEach((point, i) => {
+      expect(point.bucket).toMatch(/^\d{4}-(01|04|07|10)-01$/);
+      expect(point.value).toBeLessThanOrEqual(shipmentPoints[i].value * 2);
+    });
+  });
+
+  it('should return one series per group, largest first, capped at limit', async () => {
+    const { body } = await getTimeseries({
+      groupBy: 'commodity',
+      limit: '3',
+    });
+
+    const data = TimeseriesResponseSchema.parse(body);
+    expect(data.groupBy).toBe('commodity');
+    expect(data.series).toHaveLength(3);
+
+    const totals = data.series.map(s => s.total);
+    expect(totals).toEqual([...totals].sort((a, b) => b - a));
+
+    // Every series shares the same buckets
+    const buckets = data.series[0].points.map(p => p.bucket);
+    for (const series of data.series) {
+      expect(series.group).not.toBeNull();
+      expect(series.points.map(p => p.bucket)).toEqual(buckets);
+    }
+  });
+
+  it('should return country series with two-letter codes', async () => {
+    const { body } = await getTimeseries({
+      groupBy: 'country',
+      metric: 'shipments',
+    });
+
+    const data = TimeseriesResponseSchema.parse(body);
+    expect(data.series.length).toBeGreaterThan(0);
+    for (const series of data.series) {
+      expect(series.group).toMatch(/^[A-Z]{2}$/);
+    }
+  });
+
+  it('should return 400 for an invalid interval, metric or groupBy', async () => {
+    const queries: Record<string, string>[] = [
+      { interval: 'hour' },
+      { metric: 'value' },
+      { groupBy: 'importer' },
+      { from: '2025-05-01', to: '2025-01-01' },
+    ];
+    for (const query of queries) {
+      const { status, body } = await getTimeseries(query);
+      expect(status).toBe(400);
+      expect(body).toHaveProperty('error');
+    }
+  });
+
+  it('should return 400 when the range has too many buckets', async () => {
+    const { status, body } = await getTimeseries({
+      interval: 'day',
+      from: '0001-01-01',
+      to: '9999-12-31',
+      groupBy: 'commodity',
+      limit: '50',
+    });
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/maximum is 1000/);
+
+    const coarser = await getTimeseries({
+      interval: 'year',
+      from: '1900-01-01',
+      to: '2100-12-31',
+    });
+    expect(coarser.status).toBe(200);
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'POST',
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
+
+describe('API /api/stats/timeseries exports', () => {
+  it('should download one row per series and bucket', async () => {
+    const { body } = await getTimeseries({ groupBy: 'country', limit: '3' });
+    const { req, res } = createMocks<NextApiRequest, NextApiResponse>({
+      method: 'GET',
+      query: { groupBy: 'country', limit: '3', format: 'csv' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader('Content-Disposition')).toBe(
+      'attachment; filename="timeseries-kg.csv"'
+    );
+    const [header, ...rows] = (res._getData() as string)
+      .trimEnd()
+      .split('\r\n');
+    expect(header).toBe('group,bucket,value');
+    const data = TimeseriesResponseSchema.parse(body);
+    expect(rows).toHaveLength(
+      sum(data.series.map(series => series.points.length))
+    );
+  });
+});
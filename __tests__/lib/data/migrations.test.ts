@@ -0,0 +1,201 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import { CONFIG_FILE, resolveDatabasePath } from '@/lib/data/config';
+import { MIGRATIONS, Migration, runMigrations } from '@/lib/data/migrations';
+import {
+  appendShipments,
+  closeDatabase,
+  getCompanies,
+  getDataSourceReport,
+  loadShipments,
+} from '@/lib/data/shipments';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipments-db-'));
+});
+
+afterAll(async () => {
+  await closeDatabase();
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function open(
+  file: string
+): Promise<{ instance: DuckDBInstance; connection: DuckDBConnection }> {
+  const instance = await DuckDBInstance.create(file);
+  return { instance, connection: await instance.connect() };
+}
+
+async function rows<T>(connection: DuckDBConnection, text: string) {
+  const reader = await connection.runAndReadAll(text);
+  return reader.getRowObjectsJson() as unknown as T[];
+}
+
+describe('runMigrations', () => {
+  it('should apply every migration once and record it in schema_version', async () => {
+    const file = path.join(dir, 'fresh.duckdb');
+    const { instance, connection } = await open(file);
+
+    expect(await runMigrations(connection)).toEqual(
+      MIGRATIONS.map(m => m.version)
+    );
+    expect(await runMigrations(connection)).toEqual([]);
+
+    const versions = await rows<{ version: number; name: string }>(
+      connection,
+      'SELECT version, name FROM schema_version ORDER BY version'
+    );
+    expect(versions).toEqual(
+      MIGRATIONS.map(m => ({ version: m.version, name: m.name }))
+    );
+
+    const tables = await rows<{ table_name: string }>(
+      connection,
+      'SELECT table_name FROM information_schema.tables ORDER BY table_name'
+    );
+    expect(tables.map(t => t.table_name)).toEqual(
+      expect.arrayContaining([
+        'shipments',
+        'companies',
+        'company_aliases',
+        'shipment_parties',
+      ])
+    );
+    connection.closeSync();
+    instance.closeSync();
+
+    // Reopening the file finds the schema up to date
+    const reopened = await open(file);
+    expect(await runMigrations(reopened.connection)).toEqual([]);
+    reopened.connection.closeSync();
+    reopened.instance.closeSync();
+  });
+
+  it('should only apply migrations newer than the recorded version', async () => {
+    const { instance, connection } = await open(':memory:');
+    await runMigrations(connection);
+
+    const addNotes: Migration = {
+      version: MIGRATIONS.at(-1)!.version + 1,
+      name: 'add notes',
+      async up(c) {
+        await c.run('ALTER TABLE shipments ADD COLUMN notes VARCHAR');
+      },
+    };
+
+    expect(await runMigrations(connection, [...MIGRATIONS, addNotes])).toEqual([
+      addNotes.version,
+    ]);
+    const columns = await rows<{ column_name: string }>(
+      connection,
+      "SELECT column_name FROM information_schema.columns WHERE table_name = 'shipments'"
+    );
+    expect(columns.map(c => c.column_name)).toContain('notes');
+
+    connection.closeSync();
+    instance.closeSync();
+  });
+
+  it('should roll back a failed migration and leave its version unrecorded', async () => {
+    const { instance, connection } = await open(':memory:');
+    await runMigrations(connection);
+
+    const broken: Migration = {
+      version: MIGRATIONS.at(-1)!.version + 1,
+      name: 'broken',
+      async up(c) {
+        await c.run('CREATE TABLE half_done (id INTEGER)');
+        await c.run('SELECT * FROM missing_table');
+      },
+    };
+
+    await expect(
+      runMigrations(connection, [...MIGRATIONS, broken])
+    ).rejects.toThrow(/Migration \d+ \(broken\) failed/);
+
+    const tables = await rows<{ table_name: string }>(
+      connection,
+      "SELECT table_name FROM information_schema.tables WHERE table_name = 'half_done'"
+    );
+    expect(tables).toEqual([]);
+    const [{ version }] = await rows<{ version: number }>(
+      connection,
+      'SELECT CAST(MAX(version) AS INTEGER) as version FROM schema_version'
+    );
+    expect(version).toBe(MIGRATIONS.at(-1)!.version);
+
+    connection.closeSync();
+    instance.closeSync();
+  });
+
+  it('should reject migrations that are out of order', async () => {
+    const { instance, connection } = await open(':memory:');
+
+    await expect(
+      runMigrations(connection, [MIGRATIONS[1], MIGRATIONS[0]])
+    ).rejects.toThrow(/must increase/);
+
+    connection.closeSync();
+    instance.closeSync();
+  });
+});
+
+describe('resolveDatabasePath', () => {
+  it('should default to in-memory and prefer DUCKDB_PATH over the config file', () => {
+    const cwd = fs.mkdtempSync(path.join(dir, 'config-'));
+    expect(resolveDatabasePath({ cwd, env: {} })).toBe(':memory:');
+
+    fs.writeFileSync(
+      path.join(cwd, CONFIG_FILE),
+      JSON.stringify({ database: { path: 'data/coreties.duckdb' } })
+    );
+    expect(resolveDatabasePath({ cwd, env: {} })).toBe(
+      path.join(cwd, 'data', 'coreties.duckdb')
+    );
+    expect(
+      resolveDatabasePath({
+        cwd,
+        env: { DUCKDB_PATH: '/var/lib/store.duckdb' },
+      })
+    ).toBe('/var/lib/store.duckdb');
+  });
+});
+
+describe('file-backed store', () => {
+  it('should keep imported shipments across restarts without reloading the source', async () => {
+    vi.stubEnv('DUCKDB_PATH', path.join(dir, 'store', 'coreties.duckdb'));
+
+    expect((await getDataSourceReport())?.rowsLoaded).toBeGreaterThan(0);
+    const before = Number((await loadShipments({ limit: 1 })).total);
+
+    await appendShipments([
+      {
+        id: 'persisted-1',
+        importer_name: 'Persistence Test Imports',
+        importer_website: null,
+        importer_country: 'US',
+        exporter_name: 'Persistence Test Exports',
+        exporter_website: null,
+        exporter_country: 'DE',
+        shipment_date: '2025-07-01',
+        commodity_name: 'Test Widgets',
+        industry_sector: 'Industrial',
+        weight_metric_tonnes: 1,
+      },
+    ]);
+
+    await closeDatabase();
+
+    // Restarted: the source was not loaded again, and the import is still there
+    expect(await getDataSourceReport()).toBeNull();
+    expect(Number((await loadShipments({ limit: 1 })).total)).toBe(before + 1);
+    const { data } = await getCompanies({ search: 'Persistence Test Imports' });
+    expect(data.map(c => c.id)).toEqual(['persistence-test-imports-us']);
+  });
+});
@@ -0,0 +1,283 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import { CONFIG_FILE } from '@/lib/data/config';
+import { runMigrations } from '@/lib/data/migrations';
+import { loadDataSource, resolveDataSourceConfig } from '@/lib/data/source';
+import { getDataSourceReport } from '@/lib/data/shipments';
+
+const CSV_HEADER =
+  'id,importer_name,importer_website,importer_country,exporter_name,exporter_website,exporter_country,shipment_date,commodity_name,industry_sector,weight_metric_tonnes';
+
+function shipment(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    importer_name: 'Acme Imports',
+    importer_website: 'https://acme.example',
+    importer_country: 'US',
+    exporter_name: 'Bolt Exports GmbH',
+    exporter_website: 'https://bolt.example',
+    exporter_country: 'DE',
+    shipment_date: '2025-03-01',
+    commodity_name: 'Fasteners',
+    industry_sector: 'Industrial',
+    weight_metric_tonnes: 12.5,
+    ...overrides,
+  };
+}
+
+let dir: string;
+let instance: DuckDBInstance;
+let connection: DuckDBConnection;
+
+async function count(): Promise<number> {
+  const reader = await connection.runAndReadAll(
+    'SELECT CAST(COUNT(*) AS INTEGER) as total FROM shipments'
+  );
+  return (reader.getRowObjectsJson()[0] as { total: number }).total;
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipments-source-'));
+});
+
+afterAll(() => {
+  connection?.closeSync();
+  instance?.closeSync();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  connection?.closeSync();
+  instance?.closeSync();
+  instance = await DuckDBInstance.create(':memory:');
+  connection = await instance.connect();
+  await runMigrations(connection);
+});
+
+describe('resolveDataSourceConfig', () => {
+  it('should default to data/shipments.json', () => {
+    const config = resolveDataSourceConfig({ cwd: dir, env: {} });
+
+    expect(config).toEqual({ path: path.join(dir, 'data', 'shipments.json') });
+  });
+
+  it('should read the config file and let env vars override it', () => {
+    const cwd = fs.mkdtempSync(path.join(dir, 'config-'));
+    fs.writeFileSync(
+      path.join(cwd, CONFIG_FILE),
+      JSON.stringify({ shipments: { path: 'extracts', format: 'csv' } })
+    );
+
+    expect(resolveDataSourceConfig({ cwd, env: {} })).toEqual({
+      path: path.join(cwd, 'extracts'),
+      format: 'csv',
+    });
+    expect(
+      resolveDataSourceConfig({
+        cwd,
+        env: { SHIPMENTS_SOURCE: '/data/latest.parquet' },
+      })
+    ).toEqual({ path: '/data/latest.parquet' });
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() =>
+      resolveDataSourceConfig({
+        cwd: dir,
+        env: { SHIPMENTS_SOURCE: 'x.xml', SHIPMENTS_FORMAT: 'xml' },
+      })
+    ).toThrow(/SHIPMENTS_FORMAT/);
+  });
+});
+
+describe('loadDataSource', () => {
+  it('should load a CSV file', async () => {
+    const file = path.join(dir, 'valid.csv');
+    fs.writeFileSync(
+      file,
+      [
+        CSV_HEADER,
+        '1,Acme Imports,,US,"Bolt Exports, GmbH",,DE,2025-03-01,Fasteners,Industrial,12.5',
+        '2,Acme Imports,,us,Bolt Exports,,DE,2025-03-02,Fasteners,Industrial,3',
+      ].join('\n')
+    );
+
+    const report = await loadDataSource(connection, { path: file });
+
+    expect(report).toMatchObject({
+      files: [file],
+      rowsRead: 2,
+      rowsLoaded: 2,
+      rowsRejected: 0,
+      errors: [],
+    });
+    const reader = await connection.runAndReadAll(
+      "SELECT exporter_name, importer_country, importer_website, weight_metric_tonnes FROM shipments WHERE id = '1'"
+    );
+    expect(reader.getRowObjectsJson()[0]).toEqual({
+      exporter_name: 'Bolt Exports, GmbH',
+      importer_country: 'US',
+      importer_website: null,
+      weight_metric_tonnes: 12.5,
+    });
+  });
+
+  it('should report invalid rows with their errors and load the rest', async () => {
+    const file = path.join(dir, 'mixed.ndjson');
+    fs.writeFileSync(
+      file,
+      [
+        shipment('1'),
+        shipment('2', { shipment_date: '2025-13-45' }),
+        shipment('3', { importer_name: '', weight_metric_tonnes: -4 }),
+        shipment('1'),
+        shipment('4', { weight_metric_tonnes: 'heavy' }),
+      ]
+        .map(row => JSON.stringify(row))
+        .join('\n')
+    );
+
+    const report = await loadDataSource(connection, { path: file });
+
+    expect(report.rowsRead).toBe(5);
+    expect(report.rowsLoaded).toBe(1);
+    expect(report.rowsRejected).toBe(4);
+    expect(report.errors).toEqual([
+      {
+        file,
+        row: 2,
+        id: '2',
+        errors: ['shipment_date must be a date (YYYY-MM-DD)'],
+      },
+      {
+        file,
+        row: 3,
+        id: '3',
+        errors: [
+          'importer_name is required',
+          'weight_metric_tonnes must be a non-negative number',
+        ],
+      },
+      { file, row: 4, id: '1', errors: ['duplicate id'] },
+      {
+        file,
+        row: 5,
+        id: '4',
+        errors: ['weight_metric_tonnes must be a non-negative number'],
+      },
+    ]);
+    expect(await count()).toBe(1);
+  });
+
+  it('should treat ids differing only by whitespace as duplicates', async () => {
+    const file = path.join(dir, 'padded.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify([shipment('S1'), shipment('S1 '), shipment(' S2')])
+    );
+
+    const report = await loadDataSource(connection, { path: file });
+
+    expect(report.rowsLoaded).toBe(2);
+    expect(report.errors).toEqual([
+      { file, row: 2, id: 'S1 ', errors: ['duplicate id'] },
+    ]);
+
+    const again = await loadDataSource(connection, { path: file });
+    expect(again.rowsLoaded).toBe(0);
+    expect(again.errors.map(e => e.errors)).toEqual([
+      ['duplicate id'],
+      ['duplicate id'],
+      ['duplicate id'],
+    ]);
+  });
+
+  it('should load a valid record behind an invalid one with its id', async () => {
+    const file = path.join(dir, 'retried.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify([
+        shipment('S1', { shipment_date: 'not a date' }),
+        shipment('S1'),
+        shipment('S1', { weight_metric_tonnes: 3 }),
+      ])
+    );
+
+    const report = await loadDataSource(connection, { path: file });
+
+    expect(report.rowsLoaded).toBe(1);
+    expect(report.errors).toEqual([
+      {
+        file,
+        row: 1,
+        id: 'S1',
+        errors: ['shipment_date must be a date (YYYY-MM-DD)'],
+      },
+      { file, row: 3, id: 'S1', errors: ['duplicate id'] },
+    ]);
+    expect(await count()).toBe(1);
+  });
+
+  it('should load every supported file in a directory', async () => {
+    const extract = fs.mkdtempSync(path.join(dir, 'extract-'));
+    fs.writeFileSync(
+      path.join(extract, 'a.json'),
+      JSON.stringify([shipment('a1'), shipment('a2')])
+    );
+    fs.writeFileSync(
+      path.join(extract, 'b.jsonl'),
+      JSON.stringify(shipment('b1'))
+    );
+    fs.writeFileSync(path.join(extract, 'README.txt'), 'not shipments');
+    await connection.run(`
+      COPY (
+        SELECT 'c1' as id, 'Acme Imports' as importer_name, 'US' as importer_country,
+          'Bolt Exports' as exporter_name, 'DE' as exporter_country,
+          DATE '2025-01-31' as shipment_date, 'Fasteners' as commodity_name,
+          'Industrial' as industry_sector, 7.25 as weight_metric_tonnes
+      ) TO '${path.join(extract, 'c.parquet')}' (FORMAT parquet)
+    `);
+
+    const report = await loadDataSource(connection, { path: extract });
+
+    expect(report.files.map(file => path.basename(file))).toEqual([
+      'a.json',
+      'b.jsonl',
+      'c.parquet',
+    ]);
+    expect(report.rowsLoaded).toBe(4);
+    expect(report.rowsRejected).toBe(0);
+    expect(await count()).toBe(4);
+  });
+
+  it('should throw when a file is missing required columns', async () => {
+    const file = path.join(dir, 'partial.csv');
+    fs.writeFileSync(file, 'id,importer_name\n1,Acme Imports\n');
+
+    await expect(loadDataSource(connection, { path: file })).rejects.toThrow(
+      /missing required columns: importer_country/
+    );
+  });
+
+  it('should throw when the source does not exist', async () => {
+    await expect(
+      loadDataSource(connection, { path: path.join(dir, 'missing.csv') })
+    ).rejects.toThrow(/not found/);
+  });
+});
+
+describe('getDataSourceReport', () => {
+  it('should load the bundled dataset without rejections', async () => {
+    const report = (await getDataSourceReport())!;
+
+    expect(report.source.path).toBe(
+      path.join(process.cwd(), 'data', 'shipments.json')
+    );
+    expect(report.rowsRejected).toBe(0);
+    expect(report.rowsLoaded).toBe(report.rowsRead);
+    expect(report.rowsLoaded).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sql,
+  raw,
+  join,
+  where,
+  identifier,
+  containsPattern,
+  render,
+} from '@/lib/data/sql';
+import {
+  query,
+  getCompanies,
+  getCompanyDetail,
+  loadShipments,
+} from '@/lib/data/shipments';
+
+const HOSTILE_INPUTS = [
+  "'; DROP TABLE shipments; --",
+  '\\',
+  '\\%',
+  'GmbH\u0000',
+  '\u0000',
+  '’ OR ‘1’=‘1',
+  '%',
+  '_',
+  '%%',
+  '_%_',
+  '$1',
+  '?',
+];
+
+describe('SQL builder', () => {
+  it('should render interpolated values as positional parameters', () => {
+    const { text, values } = render(
+      sql`SELECT * FROM shipments WHERE importer_name = ${"O'Brien"} LIMIT ${5}`
+    );
+
+    expect(text).toBe(
+      'SELECT * FROM shipments WHERE importer_name = $1 LIMIT $2'
+    );
+    expect(values).toEqual(["O'Brien", 5]);
+  });
+
+  it('should number parameters across nested fragments', () => {
+    const conditions = [
+      sql`a = ${1}`,
+      sql`b IN (${join([sql`${2}`, sql`${3}`])})`,
+    ];
+    const { text, values } = render(
+      sql`SELECT * FROM t ${where(conditions)} LIMIT ${4}`
+    );
+
+    expect(text).toBe(
+      'SELECT * FROM t WHERE a = $1 AND b IN ($2, $3) LIMIT $4'
+    );
+    expect(values).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should render an empty WHERE for no conditions', () => {
+    expect(render(sql`SELECT 1 ${where([])}`).text).toBe('SELECT 1 ');
+  });
+
+  it('should only accept allow-listed identifiers', () => {
+    const allowed = ['name', 'country'] as const;
+
+    expect(render(identifier('name', allowed)).text).toBe('"name"');
+    expect(() =>
+      identifier('name; DROP TABLE shipments' as 'name', allowed)
+    ).toThrow();
+  });
+
+  it('should escape LIKE wildcards and backslashes', () => {
+    expect(containsPattern('50%_off\\')).toBe('%50\\%\\_off\\\\%');
+  });
+
+  it('should insert raw text verbatim', () => {
+    expect(render(sql`ORDER BY ${raw('name')} DESC`).text).toBe(
+      'ORDER BY name DESC'
+    );
+  });
+});
+
+describe('Parameterized queries', () => {
+  it('should round-trip hostile values unchanged through bound parameters', async () => {
+    for (const input of HOSTILE_INPUTS) {
+      const rows = await query<{ value: string }>(
+        sql`SELECT ${input} AS value`
+      );
+      expect(rows[0].value).toBe(input);
+    }
+  });
+
+  it('should reject multiple statements in one query', async () => {
+    await expect(query('SELECT 1; SELECT 2')).rejects.toThrow();
+  });
+
+  it('should treat hostile search input as a literal substring', async () => {
+    const all = await getCompanies({ limit: 1 });
+
+    for (const search of HOSTILE_INPUTS) {
+      const result = await getCompanies({ search });
+      // No company name contains these literally, so nothing should match.
+      // Unescaped `%`/`_` would match every company instead.
+      expect(Number(result.total)).toBe(0);
+      expect(result.data).toEqual([]);
+    }
+
+    // The table survives and still returns every company
+    const after = await getCompanies({ limit: 1 });
+    expect(after.total).toBe(all.total);
+  });
+
+  it('should match names containing quotes and ampersands literally', async () => {
+    const result = await getCompanies({ search: "Duggan's" });
+
+    expect(Number(result.total)).toBeGreaterThan(0);
+    result.data.forEach(company => {
+      expect(company.name).toContain("Duggan's");
+    });
+  });
+
+  it('should return null for hostile company names', async () => {
+    for (const name of HOSTILE_INPUTS) {
+      expect(await getCompanyDetail(name)).toBeNull();
+    }
+  });
+
+  it('should treat hostile shipment filters as literals', async () => {
+    for (const importer of HOSTILE_INPUTS) {
+      const result = await loadShipments({ importer, limit: 1 });
+      expect(Number(result.total)).toBe(0);
+    }
+  });
+});
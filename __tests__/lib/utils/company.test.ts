@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { companyId, normalizeCompanyName } from '@/lib/utils/company';
+
+describe('normalizeCompanyName', () => {
+  it('should strip casing, punctuation and legal suffixes', () => {
+    expect(normalizeCompanyName('Mann+Hummel Mexico S.A. de C.V.')).toBe(
+      'mann hummel mexico'
+    );
+    expect(normalizeCompanyName('ARNOLD UMFORMTECHNIK GmbH & Co. KG')).toBe(
+      'arnold umformtechnik'
+    );
+    expect(normalizeCompanyName('Bowman Andros, LLC')).toBe('bowman andros');
+    expect(normalizeCompanyName('Liebherr Mexico S de R L de C V')).toBe(
+      'liebherr mexico'
+    );
+  });
+
+  it('should treat spelling variants of the same name as equal', () => {
+    const variants = [
+      'Robert Bosch GmbH',
+      'ROBERT BOSCH GMBH',
+      'Robert Bosch',
+      'Robert-Bosch Inc.',
+    ];
+
+    const normalized = new Set(variants.map(normalizeCompanyName));
+    expect(normalized.size).toBe(1);
+  });
+
+  it('should strip accents but keep non-Latin scripts intact', () => {
+    expect(normalizeCompanyName('Budenheim Ibérica S.L.U.')).toBe(
+      'budenheim iberica'
+    );
+    expect(normalizeCompanyName('マツダ株式会社')).toBe('マツダ株式会社');
+  });
+
+  it('should never strip a name down to nothing', () => {
+    expect(normalizeCompanyName('Company')).toBe('company');
+    expect(normalizeCompanyName('SA')).toBe('sa');
+  });
+});
+
+describe('companyId', () => {
+  it('should build a URL-safe slug from the normalized name and country', () => {
+    expect(companyId('Mann+Hummel Mexico S.A. de C.V.', 'US')).toBe(
+      'mann-hummel-mexico-us'
+    );
+  });
+
+  it('should give different countries different ids', () => {
+    expect(companyId('Sika', 'US')).not.toBe(companyId('Sika', 'DE'));
+  });
+
+  it('should fall back to a stable hash for names without an ASCII slug', () => {
+    const id = companyId('マツダ株式会社', 'US');
+
+    expect(id).toMatch(/^[a-z0-9-]+$/);
+    expect(companyId('マツダ株式会社', 'US')).toBe(id);
+  });
+
+  it('should give every variant of a non-Latin name the same id', () => {
+    expect(companyId('  Компания  Авто LLC', 'RU')).toBe(
+      companyId('компания авто', 'RU')
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { dateRangeParams, formatMonth, presetRange } from '@/lib/utils/dates';
+
+describe('presetRange', () => {
+  it('should end rolling presets on the anchor date', () => {
+    expect(presetRange('last30d', '2025-12-14')).toEqual({
+      from: '2025-11-15',
+      to: '2025-12-14',
+    });
+    expect(presetRange('ytd', '2025-12-14')).toEqual({
+      from: '2025-01-01',
+      to: '2025-12-14',
+    });
+    expect(presetRange('last12m', '2025-12-14')).toEqual({
+      from: '2024-12-15',
+      to: '2025-12-14',
+    });
+    expect(presetRange('quarter', '2025-12-14')).toEqual({
+      from: '2025-10-01',
+      to: '2025-12-14',
+    });
+  });
+
+  it('should handle month and year boundaries', () => {
+    expect(presetRange('last30d', '2025-03-01')).toEqual({
+      from: '2025-01-31',
+      to: '2025-03-01',
+    });
+    expect(presetRange('last12m', '2024-02-29')).toEqual({
+      from: '2023-03-01',
+      to: '2024-02-29',
+    });
+    expect(presetRange('quarter', '2025-01-01')).toEqual({
+      from: '2025-01-01',
+      to: '2025-01-01',
+    });
+  });
+
+  it('should cover a whole calendar quarter', () => {
+    expect(presetRange('2024-Q1', '2025-12-14')).toEqual({
+      from: '2024-01-01',
+      to: '2024-03-31',
+    });
+    expect(presetRange('2025-Q4', '2025-01-01')).toEqual({
+      from: '2025-10-01',
+      to: '2025-12-31',
+    });
+  });
+});
+
+describe('dateRangeParams', () => {
+  it('should prefer the preset and omit empty bounds', () => {
+    expect(dateRangeParams({})).toBe('');
+    expect(dateRangeParams({ preset: 'ytd' })).toBe('preset=ytd');
+    expect(dateRangeParams({ from: '2025-01-01' })).toBe('from=2025-01-01');
+    expect(dateRangeParams({ from: '2025-01-01', to: '2025-03-31' })).toBe(
+      'from=2025-01-01&to=2025-03-31'
+    );
+  });
+});
+
+describe('formatMonth', () => {
+  it('should label months in UTC regardless of the local time zone', () => {
+    expect(formatMonth('2025-04-01')).toBe('Apr 2025');
+    expect(formatMonth('2026-01-01')).toBe('Jan 2026');
+  });
+});
@@ -0,0 +1,124 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect } from 'vitest';
+import type { NextApiResponse } from 'next';
+import {
+  csvField,
+  paginate,
+  requestedExportFormat,
+  sendExport,
+} from '@/lib/utils/export';
+
+describe('csvField', () => {
+  it('should leave plain values unquoted', () => {
+    expect(csvField('Bosch')).toBe('Bosch');
+    expect(csvField(1500)).toBe('1500');
+    expect(csvField(null)).toBe('');
+  });
+
+  it('should quote commas, quotes and line breaks', () => {
+    expect(csvField('Bowman Andros, LLC')).toBe('"Bowman Andros, LLC"');
+    expect(csvField('The "Best" Co')).toBe('"The ""Best"" Co"');
+    expect(csvField('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should join lists with semicolons', () => {
+    expect(csvField(['Steel', 'Iron'])).toBe('Steel; Iron');
+  });
+
+  it('should stop spreadsheets evaluating text as formulas', () => {
+    expect(csvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(csvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvField(-5)).toBe('-5');
+  });
+});
+
+describe('requestedExportFormat', () => {
+  it('should prefer the format parameter', () => {
+    expect(requestedExportFormat('json', 'text/csv')).toBe('json');
+  });
+
+  it('should read CSV, XLSX and NDJSON from Accept', () => {
+    expect(requestedExportFormat(undefined, 'text/csv')).toBe('csv');
+    expect(
+      requestedExportFormat(
+        undefined,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      )
+    ).toBe('xlsx');
+    expect(
+      requestedExportFormat(undefined, 'application/x-ndjson;q=0.9, */*')
+    ).toBe('ndjson');
+  });
+
+  it('should keep the normal response for JSON or anything', () => {
+    expect(requestedExportFormat(undefined, 'application/json')).toBeNull();
+    expect(requestedExportFormat(undefined, '*/*')).toBeNull();
+    expect(requestedExportFormat(undefined, undefined)).toBeNull();
+  });
+});
+
+describe('paginate', () => {
+  it('should yield pages until one comes back short', async () => {
+    const rows = Array.from({ length: 5 }, (_, i) => i);
+    const offsets: number[] = [];
+    const batches: number[][] = [];
+
+    for await (const batch of paginate(async ({ limit, offset }) => {
+      offsets.push(offset);
+      return { data: rows.slice(offset, offset + limit) };
+    }, 2)) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([[0, 1], [2, 3], [4]]);
+    expect(offsets).toEqual([0, 2, 4]);
+  });
+
+  it('should stop after an empty page', async () => {
+    const batches: number[][] = [];
+    for await (const batch of paginate(async () => ({ data: [] }), 2)) {
+      batches.push(batch);
+    }
+    expect(batches).toEqual([]);
+  });
+});
+
+describe('sendExport', () => {
+  it('should stop reading rows once the client disconnects', async () => {
+    // A response whose buffer is always full, so every write waits for drain
+    const res = Object.assign(new EventEmitter(), {
+      destroyed: false,
+      setHeader: () => undefined,
+      status: () => res,
+      write: () => false,
+      end: () => undefined,
+    });
+    const offsets: number[] = [];
+    let closedSource = false;
+    const rows = (async function* () {
+      try {
+        yield* paginate(async ({ limit, offset }) => {
+          offsets.push(offset);
+          return {
+            data: Array.from({ length: limit }, (_, i) => ({ n: offset + i })),
+          };
+        }, 2);
+      } finally {
+        closedSource = true;
+      }
+    })();
+
+    const done = sendExport(res as unknown as NextApiResponse, 'ndjson', {
+      filename: 'numbers',
+      columns: ['n'],
+      rows,
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    res.destroyed = true;
+    res.emit('close');
+    await done;
+
+    expect(offsets.length).toBeLessThanOrEqual(2);
+    expect(closedSource).toBe(true);
+  });
+});
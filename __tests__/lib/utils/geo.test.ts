@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { arcPath, countryShapes, mainlandCentroid } from '@/lib/utils/geo';
+
+describe('countryShapes', () => {
+  it('should key bundled outlines by alpha-2 country code', () => {
+    const shapes = countryShapes();
+    const codes = shapes.map(shape => shape.code);
+
+    expect(shapes.length).toBeGreaterThan(150);
+    for (const code of ['US', 'DE', 'FR', 'NL', 'CN', 'MX']) {
+      expect(codes).toContain(code);
+    }
+    expect(shapes.find(shape => shape.code === 'DE')?.name).toBe('Germany');
+  });
+
+  it('should return polygon features and cache them', () => {
+    const shapes = countryShapes();
+
+    for (const shape of shapes) {
+      expect(['Polygon', 'MultiPolygon']).toContain(
+        shape.feature.geometry.type
+      );
+    }
+    expect(countryShapes()).toBe(shapes);
+  });
+});
+
+describe('mainlandCentroid', () => {
+  it('should ignore overseas territories', () => {
+    const france = countryShapes().find(shape => shape.code === 'FR')!;
+    const [lon, lat] = mainlandCentroid(france.feature);
+
+    expect(france.feature.geometry.type).toBe('MultiPolygon');
+    expect(lon).toBeGreaterThan(-5);
+    expect(lon).toBeLessThan(8);
+    expect(lat).toBeGreaterThan(42);
+    expect(lat).toBeLessThan(51);
+  });
+
+  it('should use the centroid of a single polygon as is', () => {
+    const germany = countryShapes().find(shape => shape.code === 'DE')!;
+    const [lon, lat] = mainlandCentroid(germany.feature);
+
+    expect(lon).toBeCloseTo(10.4, 0);
+    expect(lat).toBeCloseTo(51.1, 0);
+  });
+});
+
+describe('arcPath', () => {
+  it('should curve to opposite sides for opposite directions', () => {
+    expect(arcPath([0, 0], [100, 0])).toBe('M0,0 Q50,-25 100,0');
+    expect(arcPath([100, 0], [0, 0])).toBe('M100,0 Q50,25 0,0');
+  });
+
+  it('should draw a straight line with no bend', () => {
+    expect(arcPath([0, 0], [10, 20], 0)).toBe('M0,0 Q5,10 10,20');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { forceLayout } from '@/lib/utils/graph';
+
+const nodes = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({ id }));
+// Two triangles joined by a single edge
+const edges = [
+  { source: 'a', target: 'b' },
+  { source: 'b', target: 'c' },
+  { source: 'c', target: 'a' },
+  { source: 'd', target: 'e' },
+  { source: 'e', target: 'f' },
+  { source: 'f', target: 'd' },
+  { source: 'c', target: 'd' },
+];
+const options = { width: 400, height: 300, padding: 10 };
+
+function distance(
+  positions: Map<string, { x: number; y: number }>,
+  a: string,
+  b: string
+): number {
+  const p = positions.get(a)!;
+  const q = positions.get(b)!;
+  return Math.hypot(p.x - q.x, p.y - q.y);
+}
+
+describe('forceLayout', () => {
+  it('should place every node inside the padded area', () => {
+    const positions = forceLayout(nodes, edges, options);
+
+    expect(positions.size).toBe(nodes.length);
+    for (const { x, y } of positions.values()) {
+      expect(x).toBeGreaterThanOrEqual(10);
+      expect(x).toBeLessThanOrEqual(390);
+      expect(y).toBeGreaterThanOrEqual(10);
+      expect(y).toBeLessThanOrEqual(290);
+    }
+  });
+
+  it('should keep linked nodes closer than unlinked ones', () => {
+    const positions = forceLayout(nodes, edges, options);
+
+    expect(distance(positions, 'a', 'b')).toBeLessThan(
+      distance(positions, 'a', 'e')
+    );
+    expect(distance(positions, 'e', 'f')).toBeLessThan(
+      distance(positions, 'b', 'f')
+    );
+  });
+
+  it('should be deterministic and ignore edges to unknown nodes', () => {
+    const first = forceLayout(nodes, edges, options);
+    const second = forceLayout(
+      nodes,
+      [...edges, { source: 'a', target: 'zzz' }],
+      options
+    );
+
+    expect([...second.entries()]).toEqual([...first.entries()]);
+    expect(forceLayout([], edges, options).size).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SEARCH_TERMS,
+  highlightSpans,
+  jaroWinkler,
+  searchTerms,
+  textSimilarity,
+} from '@/lib/utils/search';
+import { query } from '@/lib/data/shipments';
+import { sql } from '@/lib/data/sql';
+
+describe('searchTerms', () => {
+  it('should split on punctuation, strip accents and drop duplicates', () => {
+    expect(searchTerms('Müller-Bosch  GmbH & bosch')).toEqual([
+      'muller',
+      'bosch',
+      'gmbh',
+    ]);
+    expect(searchTerms("'; --")).toEqual([]);
+  });
+
+  it('should keep at most MAX_SEARCH_TERMS terms', () => {
+    const words = Array.from({ length: 20 }, (_, i) => `word${i}`);
+    expect(searchTerms(words.join(' '))).toHaveLength(MAX_SEARCH_TERMS);
+  });
+});
+
+describe('jaroWinkler', () => {
+  it("should agree with DuckDB's jaro_winkler_similarity", async () => {
+    const pairs = [
+      ['bosch', 'bosh'],
+      ['martha', 'marhta'],
+      ['dixon', 'dicksonx'],
+      ['steering', 'steel'],
+      ['abc', 'xyz'],
+      ['hummel', 'hummel'],
+    ];
+
+    for (const [a, b] of pairs) {
+      const [{ similarity }] = await query<{ similarity: number }>(
+        sql`SELECT jaro_winkler_similarity(${a}, ${b}) as similarity`
+      );
+      expect(jaroWinkler(a, b)).toBeCloseTo(similarity, 6);
+    }
+  });
+});
+
+describe('textSimilarity', () => {
+  it('should average the best word per term', () => {
+    expect(textSimilarity('United States of America', ['united', 'sta'])).toBe(
+      (1 + 0.95) / 2
+    );
+  });
+
+  it('should be 0 unless every term matches', () => {
+    expect(textSimilarity('Germany', ['germ'])).toBeGreaterThan(0);
+    expect(textSimilarity('Germany', ['germ', 'france'])).toBe(0);
+    expect(textSimilarity('Germany', ['xyz'])).toBe(0);
+  });
+});
+
+describe('highlightSpans', () => {
+  it('should mark whole words matching a term, with original offsets', () => {
+    const text = 'Société Générale Bosh';
+    const spans = highlightSpans(text, searchTerms('generale bosch'));
+
+    expect(spans.map(([start, end]) => text.slice(start, end))).toEqual([
+      'Générale',
+      'Bosh',
+    ]);
+  });
+
+  it('should only match short terms exactly or as a prefix', () => {
+    expect(highlightSpans('ZF TRW', ['zf'])).toEqual([[0, 2]]);
+    expect(highlightSpans('ZX TRW', ['zf'])).toEqual([]);
+    expect(highlightSpans('Zeppelin', ['ze'])).toEqual([[0, 8]]);
+  });
+});
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import useSWR from 'swr';
+import { useDebounce } from 'use-debounce';
+import Highlight from '@/components/Highlight';
+import { highlightSpans, searchTerms } from '@/lib/utils/search';
+import {
+  SUGGESTION_GROUPS,
+  type SuggestResponse,
+  type Suggestion,
+  type SuggestionGroup,
+} from '@/types/search';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+const GROUP_LABELS: Record<SuggestionGroup, string> = {
+  companies: 'Companies',
+  commodities: 'Commodities',
+  countries: 'Countries',
+  sectors: 'Sectors',
+};
+
+/** Where picking a suggestion goes: a detail page or a filtered list */
+function suggestionHref(group: SuggestionGroup, suggestion: Suggestion) {
+  const id = encodeURIComponent(suggestion.id);
+  switch (group) {
+    case 'companies':
+      return `/companies/${id}`;
+    case 'commodities':
+      return `/commodities?name=${id}`;
+    case 'countries':
+      return `/companies?country=${id}`;
+    case 'sectors':
+      return `/companies?sector=${id}`;
+  }
+}
+
+function formatMetric({ metric, metricUnit }: Suggestion): string {
+  if (metricUnit === 'kg') {
+    return `${new Intl.NumberFormat('en-US', {
+      notation: 'compact',
+      compactDisplay: 'short',
+    }).format(metric)} kg`;
+  }
+  return `${metric.toLocaleString()} shipments`;
+}
+
+/**
+ * Cmd/Ctrl+K palette: typeahead over companies, commodities, countries and
+ * sectors from /api/search/suggest. Arrow keys move through every group;
+ * Enter goes to the company or commodity page, or the company list filtered
+ * by the country or sector.
+ */
+export default function CommandPalette() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery] = useDebounce(query.trim(), 150);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(wasOpen => !wasOpen);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const { data } = useSWR<SuggestResponse>(
+    open && debouncedQuery
+      ? `/api/search/suggest?q=${encodeURIComponent(debouncedQuery)}`
+      : null,
+    fetcher
+  );
+  const items = SUGGESTION_GROUPS.flatMap(group =>
+    (data?.[group] ?? []).map(suggestion => ({
+      group,
+      suggestion,
+      href: suggestionHref(group, suggestion),
+    }))
+  );
+  const terms = searchTerms(debouncedQuery);
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+    setActiveIndex(0);
+  };
+  const go = (href: string) => {
+    close();
+    router.push(href);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="rounded-md border border-zinc-300 px-2 py-1 text-xs text-zinc-500 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+        title="Search everything (Ctrl+K or ⌘K)"
+      >
+        ⌘K
+      </button>
+      {open && (
+        <div
+          className="fixed inset-0 z-50 bg-black/40 px-4 pt-24"
+          onClick={close}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label="Search everything"
+            onClick={e => e.stopPropagation()}
+            className="mx-auto max-w-xl overflow-hidden rounded-lg bg-white shadow-xl dark:bg-zinc-900"
+          >
+            <input
+              autoFocus
+              type="text"
+              role="combobox"
+              aria-expanded={items.length > 0}
+              aria-controls="command-palette-results"
+              aria-activedescendant={
+                items[activeIndex]
+                  ? `command-palette-${activeIndex}`
+                  : undefined
+              }
+              placeholder="Search companies, commodities, countries, sectors..."
+              value={query}
+              onChange={e => {
+                setQuery(e.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={e => {
+                if (e.key === 'ArrowDown') {
+                  e.preventDefault();
+                  setActiveIndex(i => Math.min(i + 1, items.length - 1));
+                } else if (e.key === 'ArrowUp') {
+                  e.preventDefault();
+                  setActiveIndex(i => Math.max(i - 1, 0));
+                } else if (e.key === 'Enter' && items[activeIndex]) {
+                  go(items[activeIndex].href);
+                } else if (e.key === 'Escape') {
+                  close();
+                }
+              }}
+              className="w-full border-b border-zinc-200 bg-transparent px-4 py-3 text-sm text-zinc-900 placeholder-zinc-400 focus:outline-none dark:border-zinc-800 dark:text-zinc-50 dark:placeholder-zinc-500"
+            />
+            <ul
+              id="command-palette-results"
+              role="listbox"
+              className="max-h-96 overflow-y-auto py-1"
+            >
+              {debouncedQuery && data && items.length === 0 && (
+                <li className="px-4 py-3 text-sm text-zinc-500 dark:text-zinc-400">
+                  Nothing matches &quot;{debouncedQuery}&quot;
+                </li>
+              )}
+              {items.map((item, i) => (
+                <li
+                  key={`${item.group}:${item.suggestion.id}`}
+                  id={`command-palette-${i}`}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  onClick={() => go(item.href)}
+                  className={`cursor-pointer px-4 py-2 ${
+                    i === activeIndex ? 'bg-zinc-100 dark:bg-zinc-800' : ''
+                  }`}
+                >
+                  {(i === 0 || items[i - 1].group !== item.group) && (
+                    <p className="mb-1 text-xs font-medium tracking-wider text-zinc-400 uppercase dark:text-zinc-500">
+                      {GROUP_LABELS[item.group]}
+                    </p>
+                  )}
+                  <div className="flex items-baseline justify-between gap-3 text-sm">
+                    <span className="truncate text-zinc-900 dark:text-zinc-50">
+                      <Highlight
+                        text={item.suggestion.label}
+                        spans={highlightSpans(item.suggestion.label, terms)}
+                      />
+                      {item.suggestion.detail && (
+                        <span className="ml-2 text-xs text-zinc-400 dark:text-zinc-500">
+                          {item.suggestion.detail}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs whitespace-nowrap text-zinc-500 dark:text-zinc-400">
+                      {formatMetric(item.suggestion)}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,21 +1,81 @@
+import { useState } from 'react';
+import Link from 'next/link';
 import useSWR from 'swr';
-import type { CompanyDetail as CompanyDetailType } from '@/types/company';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import type {
+  CompanyDetail as CompanyDetailType,
+  CompanyTimeseries,
+  SimilarCompaniesResponse,
+} from '@/types/company';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams, formatMonth } from '@/lib/utils/dates';
+import PartnersTable from '@/components/PartnersTable';
 
 const fetcher = (url: string) => fetch(url).then(res => res.json());
+const SIMILAR_LIMIT = 5;
 
 interface CompanyDetailProps {
-  companyName: string | null;
+  companyId: string | null;
+  /** Limits totals, partners and commodities (default: all time) */
+  dateRange?: DateRangeQuery;
 }
 
-export default function CompanyDetail({ companyName }: CompanyDetailProps) {
+type TimelineMetric = 'kg' | 'shipments';
+
+export default function CompanyDetail({
+  companyId,
+  dateRange = {},
+}: CompanyDetailProps) {
+  const rangeParams = dateRangeParams(dateRange);
+  const [timelineMetric, setTimelineMetric] = useState<TimelineMetric>('kg');
+  const [showAllPartners, setShowAllPartners] = useState(false);
+
   // Fetch company detail when a company is selected
   const { data: detail, isLoading } = useSWR<CompanyDetailType>(
-    companyName ? `/api/companies/${encodeURIComponent(companyName)}` : null,
+    companyId
+      ? `/api/companies/by-id/${encodeURIComponent(companyId)}${rangeParams ? `?${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+
+  // Monthly history for the timeline chart, fetched alongside the detail
+  const { data: timeseries } = useSWR<CompanyTimeseries>(
+    companyId
+      ? `/api/companies/by-id/${encodeURIComponent(companyId)}/timeseries${rangeParams ? `?${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+  // Likely competitors, loaded alongside the detail
+  const { data: similar } = useSWR<SimilarCompaniesResponse>(
+    companyId
+      ? `/api/companies/by-id/${encodeURIComponent(companyId)}/similar?limit=${SIMILAR_LIMIT}${rangeParams ? `&${rangeParams}` : ''}`
+      : null,
     fetcher
   );
+  const similarCompanies = similar && 'data' in similar ? similar.data : [];
+
+  const timeline =
+    timeseries && 'points' in timeseries
+      ? timeseries.points.map(point => ({
+          month: formatMonth(point.month),
+          import:
+            timelineMetric === 'kg' ? point.importKg : point.importShipments,
+          export:
+            timelineMetric === 'kg' ? point.exportKg : point.exportShipments,
+        }))
+      : [];
 
   // No company selected state
-  if (!companyName) {
+  if (!companyId) {
     return (
       <div className="flex h-64 items-center justify-center p-6">
         <p className="text-center text-sm text-zinc-500 dark:text-zinc-400">
@@ -70,14 +130,28 @@ export default function CompanyDetail({ companyName }: CompanyDetailProps) {
   return (
     <div className="p-6">
       <h2 className="mb-1 text-lg font-semibold text-zinc-900 dark:text-zinc-50">
-        {detail.name}
+        <Link href={`/companies/${detail.id}`} className="hover:underline">
+          {detail.name}
+        </Link>
       </h2>
       <p className="mb-1 text-sm text-zinc-500 dark:text-zinc-400">
         {detail.country}
       </p>
       <p className="mb-4 text-xs text-zinc-400 capitalize dark:text-zinc-500">
         Role: {detail.role}
+        <Link
+          href={`/network?company=${encodeURIComponent(detail.id)}`}
+          className="ml-3 text-blue-600 normal-case hover:underline dark:text-blue-400"
+        >
+          View trade network
+        </Link>
       </p>
+      {detail.aliases.length > 1 && (
+        <p className="mb-4 text-xs text-zinc-400 dark:text-zinc-500">
+          Also recorded as:{' '}
+          {detail.aliases.filter(alias => alias !== detail.name).join(', ')}
+        </p>
+      )}
       {detail.website && (
         <a
           href={
@@ -109,6 +183,91 @@ export default function CompanyDetail({ companyName }: CompanyDetailProps) {
         </div>
       </div>
 
+      {/* Shipment History */}
+      {timeline.length > 0 && (
+        <div className="mb-6">
+          <div className="mb-3 flex items-center justify-between">
+            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
+              Shipment History
+            </h3>
+            <div className="flex gap-1">
+              {(['kg', 'shipments'] as const).map(metric => (
+                <button
+                  key={metric}
+                  onClick={() => setTimelineMetric(metric)}
+                  aria-pressed={timelineMetric === metric}
+                  className={`rounded px-2 py-1 text-xs font-medium capitalize transition-colors ${
+                    timelineMetric === metric
+                      ? 'bg-zinc-900 text-white dark:bg-zinc-50 dark:text-zinc-900'
+                      : 'text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  {metric}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={timeline}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                <XAxis
+                  dataKey="month"
+                  stroke="#71717a"
+                  style={{ fontSize: '11px' }}
+                />
+                <YAxis
+                  stroke="#71717a"
+                  style={{ fontSize: '11px' }}
+                  width={40}
+                  tickFormatter={value =>
+                    timelineMetric === 'kg'
+                      ? `${(value / 1000).toFixed(0)}k`
+                      : String(value)
+                  }
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#18181b',
+                    border: '1px solid #27272a',
+                    borderRadius: '6px',
+                    color: '#fafafa',
+                  }}
+                  formatter={(value, name) => [
+                    timelineMetric === 'kg'
+                      ? `${Number(value).toLocaleString()} kg`
+                      : Number(value).toLocaleString(),
+                    name === 'import' ? 'Imports' : 'Exports',
+                  ]}
+                />
+                <Legend
+                  formatter={value =>
+                    value === 'import' ? 'Imports' : 'Exports'
+                  }
+                  wrapperStyle={{ fontSize: '12px' }}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="import"
+                  stackId="roles"
+                  stroke="#3b82f6"
+                  fill="#3b82f6"
+                  fillOpacity={0.4}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="export"
+                  stackId="roles"
+                  stroke="#10b981"
+                  fill="#10b981"
+                  fillOpacity={0.4}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
       {/* Top Trading Partners */}
       {detail.topTradingPartners.length > 0 && (
         <div className="mb-6">
@@ -116,15 +275,18 @@ export default function CompanyDetail({ companyName }: CompanyDetailProps) {
             Top Trading Partners
           </h3>
           <div className="space-y-2">
-            {detail.topTradingPartners.map((partner, idx) => (
+            {detail.topTradingPartners.map(partner => (
               <div
-                key={idx}
+                key={partner.id}
                 className="flex items-center justify-between text-sm"
               >
                 <div>
-                  <span className="text-zinc-900 dark:text-zinc-50">
+                  <Link
+                    href={`/companies/${partner.id}`}
+                    className="text-zinc-900 hover:underline dark:text-zinc-50"
+                  >
                     {partner.name}
-                  </span>
+                  </Link>
                   <span className="ml-2 text-zinc-400 dark:text-zinc-500">
                     {partner.country}
                   </span>
@@ -135,12 +297,26 @@ export default function CompanyDetail({ companyName }: CompanyDetailProps) {
               </div>
             ))}
           </div>
+          <button
+            onClick={() => setShowAllPartners(show => !show)}
+            aria-expanded={showAllPartners}
+            className="mt-3 text-sm text-blue-600 hover:underline dark:text-blue-400"
+          >
+            {showAllPartners ? 'Hide partner list' : 'View all partners'}
+          </button>
+          {showAllPartners && (
+            <PartnersTable
+              key={detail.id}
+              companyId={detail.id}
+              rangeParams={rangeParams}
+            />
+          )}
         </div>
       )}
 
       {/* Top Commodities */}
       {detail.topCommodities.length > 0 && (
-        <div>
+        <div className="mb-6">
           <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
             Top Commodities
           </h3>
@@ -150,9 +326,12 @@ export default function CompanyDetail({ companyName }: CompanyDetailProps) {
                 key={idx}
                 className="flex items-center justify-between text-sm"
               >
-                <span className="text-zinc-900 dark:text-zinc-50">
+                <Link
+                  href={`/commodities?name=${encodeURIComponent(commodity.name)}`}
+                  className="text-zinc-900 hover:underline dark:text-zinc-50"
+                >
                   {commodity.name}
-                </span>
+                </Link>
                 <span className="text-zinc-600 dark:text-zinc-400">
                   {(commodity.kg / 1000).toFixed(1)}k kg
                 </span>
@@ -161,6 +340,80 @@ export default function CompanyDetail({ companyName }: CompanyDetailProps) {
           </div>
         </div>
       )}
+
+      {/* Sector Mix */}
+      {detail.sectorMix.length > 0 && (
+        <div className="mb-6">
+          <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+            Sector Mix
+          </h3>
+          <div className="space-y-3">
+            {detail.sectorMix.map(item => (
+              <div key={item.sector}>
+                <div className="mb-1 flex justify-between text-sm">
+                  <span className="text-zinc-900 dark:text-zinc-50">
+                    {item.sector}
+                  </span>
+                  <span className="text-zinc-600 dark:text-zinc-400">
+                    {(item.kg / 1000).toFixed(1)}k kg
+                  </span>
+                </div>
+                <div className="h-2 rounded bg-zinc-100 dark:bg-zinc-800">
+                  <div
+                    className="h-2 rounded bg-emerald-500"
+                    style={{
+                      width: `${(100 * item.kg) / Math.max(1, detail.totalWeight)}%`,
+                    }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Similar Companies */}
+      {similarCompanies.length > 0 && (
+        <div>
+          <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+            Similar Companies
+          </h3>
+          <div className="space-y-3">
+            {similarCompanies.map(item => (
+              <div key={item.company.id} className="text-sm">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Link
+                      href={`/companies/${item.company.id}`}
+                      className="text-zinc-900 hover:underline dark:text-zinc-50"
+                    >
+                      {item.company.name}
+                    </Link>
+                    <span className="ml-2 text-zinc-400 dark:text-zinc-500">
+                      {item.company.country}
+                    </span>
+                  </div>
+                  <span
+                    className="text-zinc-600 dark:text-zinc-400"
+                    title="Similarity score"
+                  >
+                    {Math.round(item.score * 100)}%
+                  </span>
+                </div>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {item.reasons.join(' · ')} ·{' '}
+                  <Link
+                    href={`/companies/compare?names=${encodeURIComponent(detail.id)},${encodeURIComponent(item.company.id)}`}
+                    className="text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    Compare
+                  </Link>
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
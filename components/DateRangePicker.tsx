@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { DateRangeQuery } from '@/types/shipment';
+
+const PRESET_OPTIONS = [
+  { value: '', label: 'All time' },
+  { value: 'last30d', label: 'Last 30 days' },
+  { value: 'quarter', label: 'This quarter' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'last12m', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' },
+] as const;
+
+interface DateRangePickerProps {
+  value: DateRangeQuery;
+  onChange: (value: DateRangeQuery) => void;
+}
+
+const inputClassName =
+  'rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50';
+
+/**
+ * Preset dropdown plus from/to date inputs for a custom range.
+ * Presets are resolved server-side, relative to the latest shipment.
+ */
+export default function DateRangePicker({
+  value,
+  onChange,
+}: DateRangePickerProps) {
+  // Custom mode stays on while both dates are still empty
+  const [customMode, setCustomMode] = useState(
+    !value.preset && Boolean(value.from || value.to)
+  );
+  const selected = value.preset ?? (customMode ? 'custom' : '');
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor="date-range-preset" className="sr-only">
+        Date range
+      </label>
+      <select
+        id="date-range-preset"
+        value={selected}
+        onChange={e => {
+          const preset = e.target.value;
+          setCustomMode(preset === 'custom');
+          if (preset === 'custom') {
+            onChange({ from: value.from, to: value.to });
+          } else {
+            onChange(
+              preset ? { preset: preset as DateRangeQuery['preset'] } : {}
+            );
+          }
+        }}
+        className={inputClassName}
+      >
+        {PRESET_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {selected === 'custom' && (
+        <>
+          <input
+            type="date"
+            aria-label="From"
+            value={value.from ?? ''}
+            max={value.to}
+            onChange={e =>
+              onChange({ from: e.target.value || undefined, to: value.to })
+            }
+            className={inputClassName}
+          />
+          <span className="text-sm text-zinc-500 dark:text-zinc-400">to</span>
+          <input
+            type="date"
+            aria-label="To"
+            value={value.to ?? ''}
+            min={value.from}
+            onChange={e =>
+              onChange({ from: value.from, to: e.target.value || undefined })
+            }
+            className={inputClassName}
+          />
+        </>
+      )}
+    </div>
+  );
+}
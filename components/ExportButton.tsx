@@ -0,0 +1,45 @@
+import type { ExportFormat } from '@/types/export';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ndjson', label: 'NDJSON' },
+];
+
+interface ExportButtonProps {
+  /** API URL with the active filters, without limit/offset or format */
+  href: string;
+  label?: string;
+}
+
+/**
+ * Download menu for a table or chart. Each option links to `href` with a
+ * `format` parameter, so the server streams every matching row.
+ */
+export default function ExportButton({
+  href,
+  label = 'Export',
+}: ExportButtonProps) {
+  const separator = href.includes('?') ? '&' : '?';
+
+  return (
+    <details className="relative">
+      <summary className="cursor-pointer list-none rounded-lg border border-zinc-300 px-2 py-1 text-xs font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800">
+        {label} ▾
+      </summary>
+      <div className="absolute right-0 z-10 mt-1 w-28 rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+        {FORMAT_OPTIONS.map(option => (
+          <a
+            key={option.value}
+            href={`${href}${separator}format=${option.value}`}
+            download
+            className="block px-3 py-1 text-xs text-zinc-700 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            {option.label}
+          </a>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import useSWR from 'swr';
+import { useDebounce } from 'use-debounce';
+import Highlight from '@/components/Highlight';
+import { highlightSpans, searchTerms } from '@/lib/utils/search';
+import type { SearchResponse } from '@/types/search';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const RESULT_LIMIT = 8;
+
+/**
+ * Company search box for the navigation bar. Shows ranked matches from
+ * /api/search as you type; arrow keys pick one and Enter opens it.
+ */
+export default function GlobalSearch() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery] = useDebounce(query.trim(), 200);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const { data } = useSWR<SearchResponse>(
+    debouncedQuery
+      ? `/api/search?q=${encodeURIComponent(debouncedQuery)}&limit=${RESULT_LIMIT}`
+      : null,
+    fetcher
+  );
+  const results = data?.data ?? [];
+  const terms = searchTerms(debouncedQuery);
+
+  const openCompany = (id: string) => {
+    setOpen(false);
+    setQuery('');
+    router.push(`/companies/${id}`);
+  };
+
+  return (
+    <div className="relative ml-auto w-64">
+      <label htmlFor="global-search" className="sr-only">
+        Search companies
+      </label>
+      <input
+        id="global-search"
+        type="search"
+        role="combobox"
+        aria-expanded={open && results.length > 0}
+        aria-controls="global-search-results"
+        aria-activedescendant={
+          open && results[activeIndex]
+            ? `global-search-${results[activeIndex].company.id}`
+            : undefined
+        }
+        placeholder="Search companies, websites, commodities..."
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delayed so a click on a result lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={e => {
+          if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+          } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+          } else if (e.key === 'Enter' && results[activeIndex]) {
+            openCompany(results[activeIndex].company.id);
+          } else if (e.key === 'Escape') {
+            setOpen(false);
+          }
+        }}
+        className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-sm text-zinc-900 placeholder-zinc-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50 dark:placeholder-zinc-500"
+      />
+      {open && debouncedQuery && data && (
+        <ul
+          id="global-search-results"
+          role="listbox"
+          className="absolute right-0 z-20 mt-1 w-96 overflow-hidden rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-zinc-500 dark:text-zinc-400">
+              No companies match &quot;{debouncedQuery}&quot;
+            </li>
+          ) : (
+            results.map((result, i) => {
+              const [best] = result.matches;
+              return (
+                <li
+                  key={result.company.id}
+                  id={`global-search-${result.company.id}`}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => openCompany(result.company.id)}
+                  className={`cursor-pointer px-3 py-2 ${
+                    i === activeIndex ? 'bg-zinc-100 dark:bg-zinc-800' : ''
+                  }`}
+                >
+                  <div className="flex items-baseline justify-between gap-2 text-sm text-zinc-900 dark:text-zinc-50">
+                    <span className="truncate">
+                      <Highlight
+                        text={result.company.name}
+                        spans={highlightSpans(result.company.name, terms)}
+                      />
+                    </span>
+                    <span className="text-xs text-zinc-400 dark:text-zinc-500">
+                      {result.company.country}
+                    </span>
+                  </div>
+                  {best && best.field !== 'name' && (
+                    <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+                      {best.field === 'website' ? 'Website' : 'Trades'}:{' '}
+                      <Highlight text={best.text} spans={best.highlights} />
+                    </p>
+                  )}
+                </li>
+              );
+            })
+          )}
+          {data.total > results.length && (
+            <li className="border-t border-zinc-100 px-3 py-1.5 text-xs text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+              {data.total - results.length} more - refine your search
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
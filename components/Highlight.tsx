@@ -0,0 +1,30 @@
+import type { ReactNode } from 'react';
+
+interface HighlightProps {
+  text: string;
+  /** `[start, end)` offsets into `text`, in order, e.g. from highlightSpans() */
+  spans: [number, number][];
+}
+
+/** Text with the matched spans marked */
+export default function Highlight({ text, spans }: HighlightProps) {
+  const parts: ReactNode[] = [];
+  let offset = 0;
+  for (const [start, end] of spans) {
+    if (start > offset) {
+      parts.push(text.slice(offset, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  }
+  parts.push(text.slice(offset));
+
+  return <>{parts}</>;
+}
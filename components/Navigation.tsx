@@ -1,11 +1,13 @@
 import Link from 'next/link';
 import { useRouter } from 'next/router';
+import CommandPalette from '@/components/CommandPalette';
+import GlobalSearch from '@/components/GlobalSearch';
 
 export default function Navigation() {
   const router = useRouter();
 
   const isActive = (path: string) => {
-    return router.pathname === path;
+    return router.pathname === path || router.pathname.startsWith(`${path}/`);
   };
 
   return (
@@ -36,7 +38,49 @@ export default function Navigation() {
             >
               Companies
             </Link>
+            <Link
+              href="/commodities"
+              className={`rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                isActive('/commodities')
+                  ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50'
+                  : 'text-zinc-600 hover:bg-zinc-50 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-50'
+              }`}
+            >
+              Commodities
+            </Link>
+            <Link
+              href="/countries"
+              className={`rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                isActive('/countries')
+                  ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50'
+                  : 'text-zinc-600 hover:bg-zinc-50 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-50'
+              }`}
+            >
+              Countries
+            </Link>
+            <Link
+              href="/map"
+              className={`rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                isActive('/map')
+                  ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50'
+                  : 'text-zinc-600 hover:bg-zinc-50 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-50'
+              }`}
+            >
+              Map
+            </Link>
+            <Link
+              href="/network"
+              className={`rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                isActive('/network')
+                  ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50'
+                  : 'text-zinc-600 hover:bg-zinc-50 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-50'
+              }`}
+            >
+              Network
+            </Link>
           </div>
+          <GlobalSearch />
+          <CommandPalette />
         </div>
       </div>
     </nav>
@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import { forceLayout } from '@/lib/utils/graph';
+import type { NetworkEdge, NetworkNode } from '@/types/network';
+
+const WIDTH = 900;
+const HEIGHT = 600;
+
+/** Node fill by hops from the center; the whole-network view uses DEFAULT */
+const DEPTH_COLORS = ['#f59e0b', '#3b82f6', '#10b981', '#a855f7'];
+const DEFAULT_COLOR = '#3b82f6';
+
+interface NetworkGraphProps {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Force-directed SVG rendering of a trade network.
+ *
+ * Node area scales with shipments and edge width with the shipments on that
+ * route; arrows point from exporter to importer. Hovering a node highlights
+ * its direct trade, clicking selects it.
+ */
+export default function NetworkGraph({
+  nodes,
+  edges,
+  selectedId,
+  onSelect,
+}: NetworkGraphProps) {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const positions = useMemo(
+    () => forceLayout(nodes, edges, { width: WIDTH, height: HEIGHT }),
+    [nodes, edges]
+  );
+
+  const maxShipments = Math.max(1, ...nodes.map(node => node.shipments));
+  const maxEdgeShipments = Math.max(1, ...edges.map(edge => edge.shipments));
+  const focusId = hoveredId ?? selectedId;
+  const isFocused = (edge: NetworkEdge) =>
+    focusId !== null && (edge.source === focusId || edge.target === focusId);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label="Trade network graph"
+    >
+      <defs>
+        <marker
+          id="network-arrow"
+          viewBox="0 0 10 10"
+          refX="10"
+          refY="5"
+          markerWidth="6"
+          markerHeight="6"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#71717a" />
+        </marker>
+      </defs>
+
+      {edges.map(edge => {
+        const source = positions.get(edge.source);
+        const target = positions.get(edge.target);
+        if (!source || !target || edge.source === edge.target) {
+          return null;
+        }
+        // Stop the line at the target's rim so the arrow stays visible
+        const radius = nodeRadius(
+          nodes.find(node => node.id === edge.target)?.shipments ?? 0,
+          maxShipments
+        );
+        const length = Math.hypot(target.x - source.x, target.y - source.y);
+        const end = length > radius ? (length - radius) / length : 1;
+        return (
+          <line
+            key={`${edge.source}-${edge.target}`}
+            x1={source.x}
+            y1={source.y}
+            x2={source.x + (target.x - source.x) * end}
+            y2={source.y + (target.y - source.y) * end}
+            stroke={isFocused(edge) ? '#f59e0b' : '#71717a'}
+            strokeOpacity={focusId === null || isFocused(edge) ? 0.7 : 0.15}
+            strokeWidth={1 + 4 * (edge.shipments / maxEdgeShipments)}
+            markerEnd="url(#network-arrow)"
+          >
+            <title>
+              {`${edge.shipments.toLocaleString()} shipments, ${edge.kg.toLocaleString()} kg`}
+            </title>
+          </line>
+        );
+      })}
+
+      {nodes.map(node => {
+        const position = positions.get(node.id);
+        if (!position) {
+          return null;
+        }
+        const radius = nodeRadius(node.shipments, maxShipments);
+        const selected = node.id === selectedId;
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${position.x}, ${position.y})`}
+            onClick={() => onSelect(node.id)}
+            onMouseEnter={() => setHoveredId(node.id)}
+            onMouseLeave={() => setHoveredId(null)}
+            className="cursor-pointer"
+          >
+            <circle
+              r={radius}
+              fill={
+                node.depth === null
+                  ? DEFAULT_COLOR
+                  : (DEPTH_COLORS[node.depth] ?? DEFAULT_COLOR)
+              }
+              fillOpacity={0.85}
+              stroke={selected ? '#fafafa' : '#18181b'}
+              strokeWidth={selected ? 3 : 1}
+            />
+            {(radius > 10 || node.id === focusId) && (
+              <text
+                y={radius + 12}
+                textAnchor="middle"
+                className="fill-zinc-700 text-[11px] dark:fill-zinc-300"
+              >
+                {node.name}
+              </text>
+            )}
+            <title>
+              {`${node.name} (${node.country}) - ${node.shipments.toLocaleString()} shipments`}
+            </title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Circle radius with area proportional to shipments (4-24px) */
+function nodeRadius(shipments: number, maxShipments: number): number {
+  return 4 + 20 * Math.sqrt(shipments / maxShipments);
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import ExportButton from '@/components/ExportButton';
+import type {
+  PartnerDirection,
+  PartnerSort,
+  PartnersResponse,
+} from '@/types/company';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const PAGE_SIZE = 10;
+
+const DIRECTION_OPTIONS: { value: PartnerDirection; label: string }[] = [
+  { value: 'both', label: 'All partners' },
+  { value: 'suppliers', label: 'Suppliers' },
+  { value: 'customers', label: 'Customers' },
+];
+
+const selectClassName =
+  'rounded-lg border border-zinc-300 bg-white px-2 py-1 text-xs text-zinc-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50';
+
+const pageButtonClassName =
+  'rounded-lg border border-zinc-300 px-2 py-1 text-xs font-medium text-zinc-700 transition-colors hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800';
+
+interface PartnersTableProps {
+  companyId: string;
+  /** Query string for the active date range, without the leading `?` */
+  rangeParams: string;
+}
+
+/**
+ * Full trading partner list for the detail panel: paginated, sortable by
+ * shipments or kg, and filterable to suppliers or customers.
+ */
+export default function PartnersTable({
+  companyId,
+  rangeParams,
+}: PartnersTableProps) {
+  const [page, setPage] = useState(0);
+  const [sort, setSort] = useState<PartnerSort>('shipments');
+  const [direction, setDirection] = useState<PartnerDirection>('both');
+
+  const params = new URLSearchParams({
+    limit: String(PAGE_SIZE),
+    offset: String(page * PAGE_SIZE),
+    sort,
+    direction,
+  });
+  const { data, isLoading, error } = useSWR<PartnersResponse>(
+    `/api/companies/by-id/${encodeURIComponent(companyId)}/partners?${params}${rangeParams ? `&${rangeParams}` : ''}`,
+    fetcher
+  );
+
+  const total = data?.total ?? 0;
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  return (
+    <div className="mt-3">
+      <div className="mb-3 flex items-center gap-2">
+        <label htmlFor="partner-direction" className="sr-only">
+          Direction
+        </label>
+        <select
+          id="partner-direction"
+          value={direction}
+          onChange={e => {
+            setDirection(e.target.value as PartnerDirection);
+            setPage(0);
+          }}
+          className={selectClassName}
+        >
+          {DIRECTION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="ml-auto text-xs text-zinc-500 dark:text-zinc-400">
+          {total.toLocaleString()} partners
+        </span>
+        <ExportButton
+          href={`/api/companies/by-id/${encodeURIComponent(companyId)}/partners?${new URLSearchParams({ sort, direction })}${rangeParams ? `&${rangeParams}` : ''}`}
+        />
+      </div>
+
+      {error || (data && 'error' in data) ? (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Failed to load partners
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-zinc-500 dark:text-zinc-400">
+              <tr>
+                <th className="py-2 pr-2 font-medium">Partner</th>
+                {(['shipments', 'kg'] as const).map(column => (
+                  <th key={column} className="py-2 pr-2 text-right font-medium">
+                    <button
+                      onClick={() => {
+                        setSort(column);
+                        setPage(0);
+                      }}
+                      className={`capitalize hover:text-zinc-900 dark:hover:text-zinc-50 ${
+                        sort === column ? 'text-zinc-900 dark:text-zinc-50' : ''
+                      }`}
+                    >
+                      {column}
+                      {sort === column && ' ↓'}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2 font-medium">Active</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+              {isLoading
+                ? [...Array(3)].map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={4} className="py-2">
+                        <div className="h-4 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                      </td>
+                    </tr>
+                  ))
+                : data?.data.map(partner => (
+                    <tr key={partner.id} className="align-top">
+                      <td className="py-2 pr-2">
+                        <Link
+                          href={`/companies/${partner.id}`}
+                          className="text-zinc-900 hover:underline dark:text-zinc-50"
+                        >
+                          {partner.name}
+                        </Link>
+                        <span className="ml-1 text-zinc-400 dark:text-zinc-500">
+                          {partner.country}
+                        </span>
+                        <p className="text-zinc-500 capitalize dark:text-zinc-400">
+                          {partner.direction === 'both'
+                            ? 'Supplier & customer'
+                            : partner.direction}
+                        </p>
+                        <p
+                          className="truncate text-zinc-400 dark:text-zinc-500"
+                          title={partner.commodities.join(', ')}
+                        >
+                          {partner.commodities.join(', ')}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-2 text-right text-zinc-600 dark:text-zinc-400">
+                        {partner.shipments.toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-2 text-right text-zinc-600 dark:text-zinc-400">
+                        {(partner.kg / 1000).toFixed(1)}k
+                      </td>
+                      <td className="py-2 whitespace-nowrap text-zinc-500 dark:text-zinc-400">
+                        {partner.firstShipment}
+                        <br />
+                        {partner.lastShipment}
+                      </td>
+                    </tr>
+                  ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-3 flex items-center justify-between">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+            className={pageButtonClassName}
+          >
+            Previous
+          </button>
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            Page {page + 1} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= totalPages}
+            className={pageButtonClassName}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useMemo, useState } from 'react';
+import { geoNaturalEarth1, geoPath } from 'd3-geo';
+import { arcPath, countryShapes, mainlandCentroid } from '@/lib/utils/geo';
+import type { CountryFlow } from '@/types/country';
+
+const WIDTH = 960;
+const HEIGHT = 500;
+
+interface WorldMapProps {
+  /** Value to shade each country by, keyed by country code */
+  values: Map<string, number>;
+  /** Origin → destination flows, drawn as arcs */
+  flows: CountryFlow[];
+  selectedCode: string | null;
+  onSelect: (code: string) => void;
+}
+
+/**
+ * Choropleth world map with trade flow arcs, rendered as SVG from the
+ * bundled Natural Earth outlines (no map tiles or network access).
+ *
+ * Fill opacity scales with the country's value; arc width with the kg on
+ * that route, bowed so opposite directions don't overlap. Countries without
+ * data are drawn but can't be selected.
+ */
+export default function WorldMap({
+  values,
+  flows,
+  selectedCode,
+  onSelect,
+}: WorldMapProps) {
+  const [hoveredCode, setHoveredCode] = useState<string | null>(null);
+
+  const { shapes, path, anchors } = useMemo(() => {
+    const shapes = countryShapes();
+    const projection = geoNaturalEarth1().fitSize([WIDTH, HEIGHT], {
+      type: 'FeatureCollection',
+      features: shapes.map(shape => shape.feature),
+    });
+    const anchors = new Map<string, [number, number]>();
+    for (const shape of shapes) {
+      const point = shape.code
+        ? projection(mainlandCentroid(shape.feature))
+        : null;
+      if (shape.code && point) {
+        anchors.set(shape.code, point);
+      }
+    }
+    return { shapes, path: geoPath(projection), anchors };
+  }, []);
+
+  const maxValue = Math.max(1, ...values.values());
+  const maxFlowKg = Math.max(1, ...flows.map(flow => flow.kg));
+  const focusCode = hoveredCode ?? selectedCode;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label="World map of trade volumes"
+    >
+      <defs>
+        <marker
+          id="map-arrow"
+          viewBox="0 0 10 10"
+          refX="10"
+          refY="5"
+          markerWidth="5"
+          markerHeight="5"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#f59e0b" />
+        </marker>
+      </defs>
+
+      {shapes.map((shape, i) => {
+        const value = shape.code ? (values.get(shape.code) ?? 0) : 0;
+        const selectable = value > 0 && shape.code !== null;
+        return (
+          <path
+            key={shape.code ?? `${shape.name}-${i}`}
+            d={path(shape.feature) ?? undefined}
+            className={`stroke-white dark:stroke-zinc-900 ${
+              value > 0 ? 'cursor-pointer' : 'fill-zinc-200 dark:fill-zinc-700'
+            }`}
+            style={
+              value > 0
+                ? {
+                    fill: '#3b82f6',
+                    fillOpacity: 0.2 + 0.8 * Math.sqrt(value / maxValue),
+                  }
+                : undefined
+            }
+            strokeWidth={shape.code === selectedCode ? 2 : 0.5}
+            onClick={selectable ? () => onSelect(shape.code!) : undefined}
+            onMouseEnter={() => setHoveredCode(shape.code)}
+            onMouseLeave={() => setHoveredCode(null)}
+          >
+            <title>
+              {`${shape.name}${value > 0 ? ` - ${value.toLocaleString()} kg` : ''}`}
+            </title>
+          </path>
+        );
+      })}
+
+      {flows.map(flow => {
+        const from = anchors.get(flow.origin);
+        const to = anchors.get(flow.destination);
+        if (!from || !to || flow.origin === flow.destination) {
+          return null;
+        }
+        const focused =
+          focusCode === flow.origin || focusCode === flow.destination;
+        return (
+          <path
+            key={`${flow.origin}-${flow.destination}`}
+            d={arcPath(from, to)}
+            fill="none"
+            stroke="#f59e0b"
+            strokeOpacity={focusCode === null || focused ? 0.8 : 0.15}
+            strokeWidth={1 + 5 * (flow.kg / maxFlowKg)}
+            markerEnd="url(#map-arrow)"
+            className="pointer-events-none"
+          />
+        );
+      })}
+    </svg>
+  );
+}
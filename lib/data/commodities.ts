@@ -0,0 +1,200 @@
+import { inDateRange, query } from './shipments';
+import { SqlFragment, empty, ilikeContains, raw, sql, where } from './sql';
+import type {
+  CommodityCompany,
+  CommodityDetail,
+  CommodityMonth,
+  CommoditySummary,
+} from '@/types/commodity';
+import type { CountryFlow } from '@/types/country';
+import type { DateRange } from '@/types/shipment';
+
+/**
+ * Per-commodity totals CTE over shipments inside `range`. Exposes
+ * `name, industrySector, shipments, kg, importers, exporters`.
+ *
+ * @returns A `commodity_totals AS (...)` CTE to place after `WITH`
+ */
+function commodityTotals(range?: DateRange): SqlFragment {
+  return sql`
+    commodity_totals AS (
+      SELECT
+        commodity_name as name,
+        mode(industry_sector) as industrySector,
+        CAST(COUNT(*) AS INTEGER) as shipments,
+        CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT) as kg,
+        CAST(COUNT(DISTINCT importer_id) AS INTEGER) as importers,
+        CAST(COUNT(DISTINCT exporter_id) AS INTEGER) as exporters
+      FROM shipment_parties
+      WHERE ${inDateRange(range)}
+      GROUP BY commodity_name
+    )
+  `;
+}
+
+/**
+ * Returns a paginated list of commodities, heaviest first.
+ *
+ * A commodity filed under several industry sectors reports the sector most
+ * of its shipments use.
+ *
+ * @param options.limit - Max commodities to return (default: 50)
+ * @param options.offset - Number of commodities to skip (default: 0)
+ * @param options.search - Case-insensitive substring of the commodity name
+ * @param options.from - Earliest shipment date to count, inclusive (YYYY-MM-DD)
+ * @param options.to - Latest shipment date to count, inclusive (YYYY-MM-DD)
+ * @returns Paginated commodity list with total count of matching commodities
+ */
+export async function getCommodities(
+  options?: { limit?: number; offset?: number; search?: string } & DateRange
+): Promise<{ data: CommoditySummary[]; total: number }> {
+  const limit = options?.limit ?? 50;
+  const offset = options?.offset ?? 0;
+  const totals = commodityTotals(options);
+  const searchClause = options?.search
+    ? where([ilikeContains(raw('name'), options.search)])
+    : empty;
+
+  const countResult = await query<{ total: number }>(sql`
+    WITH ${totals}
+    SELECT COUNT(*) as total FROM commodity_totals
+    ${searchClause}
+  `);
+  const total = countResult[0]?.total ?? 0;
+
+  const data = await query<CommoditySummary>(sql`
+    WITH ${totals}
+    SELECT * FROM commodity_totals
+    ${searchClause}
+    ORDER BY kg DESC, name
+    LIMIT ${limit} OFFSET ${offset}
+  `);
+
+  return { data, total };
+}
+
+/**
+ * Returns one commodity's totals, monthly trend, top companies and lanes.
+ *
+ * Uses 5 queries: totals, monthly trend, importers, exporters, lanes.
+ * - **monthly** - Zero-filled months across `range` (or the commodity's
+ *   first to last shipment)
+ * - **topImporters** / **topExporters** - Companies by kg in that role
+ * - **topLanes** - Exporter country → importer country pairs by kg
+ *
+ * The name matches case-insensitively; the response uses the name as stored.
+ * Like company detail, a commodity only traded outside `range` returns zero
+ * totals rather than null.
+ *
+ * @param name - Commodity name (e.g. "steel coils")
+ * @param range - Optional inclusive date range (default: all data)
+ * @param limit - Max entries per top list (default: 10)
+ * @returns CommodityDetail, or null if no shipment ever carried the commodity
+ */
+export async function getCommodityDetail(
+  name: string,
+  range: DateRange = {},
+  limit = 10
+): Promise<CommodityDetail | null> {
+  const matches = await query<{ name: string; industrySector: string }>(sql`
+    SELECT commodity_name as name, mode(industry_sector) as industrySector
+    FROM shipments
+    WHERE lower(commodity_name) = lower(${name.trim()})
+    GROUP BY commodity_name
+    ORDER BY COUNT(*) DESC
+    LIMIT 1
+  `);
+  if (matches.length === 0) {
+    return null;
+  }
+  const commodity = matches[0].name;
+  const inRange = inDateRange(range);
+
+  // Query 1: Totals
+  const summaries = await query<CommoditySummary>(sql`
+    WITH ${commodityTotals(range)}
+    SELECT * FROM commodity_totals WHERE name = ${commodity}
+  `);
+  const summary = summaries[0] ?? {
+    ...matches[0],
+    shipments: 0,
+    kg: 0,
+    importers: 0,
+    exporters: 0,
+  };
+
+  // Query 2: Monthly trend, zero-filled like the company timeline
+  const monthly = await query<CommodityMonth>(sql`
+    WITH activity AS (
+      SELECT shipment_date, weight_metric_tonnes
+      FROM shipments
+      WHERE commodity_name = ${commodity} AND ${inRange}
+    ),
+    bounds AS (
+      SELECT
+        date_trunc('month', COALESCE(CAST(${range.from ?? null} AS DATE), MIN(shipment_date))) as first_month,
+        date_trunc('month', COALESCE(CAST(${range.to ?? null} AS DATE), MAX(shipment_date))) as last_month
+      FROM activity
+    ),
+    months AS (
+      SELECT CAST(month AS DATE) as month
+      FROM bounds, generate_series(
+        CAST(first_month AS TIMESTAMP),
+        CAST(last_month AS TIMESTAMP),
+        INTERVAL 1 MONTH
+      ) t(month)
+    ),
+    totals AS (
+      SELECT
+        CAST(date_trunc('month', shipment_date) AS DATE) as month,
+        COUNT(*) as shipments,
+        SUM(weight_metric_tonnes * 1000) as kg
+      FROM activity
+      GROUP BY 1
+    )
+    SELECT
+      strftime(months.month, '%Y-%m-%d') as month,
+      CAST(COALESCE(shipments, 0) AS INTEGER) as shipments,
+      CAST(COALESCE(kg, 0) AS BIGINT) as kg
+    FROM months
+    LEFT JOIN totals USING (month)
+    ORDER BY months.month
+  `);
+
+  // Queries 3-4: Top companies in each role
+  const topCompanies = (role: 'importer' | 'exporter') => {
+    const idColumn = raw(`${role}_id`);
+    return query<CommodityCompany>(sql`
+      SELECT
+        c.id,
+        c.name,
+        c.country,
+        CAST(COUNT(*) AS INTEGER) as shipments,
+        CAST(SUM(s.weight_metric_tonnes * 1000) AS BIGINT) as kg
+      FROM shipment_parties s
+      JOIN companies c ON c.id = s.${idColumn}
+      WHERE s.commodity_name = ${commodity} AND ${inRange}
+      GROUP BY c.id, c.name, c.country
+      ORDER BY kg DESC, c.name
+      LIMIT ${limit}
+    `);
+  };
+  const topImporters = await topCompanies('importer');
+  const topExporters = await topCompanies('exporter');
+
+  // Query 5: Country lanes
+  const topLanes = await query<CountryFlow>(sql`
+    SELECT
+      exporter_country as origin,
+      importer_country as destination,
+      CAST(COUNT(*) AS INTEGER) as shipments,
+      CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT) as kg
+    FROM shipments
+    WHERE commodity_name = ${commodity} AND ${inRange}
+    GROUP BY ALL
+    ORDER BY kg DESC, origin, destination
+    LIMIT ${limit}
+  `);
+
+  return { ...summary, monthly, topImporters, topExporters, topLanes };
+}
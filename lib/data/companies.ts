@@ -0,0 +1,199 @@
+import type { DuckDBConnection } from '@duckdb/node-api';
+import {
+  companyId,
+  normalizeCompanyName,
+  websiteDomain,
+} from '@/lib/utils/company';
+import { fuzzyMatches } from './fuzzy';
+import { SqlFragment, join, render, sql } from './sql';
+
+/** Search score multipliers - a name match outranks a website or commodity one */
+const NAME_WEIGHT = 1;
+const WEBSITE_WEIGHT = 0.9;
+const COMMODITY_WEIGHT = 0.6;
+
+interface RawCompanyName {
+  name: string;
+  country: string;
+  website: string | null;
+  shipments: number;
+}
+
+interface CompanyRow {
+  id: string;
+  name: string;
+  normalizedName: string;
+  country: string;
+  website: string | null;
+  /** Shipments seen under the display name, used to pick the best variant */
+  nameShipments: number;
+  /** Shipments per website, used to pick the most common one */
+  websites: Map<string, number>;
+  domains: Set<string>;
+  aliases: Set<string>;
+}
+
+/**
+ * Fills the companies dimension from the raw names in `shipments`.
+ *
+ * Replaces the contents of these tables (created by migration 3):
+ * - **companies** - One row per company: stable `id`, display `name`,
+ *   `normalized_name`, `country` and most common `website`
+ * - **company_names** - Every raw `(name, country)` pair seen in shipments,
+ *   mapped to its `company_id`
+ * - **company_websites** - Every website domain seen for a company
+ *
+ * The views over them (`company_ids`, `company_name_map`,
+ * `canonical_companies` and `shipment_parties`) pick up the new rows
+ * automatically. `company_aliases` holds accepted merges and is left alone,
+ * so merges survive a rebuild.
+ *
+ * Spelling and legal-suffix variants that normalize to the same name in the
+ * same country share one ID (see normalizeCompanyName()). The display name is
+ * the variant with the most shipments.
+ *
+ * Rebuilding is idempotent and cheap, so it can run again after new
+ * shipments are loaded.
+ */
+export async function buildCompanyDimension(
+  connection: DuckDBConnection
+): Promise<void> {
+  const reader = await connection.runAndReadAll(`
+    SELECT name, country, website, CAST(COUNT(*) AS INTEGER) as shipments
+    FROM (
+      SELECT importer_name as name, importer_country as country, importer_website as website
+      FROM shipments
+      UNION ALL
+      SELECT exporter_name as name, exporter_country as country, exporter_website as website
+      FROM shipments
+    )
+    GROUP BY name, country, website
+  `);
+  const rawNames = reader.getRowObjectsJson() as unknown as RawCompanyName[];
+
+  const companies = new Map<string, CompanyRow>();
+  const nameShipments = new Map<string, number>();
+
+  for (const raw of rawNames) {
+    const id = companyId(raw.name, raw.country);
+    const nameKey = `${id}\u0000${raw.name}`;
+    const shipmentsForName = (nameShipments.get(nameKey) ?? 0) + raw.shipments;
+    nameShipments.set(nameKey, shipmentsForName);
+
+    let company = companies.get(id);
+    if (!company) {
+      company = {
+        id,
+        name: raw.name,
+        normalizedName: normalizeCompanyName(raw.name),
+        country: raw.country,
+        website: null,
+        nameShipments: 0,
+        websites: new Map(),
+        domains: new Set(),
+        aliases: new Set(),
+      };
+      companies.set(id, company);
+    }
+
+    company.aliases.add(raw.name);
+    if (
+      shipmentsForName > company.nameShipments ||
+      (shipmentsForName === company.nameShipments && raw.name < company.name)
+    ) {
+      company.name = raw.name;
+      company.nameShipments = shipmentsForName;
+    }
+    if (raw.website) {
+      company.websites.set(
+        raw.website,
+        (company.websites.get(raw.website) ?? 0) + raw.shipments
+      );
+      const domain = websiteDomain(raw.website);
+      if (domain) company.domains.add(domain);
+    }
+  }
+
+  for (const company of companies.values()) {
+    company.website =
+      [...company.websites.entries()].sort(
+        (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+      )[0]?.[0] ?? null;
+  }
+
+  await connection.run('DELETE FROM company_websites');
+  await connection.run('DELETE FROM company_names');
+  await connection.run('DELETE FROM companies');
+
+  const rows = [...companies.values()];
+  if (rows.length > 0) {
+    await runStatement(
+      connection,
+      sql`INSERT INTO companies VALUES ${join(
+        rows.map(
+          c =>
+            sql`(${c.id}, ${c.name}, ${c.normalizedName}, ${c.country}, ${c.website})`
+        )
+      )}`
+    );
+    await runStatement(
+      connection,
+      sql`INSERT INTO company_names VALUES ${join(
+        rows.flatMap(c =>
+          [...c.aliases].map(alias => sql`(${alias}, ${c.country}, ${c.id})`)
+        )
+      )}`
+    );
+  }
+  const domains = rows.flatMap(c =>
+    [...c.domains].map(domain => sql`(${c.id}, ${domain})`)
+  );
+  if (domains.length > 0) {
+    await runStatement(
+      connection,
+      sql`INSERT INTO company_websites VALUES ${join(domains)}`
+    );
+  }
+}
+
+async function runStatement(
+  connection: DuckDBConnection,
+  statement: SqlFragment
+): Promise<void> {
+  const { text, values } = render(statement);
+  await connection.run(text, values);
+}
+
+/**
+ * Fuzzy matches of search terms against every company's name variants,
+ * website domains and traded commodities (see fuzzyMatches()). Each text
+ * scores its similarity times the field weight.
+ *
+ * @param terms - Non-empty terms from searchTerms()
+ * @returns A SELECT of `company_id, field, text, score` rows, one per
+ *   matching text, with canonical company IDs
+ */
+export function companySearchMatches(terms: string[]): SqlFragment {
+  const documents = sql`
+    SELECT company_id as id, 'name' as field, name as text
+    FROM company_name_map
+    UNION
+    SELECT ids.canonical_id, 'website', w.domain
+    FROM company_websites w
+    JOIN company_ids ids ON ids.id = w.company_id
+    UNION
+    SELECT importer_id, 'commodity', commodity_name FROM shipment_parties
+    UNION
+    SELECT exporter_id, 'commodity', commodity_name FROM shipment_parties
+  `;
+  return sql`
+    SELECT
+      id as company_id, field, text,
+      similarity * CASE field
+        WHEN 'name' THEN ${NAME_WEIGHT}
+        WHEN 'website' THEN ${WEBSITE_WEIGHT}
+        ELSE ${COMMODITY_WEIGHT}
+      END as score
+    FROM (${fuzzyMatches(documents, terms)})
+  `;
+}
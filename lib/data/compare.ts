@@ -0,0 +1,211 @@
+import {
+  getCompanyDetailById,
+  inDateRange,
+  query,
+  resolveCompanyId,
+} from './shipments';
+import { list, raw, sql } from './sql';
+import type {
+  CompanyComparison,
+  CompanyDetail,
+  ComparisonMonth,
+  SharedCommodity,
+  SharedPartner,
+} from '@/types/company';
+import type { DateRange } from '@/types/shipment';
+
+/** Result of compareCompanies() */
+export type CompareResult =
+  | { status: 'compared'; comparison: CompanyComparison }
+  | { status: 'not_found'; ref: string }
+  | { status: 'duplicate'; ref: string };
+
+/** One company's total for one key (partner, commodity or month) */
+interface KeyedTotal {
+  key: string;
+  company_id: string;
+  shipments: number;
+  kg: number;
+}
+
+/**
+ * Spreads per-company rows into arrays aligned with `ids`, keeping the order
+ * in which keys first appear. Missing companies get 0.
+ */
+function alignByKey(
+  rows: KeyedTotal[],
+  ids: string[]
+): Map<string, { shipments: number[]; kg: number[] }> {
+  const aligned = new Map<string, { shipments: number[]; kg: number[] }>();
+  for (const row of rows) {
+    if (!aligned.has(row.key)) {
+      aligned.set(row.key, {
+        shipments: ids.map(() => 0),
+        kg: ids.map(() => 0),
+      });
+    }
+    const index = ids.indexOf(row.company_id);
+    if (index >= 0) {
+      aligned.get(row.key)!.shipments[index] = Number(row.shipments);
+      aligned.get(row.key)!.kg[index] = Number(row.kg);
+    }
+  }
+  return aligned;
+}
+
+/**
+ * Compares 2-5 companies side by side.
+ *
+ * Each company gets its full getCompanyDetailById() metrics, then 3 queries
+ * cover all of them at once (plus a name lookup for the shared partners):
+ * - **monthly** - Zero-filled months across `range` (or the first to last
+ *   shipment of any compared company), one value per company
+ * - **sharedPartners** - Companies trading with at least two of them, most
+ *   widely shared first, then by kg
+ * - **sharedCommodities** - Commodities at least two of them trade, same order
+ *
+ * Like the company timeseries, a company's shipments count in both roles, so
+ * a shipment between two compared companies appears under each.
+ *
+ * @param refs - Company IDs or names, in display order
+ * @param range - Optional inclusive date range (default: all data)
+ * @param limit - Max shared partners and commodities (default: 20)
+ * @returns The comparison, or the first ref that is unknown or names a
+ *   company already in the list
+ */
+export async function compareCompanies(
+  refs: string[],
+  range: DateRange = {},
+  limit = 20
+): Promise<CompareResult> {
+  const companies: CompanyDetail[] = [];
+  for (const ref of refs) {
+    const byId = sql`SELECT canonical_id FROM company_ids WHERE id = ${ref}`;
+    const id =
+      (await query<{ canonical_id: string }>(byId))[0]?.canonical_id ??
+      (await resolveCompanyId(ref));
+    const detail = id ? await getCompanyDetailById(id, range) : null;
+    if (!detail) {
+      return { status: 'not_found', ref };
+    }
+    if (companies.some(company => company.id === detail.id)) {
+      return { status: 'duplicate', ref };
+    }
+    companies.push(detail);
+  }
+
+  const ids = companies.map(company => company.id);
+  const inRange = inDateRange(range);
+  const activity = sql`
+    activity AS (
+      SELECT importer_id as company_id, exporter_id as partner_id, *
+      FROM shipment_parties
+      WHERE importer_id IN (${list(ids)}) AND ${inRange}
+      UNION ALL
+      SELECT exporter_id as company_id, importer_id as partner_id, *
+      FROM shipment_parties
+      WHERE exporter_id IN (${list(ids)}) AND ${inRange}
+    )
+  `;
+
+  // Query 1: Monthly totals per company, zero-filled like the timeseries
+  const monthRows = await query<KeyedTotal>(sql`
+    WITH ${activity},
+    bounds AS (
+      SELECT
+        date_trunc('month', COALESCE(CAST(${range.from ?? null} AS DATE), MIN(shipment_date))) as first_month,
+        date_trunc('month', COALESCE(CAST(${range.to ?? null} AS DATE), MAX(shipment_date))) as last_month
+      FROM activity
+    ),
+    months AS (
+      SELECT CAST(month AS DATE) as month
+      FROM bounds, generate_series(
+        CAST(first_month AS TIMESTAMP),
+        CAST(last_month AS TIMESTAMP),
+        INTERVAL 1 MONTH
+      ) t(month)
+    ),
+    monthly AS (
+      SELECT
+        CAST(date_trunc('month', shipment_date) AS DATE) as month,
+        company_id,
+        COUNT(*) as shipments,
+        SUM(weight_metric_tonnes * 1000) as kg
+      FROM activity
+      GROUP BY ALL
+    )
+    SELECT
+      strftime(months.month, '%Y-%m-%d') as key,
+      company_id,
+      CAST(COALESCE(shipments, 0) AS INTEGER) as shipments,
+      CAST(COALESCE(kg, 0) AS BIGINT) as kg
+    FROM months
+    LEFT JOIN monthly USING (month)
+    ORDER BY months.month
+  `);
+  const monthly: ComparisonMonth[] = [
+    ...alignByKey(monthRows, ids).entries(),
+  ].map(([month, values]) => ({ month, ...values }));
+
+  // Queries 2-3: Partners and commodities shared by two or more companies
+  const shared = (keyColumn: 'partner_id' | 'commodity_name') =>
+    query<KeyedTotal>(sql`
+      WITH ${activity},
+      totals AS (
+        SELECT
+          ${raw(keyColumn)} as key,
+          company_id,
+          COUNT(*) as shipments,
+          SUM(weight_metric_tonnes * 1000) as kg
+        FROM activity
+        GROUP BY ALL
+      ),
+      ranked AS (
+        SELECT key, COUNT(*) as companies, SUM(kg) as kg
+        FROM totals
+        GROUP BY key
+        HAVING COUNT(*) >= 2
+        ORDER BY companies DESC, kg DESC, key
+        LIMIT ${limit}
+      )
+      SELECT
+        totals.key,
+        totals.company_id,
+        CAST(totals.shipments AS INTEGER) as shipments,
+        CAST(totals.kg AS BIGINT) as kg
+      FROM ranked
+      JOIN totals USING (key)
+      ORDER BY ranked.companies DESC, ranked.kg DESC, ranked.key
+    `);
+
+  const partnerRows = await shared('partner_id');
+  const partnerIds = [...new Set(partnerRows.map(row => row.key))];
+  const partnerNames =
+    partnerIds.length > 0
+      ? await query<{ id: string; name: string; country: string }>(sql`
+          SELECT id, name, country FROM companies
+          WHERE id IN (${list(partnerIds)})
+        `)
+      : [];
+  const sharedPartners: SharedPartner[] = [
+    ...alignByKey(partnerRows, ids).entries(),
+  ].map(([id, values]) => {
+    const partner = partnerNames.find(p => p.id === id);
+    return {
+      id,
+      name: partner?.name ?? id,
+      country: partner?.country ?? '',
+      ...values,
+    };
+  });
+
+  const commodityRows = await shared('commodity_name');
+  const sharedCommodities: SharedCommodity[] = [
+    ...alignByKey(commodityRows, ids).entries(),
+  ].map(([name, values]) => ({ name, ...values }));
+
+  return {
+    status: 'compared',
+    comparison: { companies, monthly, sharedPartners, sharedCommodities },
+  };
+}
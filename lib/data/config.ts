@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/** Optional config file, read from the working directory */
+export const CONFIG_FILE = 'coreties.config.json';
+
+export const DATA_SOURCE_FORMATS = [
+  'json',
+  'ndjson',
+  'csv',
+  'parquet',
+] as const;
+
+/** Where shipments are loaded from - a file or a directory of files */
+export const DataSourceConfigSchema = z.object({
+  path: z.string().min(1),
+  format: z.enum(DATA_SOURCE_FORMATS).optional(), // inferred from extension
+});
+
+/** Where the DuckDB store lives - a file path, or ":memory:" */
+export const DatabaseConfigSchema = z.object({
+  path: z.string().min(1),
+});
+
+/** Where export job files are written - a directory path */
+export const ExportsConfigSchema = z.object({
+  path: z.string().min(1),
+});
+
+const ConfigFileSchema = z.object({
+  shipments: DataSourceConfigSchema.optional(),
+  database: DatabaseConfigSchema.optional(),
+  exports: ExportsConfigSchema.optional(),
+});
+
+export type DataSourceFormat = (typeof DATA_SOURCE_FORMATS)[number];
+export type DataSourceConfig = z.infer<typeof DataSourceConfigSchema>;
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/** Value for an in-memory DuckDB store */
+export const IN_MEMORY = ':memory:';
+
+/**
+ * Reads and validates `coreties.config.json` from `cwd`.
+ *
+ * @example
+ * {
+ *   "shipments": { "path": "extracts/2025-09", "format": "csv" },
+ *   "database": { "path": "data/coreties.duckdb" }
+ * }
+ *
+ * @returns The parsed config, or an empty object if there is no file
+ * @throws Error if the file is not valid JSON or does not match the schema
+ */
+export function readConfigFile(cwd: string): ConfigFile {
+  const file = path.join(cwd, CONFIG_FILE);
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  const parsed = ConfigFileSchema.safeParse(
+    JSON.parse(fs.readFileSync(file, 'utf8'))
+  );
+  if (!parsed.success) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolves where the DuckDB store lives.
+ *
+ * Precedence: `DUCKDB_PATH` env var, then the `database` key of
+ * `coreties.config.json`, then in-memory. Relative paths are resolved
+ * against `cwd`.
+ *
+ * @returns An absolute file path, or ":memory:"
+ */
+export function resolveDatabasePath(options?: {
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+}): string {
+  const cwd = options?.cwd ?? process.cwd();
+  const env = options?.env ?? process.env;
+
+  const configured = env.DUCKDB_PATH || readConfigFile(cwd).database?.path;
+  if (!configured || configured === IN_MEMORY) {
+    return IN_MEMORY;
+  }
+  return path.resolve(cwd, configured);
+}
+
+/** Default export job directory, relative to `cwd` */
+export const DEFAULT_EXPORTS_DIR = 'exports';
+
+/**
+ * Resolves the directory export job files are written to.
+ *
+ * Precedence: `EXPORTS_DIR` env var, then the `exports` key of
+ * `coreties.config.json`, then `exports/`. Relative paths are resolved
+ * against `cwd`.
+ *
+ * @returns An absolute directory path
+ */
+export function resolveExportsDirectory(options?: {
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+}): string {
+  const cwd = options?.cwd ?? process.cwd();
+  const env = options?.env ?? process.env;
+  const configured =
+    env.EXPORTS_DIR || readConfigFile(cwd).exports?.path || DEFAULT_EXPORTS_DIR;
+  return path.resolve(cwd, configured);
+}
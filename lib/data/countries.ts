@@ -0,0 +1,212 @@
+import { companyTotals, inDateRange, query } from './shipments';
+import { empty, sql } from './sql';
+import type {
+  CountryCompany,
+  CountryDetail,
+  CountryFlow,
+  CountryFlowsResponse,
+  CountrySummary,
+  PartnerCountry,
+} from '@/types/country';
+import type { Commodity } from '@/types/company';
+import type { DateRange } from '@/types/shipment';
+
+/**
+ * Per-country import and export totals. A shipment counts as an import for
+ * its importer_country and an export for its exporter_country, so a domestic
+ * shipment counts on both sides of the same country.
+ */
+async function countrySummaries(
+  range?: DateRange,
+  code?: string
+): Promise<CountrySummary[]> {
+  const inRange = inDateRange(range);
+  return query<CountrySummary>(sql`
+    WITH sides AS (
+      SELECT importer_country as code, 'import' as side,
+        importer_id as company_id, weight_metric_tonnes
+      FROM shipment_parties WHERE ${inRange}
+      UNION ALL
+      SELECT exporter_country as code, 'export' as side,
+        exporter_id as company_id, weight_metric_tonnes
+      FROM shipment_parties WHERE ${inRange}
+    )
+    SELECT
+      code,
+      CAST(COUNT(*) FILTER (WHERE side = 'import') AS INTEGER) as importShipments,
+      CAST(COUNT(*) FILTER (WHERE side = 'export') AS INTEGER) as exportShipments,
+      CAST(COALESCE(SUM(weight_metric_tonnes * 1000) FILTER (WHERE side = 'import'), 0) AS BIGINT) as importKg,
+      CAST(COALESCE(SUM(weight_metric_tonnes * 1000) FILTER (WHERE side = 'export'), 0) AS BIGINT) as exportKg,
+      CAST(COUNT(DISTINCT company_id) FILTER (WHERE side = 'import') AS INTEGER) as importers,
+      CAST(COUNT(DISTINCT company_id) FILTER (WHERE side = 'export') AS INTEGER) as exporters
+    FROM sides
+    ${code === undefined ? empty : sql`WHERE code = ${code}`}
+    GROUP BY code
+    ORDER BY SUM(weight_metric_tonnes) DESC, code
+  `);
+}
+
+/**
+ * Returns import and export totals for every country, busiest first.
+ *
+ * Country codes are used as stored in shipments (trimmed, uppercase).
+ *
+ * @param range - Optional inclusive date range (default: all data)
+ * @returns One row per country with shipments, kg and company counts per side
+ */
+export async function getCountries(
+  range?: DateRange
+): Promise<CountrySummary[]> {
+  return countrySummaries(range);
+}
+
+/**
+ * Returns one country's totals with its top partner countries, commodities
+ * and companies.
+ *
+ * Uses 4 queries: totals, partner countries, commodities, companies.
+ * - **topPartners** - Countries it trades with in either direction, by kg
+ * - **topCommodities** - Commodities imported or exported, by kg
+ * - **topCompanies** - Companies based in the country, by shipments
+ *
+ * Like company detail, a country that only trades outside `range` returns
+ * zero totals rather than null.
+ *
+ * @param code - Country code, case-insensitive (e.g. "us")
+ * @param range - Optional inclusive date range (default: all data)
+ * @param limit - Max entries per top list (default: 10)
+ * @returns CountryDetail, or null if no shipment ever involved the country
+ */
+export async function getCountryDetail(
+  code: string,
+  range?: DateRange,
+  limit = 10
+): Promise<CountryDetail | null> {
+  const country = code.trim().toUpperCase();
+  const inRange = inDateRange(range);
+
+  const known = await query<{ found: number }>(sql`
+    SELECT 1 as found FROM shipments
+    WHERE importer_country = ${country} OR exporter_country = ${country}
+    LIMIT 1
+  `);
+  if (known.length === 0) {
+    return null;
+  }
+
+  const [summary] = await countrySummaries(range, country);
+
+  // Query 2: Partner countries - imports come from the exporter's country and
+  // exports go to the importer's country
+  const topPartners = await query<PartnerCountry>(sql`
+    SELECT
+      partner as code,
+      CAST(SUM(imported) * 1000 AS BIGINT) as importKg,
+      CAST(SUM(exported) * 1000 AS BIGINT) as exportKg,
+      CAST(COUNT(DISTINCT id) AS INTEGER) as shipments
+    FROM (
+      SELECT id, exporter_country as partner,
+        weight_metric_tonnes as imported, 0 as exported
+      FROM shipments
+      WHERE importer_country = ${country} AND ${inRange}
+      UNION ALL
+      SELECT id, importer_country as partner,
+        0 as imported, weight_metric_tonnes as exported
+      FROM shipments
+      WHERE exporter_country = ${country} AND ${inRange}
+    )
+    GROUP BY partner
+    ORDER BY SUM(imported + exported) DESC, partner
+    LIMIT ${limit}
+  `);
+
+  // Query 3: Commodities shipped into or out of the country
+  const topCommodities = await query<Commodity>(sql`
+    SELECT commodity_name as name,
+      CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT) as kg
+    FROM shipments
+    WHERE (importer_country = ${country} OR exporter_country = ${country})
+      AND ${inRange}
+    GROUP BY commodity_name
+    ORDER BY kg DESC, name
+    LIMIT ${limit}
+  `);
+
+  // Query 4: Companies based in the country
+  const topCompanies = await query<CountryCompany>(sql`
+    WITH ${companyTotals(range)}
+    SELECT id, name, totalShipments, totalWeight
+    FROM company_totals
+    WHERE country = ${country}
+    ORDER BY totalShipments DESC, name
+    LIMIT ${limit}
+  `);
+
+  return {
+    ...(summary ?? {
+      code: country,
+      importShipments: 0,
+      exportShipments: 0,
+      importKg: 0,
+      exportKg: 0,
+      importers: 0,
+      exporters: 0,
+    }),
+    topPartners,
+    topCommodities,
+    topCompanies,
+  };
+}
+
+/**
+ * Returns the origin → destination flow matrix between countries.
+ *
+ * Origins are exporter countries and destinations importer countries, each
+ * ordered by their total kg and capped at `limit`; flows are the non-empty
+ * cells between the kept countries.
+ *
+ * @param range - Optional inclusive date range (default: all data)
+ * @param limit - Max origins and max destinations (default: 20)
+ */
+export async function getCountryFlows(
+  range?: DateRange,
+  limit = 20
+): Promise<CountryFlowsResponse> {
+  const flows = await query<CountryFlow>(sql`
+    SELECT
+      exporter_country as origin,
+      importer_country as destination,
+      CAST(COUNT(*) AS INTEGER) as shipments,
+      CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT) as kg
+    FROM shipments
+    WHERE ${inDateRange(range)}
+    GROUP BY ALL
+    ORDER BY kg DESC, origin, destination
+  `);
+
+  const topCodes = (key: 'origin' | 'destination') => {
+    const totals = new Map<string, number>();
+    for (const flow of flows) {
+      totals.set(flow[key], (totals.get(flow[key]) ?? 0) + Number(flow.kg));
+    }
+    return [...totals.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([code]) => code);
+  };
+
+  const origins = topCodes('origin');
+  const destinations = topCodes('destination');
+  const kept = new Set([
+    ...origins.map(code => `o:${code}`),
+    ...destinations.map(code => `d:${code}`),
+  ]);
+
+  return {
+    origins,
+    destinations,
+    flows: flows.filter(
+      flow => kept.has(`o:${flow.origin}`) && kept.has(`d:${flow.destination}`)
+    ),
+  };
+}
@@ -0,0 +1,280 @@
+import { companyTotals, query, writeTransaction } from './shipments';
+import { SqlFragment, empty, sql } from './sql';
+import {
+  CompanyListItem,
+  CompanyMerge,
+  CompanyRole,
+  DuplicateCandidate,
+} from '@/types/company';
+
+/** Score weights - they sum to 1, so a perfect match on every signal scores 1 */
+const NAME_WEIGHT = 0.7;
+const DOMAIN_WEIGHT = 0.2;
+const COUNTRY_WEIGHT = 0.1;
+
+interface CandidateRow {
+  source_id: string;
+  source_name: string;
+  source_country: string;
+  source_role: CompanyRole;
+  source_shipments: number;
+  source_weight: number;
+  source_first_shipment: string;
+  source_last_shipment: string;
+  target_id: string;
+  target_name: string;
+  target_country: string;
+  target_role: CompanyRole;
+  target_shipments: number;
+  target_weight: number;
+  target_first_shipment: string;
+  target_last_shipment: string;
+  score: number;
+  name_similarity: number;
+  shared_domains: string[];
+  same_country: boolean;
+}
+
+/**
+ * CTEs ending in `candidates`: every canonical company pair scoring at least
+ * `minScore`, with `source_id` (fewer shipments) and `target_id` (more).
+ */
+function candidatePairs(minScore: number): SqlFragment {
+  return sql`
+    ${companyTotals()},
+    domains AS (
+      SELECT DISTINCT ids.canonical_id as id, w.domain
+      FROM company_websites w
+      JOIN company_ids ids ON ids.id = w.company_id
+    ),
+    shared AS (
+      SELECT a.id as a_id, b.id as b_id, list(a.domain ORDER BY a.domain) as domains
+      FROM domains a
+      JOIN domains b ON a.domain = b.domain AND a.id < b.id
+      GROUP BY a.id, b.id
+    ),
+    pairs AS (
+      SELECT
+        a.id as a_id,
+        b.id as b_id,
+        jaro_winkler_similarity(a.normalized_name, b.normalized_name) as name_similarity,
+        COALESCE(shared.domains, []) as shared_domains,
+        a.country = b.country as same_country
+      FROM canonical_companies a
+      JOIN canonical_companies b ON a.id < b.id
+      LEFT JOIN shared ON shared.a_id = a.id AND shared.b_id = b.id
+    ),
+    candidates AS (
+      SELECT
+        CASE WHEN a_is_source THEN a_id ELSE b_id END as source_id,
+        CASE WHEN a_is_source THEN b_id ELSE a_id END as target_id,
+        score,
+        name_similarity,
+        shared_domains,
+        same_country
+      FROM (
+        SELECT
+          p.*,
+          ROUND(
+            ${NAME_WEIGHT} * name_similarity
+            + CASE WHEN len(shared_domains) > 0 THEN ${DOMAIN_WEIGHT} ELSE 0 END
+            + CASE WHEN same_country THEN ${COUNTRY_WEIGHT} ELSE 0 END,
+            3
+          ) as score,
+          a.totalShipments < b.totalShipments
+            OR (a.totalShipments = b.totalShipments AND a.id > b.id) as a_is_source
+        FROM pairs p
+        JOIN company_totals a ON a.id = p.a_id
+        JOIN company_totals b ON b.id = p.b_id
+      )
+      WHERE score >= ${minScore}
+    )
+  `;
+}
+
+/**
+ * Scores every pair of companies as potential duplicates.
+ *
+ * Each pair gets a weighted score from three signals:
+ * - **Name similarity** (70%) - `jaro_winkler_similarity()` on normalized names
+ * - **Shared website domain** (20%) - any domain seen for both companies
+ * - **Same country** (10%)
+ *
+ * Only canonical companies are compared, so pairs disappear once merged.
+ * In each pair the company with fewer shipments is the suggested `source`
+ * (merged away) and the other is the `target` (kept).
+ *
+ * @param options.minScore - Lowest score to return, 0-1 (default: 0.75)
+ * @param options.limit - Max pairs to return (default: 100)
+ * @param options.offset - Number of pairs to skip for pagination (default: 0)
+ * @returns Candidate pairs sorted by score DESC, with total count
+ */
+export async function getDuplicateCandidates(options?: {
+  minScore?: number;
+  limit?: number;
+  offset?: number;
+}): Promise<{ data: DuplicateCandidate[]; total: number }> {
+  const minScore = options?.minScore ?? 0.75;
+  const limit = options?.limit ?? 100;
+  const offset = options?.offset ?? 0;
+
+  const countResult = await query<{ total: number }>(sql`
+    WITH ${candidatePairs(minScore)}
+    SELECT COUNT(*) as total FROM candidates
+  `);
+  const total = countResult[0]?.total ?? 0;
+
+  const rows = await query<CandidateRow>(sql`
+    WITH ${candidatePairs(minScore)}
+    SELECT
+      source.id as source_id,
+      source.name as source_name,
+      source.country as source_country,
+      source.role as source_role,
+      source.totalShipments as source_shipments,
+      source.totalWeight as source_weight,
+      source.firstShipment as source_first_shipment,
+      source.lastShipment as source_last_shipment,
+      target.id as target_id,
+      target.name as target_name,
+      target.country as target_country,
+      target.role as target_role,
+      target.totalShipments as target_shipments,
+      target.totalWeight as target_weight,
+      target.firstShipment as target_first_shipment,
+      target.lastShipment as target_last_shipment,
+      CAST(score AS DOUBLE) as score,
+      CAST(ROUND(name_similarity, 3) AS DOUBLE) as name_similarity,
+      shared_domains,
+      same_country
+    FROM candidates
+    JOIN company_totals source ON source.id = candidates.source_id
+    JOIN company_totals target ON target.id = candidates.target_id
+    ORDER BY score DESC, source_id, target_id
+    LIMIT ${limit} OFFSET ${offset}
+  `);
+
+  const data = rows.map(row => {
+    const reasons = [
+      `Names are ${Math.round(row.name_similarity * 100)}% similar`,
+    ];
+    if (row.shared_domains.length > 0) {
+      reasons.push(`Same website: ${row.shared_domains.join(', ')}`);
+    }
+    reasons.push(
+      row.same_country
+        ? `Both in ${row.source_country}`
+        : `Different countries: ${row.source_country}, ${row.target_country}`
+    );
+
+    return {
+      source: toListItem(row, 'source'),
+      target: toListItem(row, 'target'),
+      score: row.score,
+      nameSimilarity: row.name_similarity,
+      sharedDomains: row.shared_domains,
+      sameCountry: row.same_country,
+      reasons,
+    };
+  });
+
+  return { data, total };
+}
+
+function toListItem(
+  row: CandidateRow,
+  side: 'source' | 'target'
+): CompanyListItem {
+  return {
+    id: row[`${side}_id`],
+    name: row[`${side}_name`],
+    country: row[`${side}_country`],
+    role: row[`${side}_role`],
+    totalShipments: row[`${side}_shipments`],
+    totalWeight: row[`${side}_weight`],
+    firstShipment: row[`${side}_first_shipment`],
+    lastShipment: row[`${side}_last_shipment`],
+  };
+}
+
+/** Result of mergeCompanies() */
+export type MergeResult =
+  | { status: 'merged'; merge: CompanyMerge }
+  | { status: 'not_found' }
+  | { status: 'already_merged' };
+
+/**
+ * Accepts a merge: `sourceId` becomes an alias of `targetId`.
+ *
+ * Both IDs are first resolved through earlier merges, and anything already
+ * aliased to the source is re-pointed at the target, so the alias table never
+ * holds chains. Every aggregation reads companies through `shipment_parties`,
+ * which applies the alias table, so totals combine immediately.
+ *
+ * The resolve and both writes run in one transaction behind imports (see
+ * writeTransaction()), so concurrent merges such as A→B and B→A can't both
+ * apply and form a cycle, and a failure leaves no half-applied merge.
+ *
+ * @param sourceId - Company to merge away
+ * @param targetId - Company to keep
+ * @returns The stored merge, or why it was not applied
+ */
+export async function mergeCompanies(
+  sourceId: string,
+  targetId: string
+): Promise<MergeResult> {
+  const outcome = await writeTransaction(async run => {
+    const resolved = await run<{ id: string; canonical_id: string }>(sql`
+      SELECT id, canonical_id FROM company_ids
+      WHERE id IN (${sourceId}, ${targetId})
+    `);
+    const source = resolved.find(r => r.id === sourceId)?.canonical_id;
+    const target = resolved.find(r => r.id === targetId)?.canonical_id;
+
+    if (!source || !target) {
+      return { status: 'not_found' as const };
+    }
+    if (source === target) {
+      return { status: 'already_merged' as const };
+    }
+
+    await run(sql`
+      UPDATE company_aliases SET canonical_id = ${target}
+      WHERE canonical_id = ${source}
+    `);
+    await run(sql`
+      INSERT INTO company_aliases (alias_id, canonical_id, merged_at)
+      VALUES (${source}, ${target}, CAST(${new Date().toISOString()} AS TIMESTAMP))
+    `);
+    return { status: 'merged' as const, source };
+  });
+
+  if (outcome.status !== 'merged') {
+    return outcome;
+  }
+  const merges = await getCompanyMerges(outcome.source);
+  return { status: 'merged', merge: merges[0] };
+}
+
+/**
+ * Lists accepted merges, most recent first.
+ *
+ * @param aliasId - Optional alias to look up a single merge
+ */
+export async function getCompanyMerges(
+  aliasId?: string
+): Promise<CompanyMerge[]> {
+  return query<CompanyMerge>(sql`
+    SELECT
+      a.alias_id as aliasId,
+      alias.name as aliasName,
+      a.canonical_id as canonicalId,
+      canonical.name as canonicalName,
+      strftime(a.merged_at, '%Y-%m-%dT%H:%M:%SZ') as mergedAt
+    FROM company_aliases a
+    JOIN companies alias ON alias.id = a.alias_id
+    JOIN companies canonical ON canonical.id = a.canonical_id
+    ${aliasId === undefined ? empty : sql`WHERE a.alias_id = ${aliasId}`}
+    ORDER BY a.merged_at DESC, a.alias_id
+  `);
+}
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  companyList,
+  copyToFile,
+  resolveDateRange,
+  shipmentList,
+} from './shipments';
+import { resolveExportsDirectory } from './config';
+import type { ExportJob, ExportJobRequest } from '@/types/export';
+
+/** How long a finished export stays downloadable */
+export const EXPORT_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** How long an expired job is still reported as expired before it is forgotten */
+export const EXPIRED_JOB_RETENTION_MS = EXPORT_JOB_TTL_MS;
+
+/** How often the exports directory is swept for files no job knows about */
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+interface JobRecord {
+  job: ExportJob;
+  request: ExportJobRequest;
+  file: string;
+}
+
+const jobs = new Map<string, JobRecord>();
+const lastSweeps = new Map<string, number>();
+let jobQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Deletes files in the exports directory older than EXPORT_JOB_TTL_MS that
+ * no job in memory owns - left over from before a restart, when their jobs
+ * were lost. Runs on first use and then at most every SWEEP_INTERVAL_MS.
+ */
+function sweepExportsDirectory(now: number): void {
+  const directory = resolveExportsDirectory();
+  const lastSweep = lastSweeps.get(directory);
+  if (lastSweep !== undefined && now - lastSweep < SWEEP_INTERVAL_MS) {
+    return;
+  }
+  lastSweeps.set(directory, now);
+  if (!fs.existsSync(directory)) {
+    return;
+  }
+
+  const owned = new Set(
+    [...jobs.values()].flatMap(({ file }) => [file, `${file}.partial`])
+  );
+  for (const name of fs.readdirSync(directory)) {
+    const file = path.join(directory, name);
+    if (owned.has(file)) {
+      continue;
+    }
+    const stats = fs.statSync(file, { throwIfNoEntry: false });
+    if (stats?.isFile() && now - stats.mtimeMs > EXPORT_JOB_TTL_MS) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+}
+
+/**
+ * Deletes the files of finished jobs past `expiresAt` and marks them
+ * expired, forgetting them EXPIRED_JOB_RETENTION_MS later; also sweeps the
+ * exports directory (see sweepExportsDirectory()). Runs on every lookup, so
+ * no timer is needed.
+ */
+function expireJobs(now = Date.now()): void {
+  for (const [id, { job, file }] of jobs) {
+    if (!job.expiresAt) {
+      continue;
+    }
+    const expiresAt = Date.parse(job.expiresAt);
+    if (expiresAt + EXPIRED_JOB_RETENTION_MS <= now) {
+      fs.rmSync(file, { force: true });
+      jobs.delete(id);
+    } else if (expiresAt <= now) {
+      fs.rmSync(file, { force: true });
+      job.status = 'expired';
+      job.downloadUrl = null;
+    }
+  }
+  sweepExportsDirectory(now);
+}
+
+async function runJob(record: JobRecord): Promise<void> {
+  const { job, request, file } = record;
+  job.status = 'running';
+
+  // Written under a temporary name, so a half-written file is never served
+  const partial = `${file}.partial`;
+  try {
+    const statement =
+      request.resource === 'shipments'
+        ? shipmentList(request.query)
+        : companyList({
+            ...request.query,
+            ...(await resolveDateRange(request.query)),
+          });
+    const rows = await copyToFile(statement, partial, job.format, progress => {
+      job.progress = progress;
+    });
+    fs.renameSync(partial, file);
+
+    job.status = 'completed';
+    job.progress = 1;
+    job.rows = rows;
+    job.bytes = fs.statSync(file).size;
+    job.downloadUrl = `/api/exports/${job.id}/download`;
+  } catch (error) {
+    console.error(`Export job ${job.id} failed:`, error);
+    fs.rmSync(partial, { force: true });
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const completedAt = Date.now();
+  job.completedAt = new Date(completedAt).toISOString();
+  job.expiresAt = new Date(completedAt + EXPORT_JOB_TTL_MS).toISOString();
+}
+
+/**
+ * Queues a shipments or companies export to run in the background.
+ *
+ * Jobs run one at a time, each as a single DuckDB `COPY ... TO` into the
+ * exports directory (see resolveExportsDirectory()). A finished job's file
+ * is deleted EXPORT_JOB_TTL_MS after it completes, and the job itself is
+ * forgotten EXPIRED_JOB_RETENTION_MS after that.
+ *
+ * @param request - Resource, file format and the listing's filters
+ * @returns The queued job; poll getExportJob() for progress
+ */
+export function createExportJob(request: ExportJobRequest): ExportJob {
+  expireJobs();
+
+  const directory = resolveExportsDirectory();
+  fs.mkdirSync(directory, { recursive: true });
+
+  const id = crypto.randomUUID();
+  const record: JobRecord = {
+    job: {
+      id,
+      resource: request.resource,
+      format: request.format,
+      status: 'queued',
+      progress: 0,
+      rows: null,
+      bytes: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+      expiresAt: null,
+      downloadUrl: null,
+    },
+    request,
+    file: path.join(directory, `${id}.${request.format}`),
+  };
+  jobs.set(id, record);
+
+  const run = jobQueue.then(() => runJob(record));
+  jobQueue = run.catch(() => undefined);
+
+  return { ...record.job };
+}
+
+/**
+ * @returns A snapshot of the job, or null if the ID is unknown
+ */
+export function getExportJob(id: string): ExportJob | null {
+  expireJobs();
+  const record = jobs.get(id);
+  return record ? { ...record.job } : null;
+}
+
+/**
+ * Looks up a job together with its file, for downloading.
+ *
+ * @returns The job and the file path (which only exists once the job has
+ *   completed and until it expires), or null if the ID is unknown
+ */
+export function getExportJobFile(
+  id: string
+): { job: ExportJob; file: string } | null {
+  expireJobs();
+  const record = jobs.get(id);
+  return record ? { job: { ...record.job }, file: record.file } : null;
+}
+
+/** Resolves once every job queued so far has finished */
+export async function waitForExportJobs(): Promise<void> {
+  await jobQueue;
+}
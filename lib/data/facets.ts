@@ -0,0 +1,131 @@
+import {
+  CompanyFilters,
+  buildCompanyWhere,
+  companyTotals,
+  inCompanyScope,
+  inDateRange,
+  query,
+} from './shipments';
+import { SqlFragment, empty, raw, sql } from './sql';
+import type { CompanyFacets, FacetValue } from '@/types/company';
+
+/** Commodity values returned beyond any selected ones - there are hundreds */
+const COMMODITY_FACET_LIMIT = 20;
+
+/**
+ * Counts companies per value of `column` in company_totals, under `filters`.
+ */
+function countByColumn(
+  column: 'country' | 'role',
+  filters: CompanyFilters
+): Promise<FacetValue[]> {
+  return query<FacetValue>(sql`
+    WITH ${companyTotals(filters, filters.sector)}
+    SELECT ${raw(column)} as value, COUNT(*) as count
+    FROM company_totals
+    ${buildCompanyWhere(filters)}
+    GROUP BY value
+    ORDER BY count DESC, value
+  `);
+}
+
+/**
+ * Counts companies per value in `pairs` (`id, value` rows). `totals` is the
+ * company_totals CTE the filters run against; each company counts once per
+ * value it traded as importer or exporter.
+ */
+function countByShipmentColumn(
+  totals: SqlFragment,
+  pairs: SqlFragment,
+  filters: CompanyFilters,
+  limit?: number
+): Promise<FacetValue[]> {
+  return query<FacetValue>(sql`
+    WITH ${totals},
+    pairs AS (${pairs})
+    SELECT pairs.value, COUNT(*) as count
+    FROM pairs
+    JOIN (SELECT id FROM company_totals ${buildCompanyWhere(filters)}) matched
+      USING (id)
+    GROUP BY pairs.value
+    ORDER BY count DESC, pairs.value
+    ${limit === undefined ? empty : sql`LIMIT ${limit}`}
+  `);
+}
+
+/**
+ * Selected values missing from a facet's counts, listed with count 0 so they
+ * can still be unselected
+ */
+function withSelected(
+  values: FacetValue[],
+  selected: string[] = []
+): FacetValue[] {
+  const listed = new Set(values.map(facet => facet.value.toLowerCase()));
+  const missing = selected
+    .filter(value => !listed.has(value.toLowerCase()))
+    .map(value => ({ value, count: 0 }));
+  return [...values, ...missing];
+}
+
+/**
+ * Company counts for each facet value of the company list.
+ *
+ * Each facet is counted under every active filter except its own, the way
+ * search UIs show how many results picking another value would give:
+ * - **country** / **role** - companies per value in company_totals
+ * - **commodity** - companies that traded each commodity in the date range
+ *   and sector; only the COMMODITY_FACET_LIMIT most common, plus selected ones
+ * - **sector** - companies with shipments in each sector in the date range.
+ *   Since the sector filter changes every total, the other filters (role,
+ *   minimums) are judged on totals across all sectors here
+ *
+ * @param filters - The same filters as getCompanies(); sort and pagination
+ *   are ignored
+ * @returns Values by count DESC, then value
+ */
+export async function getCompanyFacets(
+  filters: CompanyFilters
+): Promise<CompanyFacets> {
+  const country = await countByColumn('country', {
+    ...filters,
+    country: undefined,
+  });
+  const role = await countByColumn('role', { ...filters, role: undefined });
+
+  const inScope = inCompanyScope(filters, filters.sector);
+  const commodity = await countByShipmentColumn(
+    companyTotals(filters, filters.sector),
+    sql`
+      SELECT importer_id as id, commodity_name as value
+      FROM shipment_parties WHERE ${inScope}
+      UNION
+      SELECT exporter_id, commodity_name
+      FROM shipment_parties WHERE ${inScope}
+    `,
+    { ...filters, commodity: undefined },
+    COMMODITY_FACET_LIMIT
+  );
+
+  const inRange = inDateRange(filters);
+  const sector = await countByShipmentColumn(
+    companyTotals(filters),
+    sql`
+      SELECT importer_id as id, industry_sector as value
+      FROM shipment_parties
+      WHERE ${inRange} AND industry_sector IS NOT NULL
+      UNION
+      SELECT exporter_id, industry_sector
+      FROM shipment_parties
+      WHERE ${inRange} AND industry_sector IS NOT NULL
+    `,
+    { ...filters, sector: undefined }
+  );
+
+  return {
+    country: withSelected(country, filters.country),
+    role: withSelected(role, filters.role),
+    commodity: withSelected(commodity, filters.commodity),
+    sector: withSelected(sector, filters.sector ? [filters.sector] : []),
+  };
+}
@@ -0,0 +1,54 @@
+import { SqlFragment, list, sql } from './sql';
+import {
+  MIN_FUZZY_LENGTH,
+  MIN_TERM_SIMILARITY,
+  PREFIX_SIMILARITY,
+} from '@/lib/utils/search';
+
+/**
+ * Fuzzy matches of search terms against texts.
+ *
+ * Texts are split into words; each term scores its best word (see
+ * termSimilarity() - exact, prefix or `jaro_winkler_similarity()`), so typos
+ * and word order don't matter. A text matches when every term reaches
+ * MIN_TERM_SIMILARITY.
+ *
+ * @param documents - A SELECT of `id, field, text` rows to search
+ * @param terms - Non-empty terms from searchTerms()
+ * @returns A SELECT of `id, field, text, similarity` rows, one per matching
+ *   text; similarity is the terms' average (0-1)
+ */
+export function fuzzyMatches(
+  documents: SqlFragment,
+  terms: string[]
+): SqlFragment {
+  return sql`
+    WITH documents AS (${documents}),
+    words AS (
+      SELECT
+        id, field, text,
+        unnest(regexp_split_to_array(lower(strip_accents(text)), '[^a-z0-9]+')) as word
+      FROM documents
+    ),
+    terms AS (
+      SELECT unnest([${list(terms)}]) as term
+    ),
+    term_scores AS (
+      SELECT
+        id, field, text, term,
+        MAX(CASE
+          WHEN word = term THEN 1.0
+          WHEN starts_with(word, term) THEN ${PREFIX_SIMILARITY}
+          WHEN length(term) < ${MIN_FUZZY_LENGTH} THEN 0.0
+          ELSE jaro_winkler_similarity(word, term)
+        END) as similarity
+      FROM words, terms
+      WHERE word <> ''
+      GROUP BY id, field, text, term
+    )
+    SELECT id, field, text, AVG(similarity) as similarity
+    FROM term_scores
+    GROUP BY id, field, text
+    HAVING MIN(similarity) >= ${MIN_TERM_SIMILARITY}
+  `;
+}
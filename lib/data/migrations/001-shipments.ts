@@ -0,0 +1,26 @@
+import type { Migration } from './index';
+
+/** The `shipments` table, typed to match the Shipment type */
+const migration: Migration = {
+  version: 1,
+  name: 'create shipments',
+  async up(connection) {
+    await connection.run(`
+      CREATE TABLE shipments (
+        id VARCHAR PRIMARY KEY,
+        importer_name VARCHAR NOT NULL,
+        importer_website VARCHAR,
+        importer_country VARCHAR NOT NULL,
+        exporter_name VARCHAR NOT NULL,
+        exporter_website VARCHAR,
+        exporter_country VARCHAR NOT NULL,
+        shipment_date DATE NOT NULL,
+        commodity_name VARCHAR NOT NULL,
+        industry_sector VARCHAR NOT NULL,
+        weight_metric_tonnes DOUBLE NOT NULL
+      )
+    `);
+  },
+};
+
+export default migration;
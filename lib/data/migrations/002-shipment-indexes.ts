@@ -0,0 +1,25 @@
+import type { Migration } from './index';
+
+/**
+ * Indexes on frequently-filtered columns:
+ * - `idx_importer_name` - Used by company detail and aggregation queries
+ * - `idx_exporter_name` - Used by company detail and aggregation queries
+ * - `idx_shipment_date` - Used by date ordering and monthly aggregation
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'index shipments',
+  async up(connection) {
+    await connection.run(
+      'CREATE INDEX idx_importer_name ON shipments(importer_name)'
+    );
+    await connection.run(
+      'CREATE INDEX idx_exporter_name ON shipments(exporter_name)'
+    );
+    await connection.run(
+      'CREATE INDEX idx_shipment_date ON shipments(shipment_date)'
+    );
+  },
+};
+
+export default migration;
@@ -0,0 +1,76 @@
+import type { Migration } from './index';
+
+/**
+ * The companies dimension (see buildCompanyDimension(), which fills it) and
+ * the views that apply accepted merges from `company_aliases`.
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'create companies dimension',
+  async up(connection) {
+    await connection.run(`
+      CREATE TABLE companies (
+        id VARCHAR PRIMARY KEY,
+        name VARCHAR NOT NULL,
+        normalized_name VARCHAR NOT NULL,
+        country VARCHAR NOT NULL,
+        website VARCHAR
+      )
+    `);
+    await connection.run(`
+      CREATE TABLE company_names (
+        name VARCHAR NOT NULL,
+        country VARCHAR NOT NULL,
+        company_id VARCHAR NOT NULL,
+        PRIMARY KEY (name, country)
+      )
+    `);
+    await connection.run(`
+      CREATE TABLE company_websites (
+        company_id VARCHAR NOT NULL,
+        domain VARCHAR NOT NULL,
+        PRIMARY KEY (company_id, domain)
+      )
+    `);
+    await connection.run(`
+      CREATE TABLE company_aliases (
+        alias_id VARCHAR PRIMARY KEY,
+        canonical_id VARCHAR NOT NULL,
+        merged_at TIMESTAMP NOT NULL
+      )
+    `);
+
+    await connection.run(`
+      CREATE VIEW company_ids AS
+      SELECT c.id, COALESCE(a.canonical_id, c.id) as canonical_id
+      FROM companies c
+      LEFT JOIN company_aliases a ON a.alias_id = c.id
+    `);
+    await connection.run(`
+      CREATE VIEW company_name_map AS
+      SELECT n.name, n.country, ids.canonical_id as company_id
+      FROM company_names n
+      JOIN company_ids ids ON ids.id = n.company_id
+    `);
+    await connection.run(`
+      CREATE VIEW canonical_companies AS
+      SELECT c.*
+      FROM companies c
+      JOIN company_ids ids ON ids.id = c.id AND ids.canonical_id = c.id
+    `);
+    await connection.run(`
+      CREATE VIEW shipment_parties AS
+      SELECT
+        s.*,
+        importer.company_id as importer_id,
+        exporter.company_id as exporter_id
+      FROM shipments s
+      JOIN company_name_map importer
+        ON importer.name = s.importer_name AND importer.country = s.importer_country
+      JOIN company_name_map exporter
+        ON exporter.name = s.exporter_name AND exporter.country = s.exporter_country
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,81 @@
+import type { DuckDBConnection } from '@duckdb/node-api';
+import shipments from './001-shipments';
+import shipmentIndexes from './002-shipment-indexes';
+import companies from './003-companies';
+
+/**
+ * One schema change. `up` runs inside a transaction together with the
+ * `schema_version` insert, so a migration is either fully applied or not at
+ * all. Never edit a migration that has shipped - add a new one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(connection: DuckDBConnection): Promise<void>;
+}
+
+/** Every migration, in the order they apply */
+export const MIGRATIONS: Migration[] = [shipments, shipmentIndexes, companies];
+
+/**
+ * Brings the database schema up to date.
+ *
+ * Applied versions are recorded in `schema_version`; only migrations with a
+ * higher version than the latest applied one run, in ascending order. Running
+ * against an up-to-date database is a no-op, so this is safe on every
+ * startup.
+ *
+ * @param migrations - Migrations to apply (default: MIGRATIONS)
+ * @returns Versions applied by this call, empty if already up to date
+ * @throws Error if migration versions are not strictly increasing, or if a
+ *   migration fails (its changes are rolled back)
+ */
+export async function runMigrations(
+  connection: DuckDBConnection,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number[]> {
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migration versions must increase: ${migration.version} follows ${migrations[i - 1].version}`
+      );
+    }
+  });
+
+  await connection.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR NOT NULL,
+      applied_at TIMESTAMP NOT NULL
+    )
+  `);
+  const reader = await connection.runAndReadAll(
+    'SELECT CAST(COALESCE(MAX(version), 0) AS INTEGER) as version FROM schema_version'
+  );
+  const [{ version: current }] = reader.getRowObjectsJson() as unknown as {
+    version: number;
+  }[];
+
+  const applied: number[] = [];
+  for (const migration of migrations.filter(m => m.version > current)) {
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      await migration.up(connection);
+      await connection.run(
+        'INSERT INTO schema_version VALUES ($1, $2, CAST($3 AS TIMESTAMP))',
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+      await connection.run('COMMIT');
+    } catch (error) {
+      await connection.run('ROLLBACK');
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
@@ -0,0 +1,175 @@
+import { inDateRange, query } from './shipments';
+import { SqlFragment, ilikeContains, raw, sql } from './sql';
+import type { DateRange } from '@/types/shipment';
+import type {
+  NetworkEdge,
+  NetworkNode,
+  NetworkResponse,
+} from '@/types/network';
+
+/**
+ * CTEs ending in `candidates(id, depth, rank_shipments)`: the companies that
+ * may appear in the graph.
+ *
+ * - `edges(source, target, shipments, kg)` - exporter → importer trade over
+ *   the matching shipments
+ * - `totals(id, shipments, kg)` - each company's matching trade, both roles
+ * - `candidates` - every company with matching trade, or, around a center,
+ *   those within `depth` hops of it along edges in either direction
+ */
+function candidateCompanies(options: {
+  center?: string;
+  depth: number;
+  commodity?: string;
+  range?: DateRange;
+}): SqlFragment {
+  const commodityCondition = options.commodity
+    ? ilikeContains(raw('commodity_name'), options.commodity)
+    : raw('TRUE');
+
+  const candidates = options.center
+    ? sql`
+        walk(id, depth) AS (
+          SELECT ${options.center}, 0
+          UNION
+          SELECT
+            CASE WHEN e.source = walk.id THEN e.target ELSE e.source END,
+            walk.depth + 1
+          FROM walk
+          JOIN edges e ON walk.id IN (e.source, e.target)
+          WHERE walk.depth < ${options.depth}
+        ),
+        candidates AS (
+          SELECT walk.id, MIN(walk.depth) as depth,
+            COALESCE(ANY_VALUE(t.shipments), 0) as rank_shipments
+          FROM walk
+          LEFT JOIN totals t ON t.id = walk.id
+          GROUP BY walk.id
+        )
+      `
+    : sql`
+        candidates AS (
+          SELECT id, NULL as depth, shipments as rank_shipments FROM totals
+        )
+      `;
+
+  return sql`
+    edges AS (
+      SELECT
+        exporter_id as source,
+        importer_id as target,
+        COUNT(*) as shipments,
+        SUM(weight_metric_tonnes * 1000) as kg
+      FROM shipment_parties
+      WHERE ${inDateRange(options.range)} AND ${commodityCondition}
+      GROUP BY ALL
+    ),
+    totals AS (
+      SELECT id, SUM(shipments) as shipments, SUM(kg) as kg
+      FROM (
+        SELECT source as id, shipments, kg FROM edges
+        UNION ALL
+        SELECT target as id, shipments, kg FROM edges
+      )
+      GROUP BY id
+    ),
+    ${candidates}
+  `;
+}
+
+/**
+ * Returns the trade network as nodes (companies) and directed, weighted edges
+ * from exporter to importer.
+ *
+ * Without `company`, the graph holds the `limit` companies with the most
+ * matching shipments. With it, the graph is the ego network around that
+ * company: every company within `depth` hops (1-3) along trade in either
+ * direction, nearest first, then by shipments. Edges are only returned
+ * between companies in the graph. `commodity` and `range` restrict which
+ * shipments count towards edges, hops and node totals.
+ *
+ * @param options.company - Center company ID; merged IDs resolve to the company they were merged into
+ * @param options.depth - Hops from the center (default: 1)
+ * @param options.commodity - Case-insensitive commodity substring
+ * @param options.range - Optional inclusive date range (default: all data)
+ * @param options.limit - Max nodes (default: 100)
+ * @returns Nodes, edges and whether nodes were cut off, or null if `company`
+ *   is not a known company ID
+ */
+export async function getNetwork(options: {
+  company?: string;
+  depth?: number;
+  commodity?: string;
+  range?: DateRange;
+  limit?: number;
+}): Promise<NetworkResponse | null> {
+  const limit = options.limit ?? 100;
+
+  let center: string | undefined;
+  if (options.company) {
+    const companies = await query<{ id: string }>(sql`
+      SELECT canonical_id as id FROM company_ids WHERE id = ${options.company}
+    `);
+    if (companies.length === 0) {
+      return null;
+    }
+    center = companies[0].id;
+  }
+
+  const ctes = candidateCompanies({
+    center,
+    depth: options.depth ?? 1,
+    commodity: options.commodity,
+    range: options.range,
+  });
+  const selected = sql`
+    selected AS (
+      SELECT id, depth
+      FROM candidates
+      ORDER BY depth NULLS LAST, rank_shipments DESC, id
+      LIMIT ${limit}
+    )
+  `;
+
+  const nodes = await query<NetworkNode & { candidates: number }>(sql`
+    WITH RECURSIVE ${ctes}, ${selected}
+    SELECT
+      c.id,
+      c.name,
+      c.country,
+      CAST(COALESCE(t.shipments, 0) AS INTEGER) as shipments,
+      CAST(COALESCE(t.kg, 0) AS BIGINT) as kg,
+      s.depth,
+      (SELECT COUNT(*) FROM candidates) as candidates
+    FROM selected s
+    JOIN companies c ON c.id = s.id
+    LEFT JOIN totals t ON t.id = s.id
+    ORDER BY s.depth NULLS LAST, shipments DESC, c.id
+  `);
+
+  const edges = await query<NetworkEdge>(sql`
+    WITH RECURSIVE ${ctes}, ${selected}
+    SELECT
+      e.source,
+      e.target,
+      CAST(e.shipments AS INTEGER) as shipments,
+      CAST(e.kg AS BIGINT) as kg
+    FROM edges e
+    JOIN selected s ON s.id = e.source
+    JOIN selected t ON t.id = e.target
+    ORDER BY e.shipments DESC, e.source, e.target
+  `);
+
+  return {
+    nodes: nodes.map(node => ({
+      id: node.id,
+      name: node.name,
+      country: node.country,
+      shipments: node.shipments,
+      kg: node.kg,
+      depth: node.depth,
+    })),
+    edges,
+    truncated: Number(nodes[0]?.candidates ?? 0) > limit,
+  };
+}
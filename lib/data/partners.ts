@@ -0,0 +1,149 @@
+import { inDateRange, query, resolveCompanyId } from './shipments';
+import { identifier, raw, sql } from './sql';
+import {
+  PARTNER_SORTS,
+  Partner,
+  PartnerDirection,
+  PartnerSort,
+} from '@/types/company';
+import type { DateRange } from '@/types/shipment';
+
+interface PartnerOptions {
+  limit?: number;
+  offset?: number;
+  sort?: PartnerSort;
+  order?: 'asc' | 'desc';
+  direction?: PartnerDirection;
+  range?: DateRange;
+}
+
+/**
+ * Returns every company a company trades with, paginated.
+ *
+ * Suppliers are exporters that shipped to the company; customers are
+ * importers it shipped to. A partner on both sides has `direction: 'both'`
+ * unless the list is filtered to one side, in which case only that side's
+ * shipments count. Per partner it reports shipments, kg, first and last
+ * shipment dates, and the commodities traded (heaviest first).
+ *
+ * An ID that was merged into another company returns that company's partners.
+ * Ties in the sort column are broken by partner name so pages are stable.
+ *
+ * @param companyId - Company ID from the companies dimension
+ * @param options.limit - Max partners to return (default: 20)
+ * @param options.offset - Number of partners to skip for pagination (default: 0)
+ * @param options.sort - shipments | kg (default: shipments)
+ * @param options.order - Sort direction (default: desc)
+ * @param options.direction - suppliers | customers | both (default: both)
+ * @param options.range - Optional inclusive date range (default: all data)
+ * @returns Paginated partner list with total count, or null if not found
+ */
+export async function getCompanyPartnersById(
+  companyId: string,
+  options: PartnerOptions = {}
+): Promise<{ data: Partner[]; total: number } | null> {
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+  const sortColumn = identifier(options.sort ?? 'shipments', PARTNER_SORTS);
+  const order = raw(options.order === 'asc' ? 'ASC' : 'DESC');
+  const direction = options.direction ?? 'both';
+  const inRange = inDateRange(options.range);
+
+  const companies = await query<{ id: string }>(sql`
+    SELECT canonical_id as id FROM company_ids WHERE id = ${companyId}
+  `);
+  if (companies.length === 0) {
+    return null;
+  }
+  const id = companies[0].id;
+
+  const sides = [
+    direction !== 'customers' &&
+      sql`
+        SELECT exporter_id as partner_id, 'supplier' as direction,
+          shipment_date, commodity_name, weight_metric_tonnes
+        FROM shipment_parties
+        WHERE importer_id = ${id} AND ${inRange}
+      `,
+    direction !== 'suppliers' &&
+      sql`
+        SELECT importer_id as partner_id, 'customer' as direction,
+          shipment_date, commodity_name, weight_metric_tonnes
+        FROM shipment_parties
+        WHERE exporter_id = ${id} AND ${inRange}
+      `,
+  ].filter(side => side !== false);
+
+  const partnerShipments = sql`
+    partner_shipments AS (
+      ${sides.length === 2 ? sql`${sides[0]} UNION ALL ${sides[1]}` : sides[0]}
+    )
+  `;
+
+  const countResult = await query<{ total: number }>(sql`
+    WITH ${partnerShipments}
+    SELECT COUNT(DISTINCT partner_id) as total FROM partner_shipments
+  `);
+  const total = countResult[0]?.total ?? 0;
+
+  const data = await query<Partner>(sql`
+    WITH ${partnerShipments},
+    partner_commodities AS (
+      SELECT partner_id, commodity_name, SUM(weight_metric_tonnes) as weight
+      FROM partner_shipments
+      GROUP BY ALL
+    ),
+    partners AS (
+      SELECT
+        partner_id,
+        CASE
+          WHEN COUNT(DISTINCT direction) = 2 THEN 'both'
+          ELSE ANY_VALUE(direction)
+        END as direction,
+        CAST(COUNT(*) AS INTEGER) as shipments,
+        CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT) as kg,
+        strftime(MIN(shipment_date), '%Y-%m-%d') as firstShipment,
+        strftime(MAX(shipment_date), '%Y-%m-%d') as lastShipment
+      FROM partner_shipments
+      GROUP BY partner_id
+    )
+    SELECT
+      c.id,
+      c.name,
+      c.country,
+      p.direction,
+      p.shipments,
+      p.kg,
+      p.firstShipment,
+      p.lastShipment,
+      (
+        SELECT list(commodity_name ORDER BY weight DESC, commodity_name)
+        FROM partner_commodities pc
+        WHERE pc.partner_id = p.partner_id
+      ) as commodities
+    FROM partners p
+    JOIN companies c ON c.id = p.partner_id
+    ORDER BY ${sortColumn} ${order}, c.name, c.id
+    LIMIT ${limit} OFFSET ${offset}
+  `);
+
+  return { data, total };
+}
+
+/**
+ * Returns a company's trading partners by name.
+ *
+ * The name is resolved with resolveCompanyId(), so any known name variant
+ * returns the same company.
+ *
+ * @param companyName - Company name (display name or any raw variant)
+ * @param options - Same as getCompanyPartnersById()
+ * @returns Paginated partner list with total count, or null if not found
+ */
+export async function getCompanyPartners(
+  companyName: string,
+  options?: PartnerOptions
+): Promise<{ data: Partner[]; total: number } | null> {
+  const id = await resolveCompanyId(companyName);
+  return id ? getCompanyPartnersById(id, options) : null;
+}
@@ -0,0 +1,184 @@
+import { query, resolveCompanyId } from './shipments';
+import { list, sql } from './sql';
+import type {
+  NetworkEdge,
+  Path,
+  PathCompany,
+  PathsResponse,
+} from '@/types/network';
+
+/**
+ * Partial routes kept per company and hop, strongest first. Enumerating
+ * every simple route grows exponentially with fan-out; keeping a beam this
+ * wide (at least the per-list limit) still finds the best routes in practice.
+ */
+const PARTIAL_PATHS_PER_NODE = 20;
+
+/** Result of findPaths() */
+export type PathsResult =
+  | { status: 'found'; paths: PathsResponse }
+  | { status: 'not_found' }
+  | { status: 'same_company' };
+
+interface PathRow {
+  kind: 'shortest' | 'strongest';
+  path: string[];
+  legs: NetworkEdge[];
+  hops: number;
+  strength: number;
+}
+
+/**
+ * Looks a company up by ID, falling back to resolveCompanyId() for names.
+ * Merged IDs resolve to the company they were merged into.
+ */
+async function findCompany(ref: string): Promise<PathCompany | null> {
+  const byId = sql`SELECT canonical_id FROM company_ids WHERE id = ${ref}`;
+  const id = (await query<{ canonical_id: string }>(byId))[0]?.canonical_id;
+  const companyId = id ?? (await resolveCompanyId(ref));
+  if (!companyId) {
+    return null;
+  }
+
+  const companies = await query<PathCompany>(sql`
+    SELECT id, name, country FROM companies WHERE id = ${companyId}
+  `);
+  return companies[0] ?? null;
+}
+
+/**
+ * Finds supply-chain routes from one company to another.
+ *
+ * Goods flow from exporter to importer, so a route follows trade edges in
+ * that direction: `from` ships to an intermediary, which ships on, until a
+ * shipment reaches `to`. Routes are simple (no company twice) and at most
+ * `maxHops` legs long; a company's trade with itself is ignored.
+ *
+ * A route's strength is the kg on its weakest leg - a chain only moves as
+ * much as its thinnest link.
+ * - **shortest** - Routes with the fewest hops, strongest first
+ * - **strongest** - Routes with the highest strength, fewer hops first
+ *
+ * Routes are walked one hop at a time, keeping only the strongest
+ * PARTIAL_PATHS_PER_NODE partial routes (or `limit`, if larger) into each
+ * company at each hop, so the work grows with the number of companies
+ * rather than the number of routes.
+ *
+ * @param fromRef - Upstream company ID or name
+ * @param toRef - Downstream company ID or name
+ * @param options.maxHops - Longest route considered (default: 3)
+ * @param options.limit - Max routes in each list (default: 5)
+ * @returns Both companies and their routes (empty lists when none exist),
+ *   `not_found` if either company is unknown, or `same_company` if both
+ *   refs resolve to the same company
+ */
+export async function findPaths(
+  fromRef: string,
+  toRef: string,
+  options: { maxHops?: number; limit?: number } = {}
+): Promise<PathsResult> {
+  const maxHops = options.maxHops ?? 3;
+  const limit = options.limit ?? 5;
+  const beam = Math.max(limit, PARTIAL_PATHS_PER_NODE);
+
+  const from = await findCompany(fromRef);
+  const to = await findCompany(toRef);
+  if (!from || !to) {
+    return { status: 'not_found' };
+  }
+  if (from.id === to.id) {
+    return { status: 'same_company' };
+  }
+
+  const rows = await query<PathRow>(sql`
+    WITH RECURSIVE edges AS (
+      SELECT
+        exporter_id as source,
+        importer_id as target,
+        CAST(COUNT(*) AS INTEGER) as shipments,
+        CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT) as kg
+      FROM shipment_parties
+      WHERE exporter_id <> importer_id
+      GROUP BY ALL
+    ),
+    walk(node, path, legs, hops, strength) AS (
+      SELECT
+        target,
+        [source, target],
+        [{'source': source, 'target': target, 'shipments': shipments, 'kg': kg}],
+        1,
+        kg
+      FROM edges
+      WHERE source = ${from.id}
+      UNION ALL
+      SELECT
+        e.target,
+        list_append(w.path, e.target),
+        list_append(
+          w.legs,
+          {'source': e.source, 'target': e.target, 'shipments': e.shipments, 'kg': e.kg}
+        ),
+        w.hops + 1,
+        LEAST(w.strength, e.kg)
+      FROM walk w
+      JOIN edges e ON e.source = w.node
+      WHERE w.hops < ${maxHops}
+        AND w.node <> ${to.id}
+        AND NOT list_contains(w.path, e.target)
+      -- Every row of one iteration has the same hops, so this keeps the
+      -- strongest partial routes into each company at this hop
+      QUALIFY row_number() OVER (
+        PARTITION BY e.target
+        ORDER BY LEAST(w.strength, e.kg) DESC, list_append(w.path, e.target)
+      ) <= ${beam}
+    ),
+    found AS (
+      SELECT path, legs, hops, strength FROM walk WHERE node = ${to.id}
+    )
+    SELECT 'shortest' as kind, * FROM (
+      SELECT * FROM found
+      WHERE hops = (SELECT MIN(hops) FROM found)
+      ORDER BY strength DESC, path
+      LIMIT ${limit}
+    )
+    UNION ALL
+    SELECT 'strongest' as kind, * FROM (
+      SELECT * FROM found
+      ORDER BY strength DESC, hops, path
+      LIMIT ${limit}
+    )
+    ORDER BY kind, strength DESC, hops, path
+  `);
+
+  // Resolve every company on a route in one query
+  const ids = [...new Set(rows.flatMap(row => row.path))];
+  const companies =
+    ids.length > 0
+      ? await query<PathCompany>(sql`
+          SELECT id, name, country FROM companies WHERE id IN (${list(ids)})
+        `)
+      : [];
+  const byId = new Map(companies.map(company => [company.id, company]));
+
+  const toPath = (row: PathRow): Path => ({
+    companies: row.path.map(id => byId.get(id)!),
+    legs: row.legs.map(leg => ({
+      ...leg,
+      shipments: Number(leg.shipments),
+      kg: Number(leg.kg),
+    })),
+    hops: Number(row.hops),
+    strength: Number(row.strength),
+  });
+
+  return {
+    status: 'found',
+    paths: {
+      from,
+      to,
+      maxHops,
+      shortest: rows.filter(row => row.kind === 'shortest').map(toPath),
+      strongest: rows.filter(row => row.kind === 'strongest').map(toPath),
+    },
+  };
+}
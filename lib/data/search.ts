@@ -0,0 +1,205 @@
+import { companySearchMatches } from './companies';
+import { getCountries } from './countries';
+import { fuzzyMatches } from './fuzzy';
+import { companyTotals, query } from './shipments';
+import { SqlFragment, raw, sql } from './sql';
+import { countryShapes } from '@/lib/utils/geo';
+import {
+  highlightSpans,
+  searchTerms,
+  textSimilarity,
+} from '@/lib/utils/search';
+import type { CompanyListItem } from '@/types/company';
+import type {
+  SearchField,
+  SearchResult,
+  SuggestResponse,
+  Suggestion,
+} from '@/types/search';
+
+/** Matching texts returned per company */
+const MAX_MATCHES = 3;
+
+interface SearchRow {
+  company: CompanyListItem;
+  score: number;
+  matches: { field: SearchField; text: string }[];
+}
+
+/**
+ * Fuzzy company search over name variants, website domains and traded
+ * commodities (see companySearchMatches()).
+ *
+ * Companies rank by their best match, then by total shipments. Each result
+ * lists its best few matches with the matched words' offsets, so the UI can
+ * highlight them.
+ *
+ * @param q - Search query; words can be misspelt or in any order
+ * @param options.limit - Max companies to return (default: 20)
+ * @param options.offset - Number of companies to skip (default: 0)
+ * @returns Ranked results and the total number of matching companies
+ */
+export async function searchCompanies(
+  q: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ data: SearchResult[]; total: number }> {
+  const terms = searchTerms(q);
+  if (terms.length === 0) {
+    return { data: [], total: 0 };
+  }
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+
+  // Per company: its best score and best few matching texts
+  const ranked = sql`
+    WITH ${companyTotals()},
+    matches AS (${companySearchMatches(terms)}),
+    ranked AS (
+      SELECT
+        company_id,
+        MAX(score) as score,
+        list({ 'field': field, 'text': text } ORDER BY score DESC, field, text)[1:${MAX_MATCHES}] as matches
+      FROM matches
+      GROUP BY company_id
+    )
+  `;
+
+  const countResult = await query<{ total: number }>(sql`
+    ${ranked}
+    SELECT COUNT(*) as total
+    FROM ranked
+    JOIN company_totals totals ON totals.id = ranked.company_id
+  `);
+  const total = Number(countResult[0]?.total ?? 0);
+
+  const rows = await query<SearchRow>(sql`
+    ${ranked}
+    SELECT
+      totals as company,
+      CAST(ROUND(ranked.score, 3) AS DOUBLE) as score,
+      ranked.matches
+    FROM ranked
+    JOIN company_totals totals ON totals.id = ranked.company_id
+    ORDER BY ranked.score DESC, totals.totalShipments DESC, totals.name, totals.id
+    LIMIT ${limit} OFFSET ${offset}
+  `);
+
+  const data = rows.map(row => ({
+    company: row.company,
+    score: row.score,
+    matches: row.matches.map(match => ({
+      ...match,
+      highlights: highlightSpans(match.text, terms),
+    })),
+  }));
+  return { data, total };
+}
+
+/**
+ * Distinct values of a shipments column matching the terms, each with a
+ * metric over the shipments carrying it: total kg, or the shipment count.
+ */
+function columnSuggestions(
+  column: 'commodity_name' | 'industry_sector',
+  terms: string[],
+  metricUnit: Suggestion['metricUnit'],
+  limit: number
+): Promise<Suggestion[]> {
+  const metric: SqlFragment =
+    metricUnit === 'kg'
+      ? sql`CAST(SUM(s.weight_metric_tonnes * 1000) AS BIGINT)`
+      : sql`CAST(COUNT(*) AS INTEGER)`;
+  const documents = sql`
+    SELECT DISTINCT ${raw(column)} as id, ${column} as field, ${raw(column)} as text
+    FROM shipments
+    WHERE ${raw(column)} IS NOT NULL
+  `;
+  return query<Suggestion>(sql`
+    SELECT
+      m.id,
+      m.id as label,
+      NULL as detail,
+      ${metric} as metric,
+      ${metricUnit} as metricUnit
+    FROM (${fuzzyMatches(documents, terms)}) m
+    JOIN shipments s ON s.${raw(column)} = m.id
+    GROUP BY m.id, m.similarity
+    ORDER BY m.similarity DESC, metric DESC, m.id
+    LIMIT ${limit}
+  `);
+}
+
+/**
+ * Typeahead suggestions for the command palette, in four groups:
+ * - **companies** - As searchCompanies(), with total shipments
+ * - **commodities** - Commodity names, with total kg
+ * - **countries** - Country names and codes, with import plus export kg
+ * - **sectors** - Industry sectors, with shipment counts
+ *
+ * Every group uses the same fuzzy matching (see fuzzyMatches()). Country
+ * names only exist in the bundled map data, so countries are matched in
+ * process with textSimilarity().
+ *
+ * @param q - Search query
+ * @param limit - Max suggestions per group (default: 5)
+ * @returns Suggestions per group, best first; all empty if `q` has no words
+ */
+export async function getSuggestions(
+  q: string,
+  limit = 5
+): Promise<Omit<SuggestResponse, 'query'>> {
+  const terms = searchTerms(q);
+  if (terms.length === 0) {
+    return { companies: [], commodities: [], countries: [], sectors: [] };
+  }
+
+  const { data } = await searchCompanies(q, { limit });
+  const companies = data.map(({ company }) => ({
+    id: company.id,
+    label: company.name,
+    detail: company.country,
+    metric: company.totalShipments,
+    metricUnit: 'shipments' as const,
+  }));
+
+  const commodities = await columnSuggestions(
+    'commodity_name',
+    terms,
+    'kg',
+    limit
+  );
+  const sectors = await columnSuggestions(
+    'industry_sector',
+    terms,
+    'shipments',
+    limit
+  );
+
+  const names = new Map(countryShapes().map(shape => [shape.code, shape.name]));
+  const countries = (await getCountries())
+    .map(country => {
+      const name = names.get(country.code) ?? country.code;
+      return {
+        similarity: Math.max(
+          textSimilarity(name, terms),
+          textSimilarity(country.code, terms)
+        ),
+        suggestion: {
+          id: country.code,
+          label: name,
+          detail: country.code,
+          metric: Number(country.importKg) + Number(country.exportKg),
+          metricUnit: 'kg' as const,
+        },
+      };
+    })
+    .filter(({ similarity }) => similarity > 0)
+    .sort(
+      (a, b) =>
+        b.similarity - a.similarity || b.suggestion.metric - a.suggestion.metric
+    )
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+
+  return { companies, commodities, countries, sectors };
+}
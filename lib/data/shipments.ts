@@ -1,57 +1,300 @@
+import fs from 'fs';
 import path from 'path';
 import { DuckDBInstance } from '@duckdb/node-api';
-import { Shipment } from '@/types/shipment';
 import {
+  DateRange,
+  DateRangeQuery,
+  Shipment,
+  ShipmentInput,
+  ShipmentQuery,
+  SHIPMENT_COLUMNS,
+} from '@/types/shipment';
+import {
+  COMPANY_SORTS,
   CompanyListItem,
   CompanyDetail,
+  CompanyFacetQuery,
+  CompanySortQuery,
   StatsResponse,
   TopCommodity,
   MonthlyVolumeItem,
   TradingPartner,
   Commodity,
+  SectorMonthItem,
+  SectorTotal,
 } from '@/types/company';
+import type { ExportJobFormat } from '@/types/export';
+import {
+  SqlFragment,
+  identifier,
+  ilikeContains,
+  join,
+  list,
+  raw,
+  render,
+  sql,
+  where,
+} from './sql';
+import { buildCompanyDimension, companySearchMatches } from './companies';
+import {
+  DataSourceReport,
+  loadDataSource,
+  resolveDataSourceConfig,
+} from './source';
+import { IN_MEMORY, resolveDatabasePath } from './config';
+import { runMigrations } from './migrations';
+import { normalizeCompanyName } from '@/lib/utils/company';
+import { presetRange } from '@/lib/utils/dates';
+import { searchTerms } from '@/lib/utils/search';
 
 let instance: DuckDBInstance | null = null;
-let tableInitialized = false;
+let initialization: Promise<void> | null = null;
+let dataSourceReport: DataSourceReport | null = null;
+let appendQueue: Promise<unknown> = Promise.resolve();
 
+/**
+ * Opens the DuckDB store: in-memory by default, or the file set by
+ * `DUCKDB_PATH` / `coreties.config.json` (see resolveDatabasePath()).
+ */
 async function getInstance(): Promise<DuckDBInstance> {
   if (!instance) {
-    instance = await DuckDBInstance.create(':memory:');
+    const databasePath = resolveDatabasePath();
+    if (databasePath !== IN_MEMORY) {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+    instance = await DuckDBInstance.create(databasePath);
   }
   return instance;
 }
 
 /**
- * Returns raw shipment records with pagination support.
+ * Closes the DuckDB store, flushing a file-backed database to disk. The next
+ * query reopens it and re-runs startup, like a server restart.
+ */
+export async function closeDatabase(): Promise<void> {
+  await Promise.allSettled([initialization, appendQueue]);
+  instance?.closeSync();
+  instance = null;
+  initialization = null;
+  dataSourceReport = null;
+}
+
+/**
+ * Inclusive `shipment_date` bounds for a date range, as conditions.
+ * An empty range yields no conditions.
+ */
+function dateRangeConditions(range?: DateRange): SqlFragment[] {
+  const conditions: SqlFragment[] = [];
+  if (range?.from) {
+    conditions.push(sql`shipment_date >= CAST(${range.from} AS DATE)`);
+  }
+  if (range?.to) {
+    conditions.push(sql`shipment_date <= CAST(${range.to} AS DATE)`);
+  }
+  return conditions;
+}
+
+/** A single boolean expression for a date range - `TRUE` when unbounded */
+export function inDateRange(range?: DateRange): SqlFragment {
+  const conditions = dateRangeConditions(range);
+  return conditions.length > 0 ? join(conditions, ' AND ') : raw('TRUE');
+}
+
+/** Case-insensitive match on `industry_sector` */
+export function inSector(sector: string): SqlFragment {
+  return sql`lower(industry_sector) = lower(${sector})`;
+}
+
+/**
+ * Resolves `from`/`to`/`preset` query parameters to a concrete date range.
+ *
+ * Presets are anchored to the most recent shipment rather than today, so a
+ * historical extract still gets a meaningful "last 30 days".
+ *
+ * @returns Inclusive `from`/`to` dates; either may be undefined (unbounded)
+ */
+export async function resolveDateRange(
+  range: DateRangeQuery
+): Promise<DateRange> {
+  if (!range.preset) {
+    return { from: range.from, to: range.to };
+  }
+
+  const latest = await query<{ date: string | null }>(sql`
+    SELECT strftime(MAX(shipment_date), '%Y-%m-%d') as date FROM shipments
+  `);
+  const anchor = latest[0]?.date ?? new Date().toISOString().slice(0, 10);
+  return presetRange(range.preset, anchor);
+}
+
+/**
+ * Translates shipment filters into parameterized WHERE conditions.
+ *
+ * Every user-supplied value is bound as a parameter; only fixed column
+ * names are written into the SQL text itself.
+ */
+function buildShipmentWhere(filters: Partial<ShipmentQuery>): SqlFragment {
+  const conditions: SqlFragment[] = [];
+
+  if (filters.importer) {
+    conditions.push(ilikeContains(raw('importer_name'), filters.importer));
+  }
+  if (filters.exporter) {
+    conditions.push(ilikeContains(raw('exporter_name'), filters.exporter));
+  }
+  if (filters.commodity) {
+    conditions.push(ilikeContains(raw('commodity_name'), filters.commodity));
+  }
+  if (filters.sector) {
+    conditions.push(inSector(filters.sector));
+  }
+  if (filters.importerCountry?.length) {
+    conditions.push(
+      sql`importer_country IN (${list(filters.importerCountry)})`
+    );
+  }
+  if (filters.exporterCountry?.length) {
+    conditions.push(
+      sql`exporter_country IN (${list(filters.exporterCountry)})`
+    );
+  }
+  conditions.push(...dateRangeConditions(filters));
+  if (filters.minWeight !== undefined) {
+    conditions.push(sql`weight_metric_tonnes >= ${filters.minWeight}`);
+  }
+  if (filters.maxWeight !== undefined) {
+    conditions.push(sql`weight_metric_tonnes <= ${filters.maxWeight}`);
+  }
+
+  return where(conditions);
+}
+
+/**
+ * Returns raw shipment records with filtering, sorting and pagination.
  *
  * Used by the /api/shipments endpoint to display the base shipment data.
- * Results are ordered by shipment_date DESC (most recent first).
+ * Results are ordered by shipment_date DESC (most recent first) unless a
+ * `sort` column is given; `id` breaks ties so pages are stable.
  *
  * @param options.limit - Max shipments to return (default: 100)
  * @param options.offset - Number of shipments to skip for pagination (default: 0)
- * @returns Paginated shipment list with total count for pagination UI
+ * @param options.sort - Any Shipment column to order by (default: shipment_date)
+ * @param options.order - Sort direction (default: desc)
+ * @param options - Remaining fields are ShipmentQuery filters, all optional
+ * @returns Paginated shipment list with total count of matching rows
  */
-export async function loadShipments(options?: {
-  limit?: number;
-  offset?: number;
-}): Promise<{ data: Shipment[]; total: number }> {
+export async function loadShipments(
+  options?: Partial<ShipmentQuery> & {
+    limit?: number;
+    offset?: number;
+  }
+): Promise<{ data: Shipment[]; total: number }> {
   const limit = options?.limit ?? 100;
   const offset = options?.offset ?? 0;
 
+  const whereClause = buildShipmentWhere(options ?? {});
+
   const countResult = await query<{ total: number }>(
-    `SELECT COUNT(*) as total FROM shipments`
+    sql`SELECT COUNT(*) as total FROM shipments ${whereClause}`
   );
   const total = countResult[0]?.total ?? 0;
 
-  const data = await query<Shipment>(`
-    SELECT * FROM shipments
-    ORDER BY shipment_date DESC
+  const data = await query<Shipment>(sql`
+    ${shipmentList(options ?? {})}
     LIMIT ${limit} OFFSET ${offset}
   `);
 
   return { data, total };
 }
 
+/**
+ * Every shipment matching `filters`, in loadShipments() order, as a SELECT
+ * without LIMIT - e.g. for copyToFile().
+ */
+export function shipmentList(filters: Partial<ShipmentQuery>): SqlFragment {
+  const order = raw(filters.order === 'asc' ? 'ASC' : 'DESC');
+  const sortColumn = identifier(
+    filters.sort ?? 'shipment_date',
+    SHIPMENT_COLUMNS
+  );
+  return sql`
+    SELECT * FROM shipments
+    ${buildShipmentWhere(filters)}
+    ORDER BY ${sortColumn} ${order}, id ${order}
+  `;
+}
+
+/**
+ * Per-company totals across both roles, keyed by company ID.
+ *
+ * Counts each shipment once for the importer and once for the exporter via
+ * the `shipment_parties` view, so name variants of the same company are
+ * already merged. Exposes `id, name, country, role, totalShipments,
+ * totalWeight, firstShipment, lastShipment`. Only shipments inside `range`
+ * (and in `sector`, when given) count - including for the role and the first
+ * and last shipment dates; companies with none are left out.
+ *
+ * @param sector - Optional industry sector, matched case-insensitively
+ * @returns A `company_totals AS (...)` CTE to place after `WITH`
+ */
+export function companyTotals(range?: DateRange, sector?: string): SqlFragment {
+  const inScope = inCompanyScope(range, sector);
+  return sql`
+    company_totals AS (
+      WITH importers AS (
+        SELECT
+          importer_id as id,
+          'importer' as role,
+          COUNT(*) as shipments,
+          SUM(weight_metric_tonnes * 1000) as weight,
+          MIN(shipment_date) as first_date,
+          MAX(shipment_date) as last_date
+        FROM shipment_parties
+        WHERE ${inScope}
+        GROUP BY importer_id
+      ),
+      exporters AS (
+        SELECT
+          exporter_id as id,
+          'exporter' as role,
+          COUNT(*) as shipments,
+          SUM(weight_metric_tonnes * 1000) as weight,
+          MIN(shipment_date) as first_date,
+          MAX(shipment_date) as last_date
+        FROM shipment_parties
+        WHERE ${inScope}
+        GROUP BY exporter_id
+      )
+      SELECT
+        c.id,
+        c.name,
+        c.country,
+        CASE WHEN COUNT(*) = 2 THEN 'both' ELSE ANY_VALUE(role) END as role,
+        CAST(SUM(shipments) AS INTEGER) as totalShipments,
+        CAST(SUM(weight) AS INTEGER) as totalWeight,
+        strftime(MIN(first_date), '%Y-%m-%d') as firstShipment,
+        strftime(MAX(last_date), '%Y-%m-%d') as lastShipment
+      FROM (
+        SELECT * FROM importers
+        UNION ALL
+        SELECT * FROM exporters
+      ) combined
+      JOIN companies c USING (id)
+      GROUP BY c.id, c.name, c.country
+    )
+  `;
+}
+
+/** Shipments counted towards company totals: in `range` and `sector` */
+export function inCompanyScope(
+  range?: DateRange,
+  sector?: string
+): SqlFragment {
+  return sector
+    ? sql`${inDateRange(range)} AND ${inSector(sector)}`
+    : inDateRange(range);
+}
+
 /**
  * Transforms raw shipment records into company-level aggregates (unpaginated).
  *
@@ -59,245 +302,405 @@ export async function loadShipments(options?: {
  * Used primarily for testing to verify the CTE + UNION ALL aggregation logic.
  *
  * Companies appearing as both importer and exporter are merged into single rows
- * with combined totalShipments and totalWeight across both roles.
+ * with combined totalShipments and totalWeight across both roles. Name variants
+ * that resolve to the same company ID are merged too.
  *
  * @returns All companies sorted by totalShipments DESC
  */
 export async function transformShipmentsToCompanies(): Promise<
   CompanyListItem[]
 > {
-  return query<CompanyListItem>(`
-    WITH importers AS (
-      SELECT
-        importer_name as name,
-        importer_country as country,
-        COUNT(*) as shipments,
-        CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as weight
-      FROM shipments
-      GROUP BY importer_name, importer_country
-    ),
-    exporters AS (
-      SELECT
-        exporter_name as name,
-        exporter_country as country,
-        COUNT(*) as shipments,
-        CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as weight
-      FROM shipments
-      GROUP BY exporter_name, exporter_country
-    )
-    SELECT
-      name,
-      country,
-      CAST(SUM(shipments) AS INTEGER) as totalShipments,
-      CAST(SUM(weight) AS INTEGER) as totalWeight
-    FROM (
-      SELECT * FROM importers
-      UNION ALL
-      SELECT * FROM exporters
-    ) combined
-    GROUP BY name, country
-    ORDER BY totalShipments DESC
+  return query<CompanyListItem>(sql`
+    WITH ${companyTotals()}
+    SELECT * FROM company_totals
+    ORDER BY totalShipments DESC, name
   `);
 }
 
 /**
  * Returns aggregated statistics for the dashboard cards and chart.
  *
- * Fetches three independent metrics in parallel-safe queries:
- * - **totalImporters/totalExporters**: COUNT(DISTINCT) on name columns
+ * Fetches five independent metrics in parallel-safe queries:
+ * - **totalImporters/totalExporters**: COUNT(DISTINCT) on company IDs
  * - **topCommodities**: Top 5 commodities ranked by total weight (kg)
  * - **monthlyVolume**: Shipment weight aggregated by month for the bar chart
+ * - **sectors**: Weight and shipments per industry sector, heaviest first
+ * - **sectorMonthly**: Each sector's weight and share of the month's weight
  *
  * Note: A company can be counted in BOTH totalImporters and totalExporters
  * if it appears in both roles—these are not mutually exclusive counts.
  *
+ * @param range - Optional date range; all metrics cover only shipments
+ *   inside it (default: the whole dataset)
+ * @param sector - Optional industry sector to segment every metric by
  * @returns Dashboard stats object matching StatsResponse schema
  */
-export async function getCompanyStats(): Promise<StatsResponse> {
+export async function getCompanyStats(
+  range?: DateRange,
+  sector?: string
+): Promise<StatsResponse> {
+  const whereClause = where([
+    ...dateRangeConditions(range),
+    ...(sector ? [inSector(sector)] : []),
+  ]);
+
   // Get company counts
   const counts = await query<{
     total_importers: number;
     total_exporters: number;
-  }>(`
+  }>(sql`
     SELECT
-      COUNT(DISTINCT importer_name) as total_importers,
-      COUNT(DISTINCT exporter_name) as total_exporters
-    FROM shipments
+      COUNT(DISTINCT importer_id) as total_importers,
+      COUNT(DISTINCT exporter_id) as total_exporters
+    FROM shipment_parties
+    ${whereClause}
   `);
 
   // Get top 5 commodities by weight
-  const topCommodities = await query<TopCommodity>(`
+  const topCommodities = await query<TopCommodity>(sql`
     SELECT
       commodity_name as commodity,
       CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as kg
     FROM shipments
+    ${whereClause}
     GROUP BY commodity_name
     ORDER BY kg DESC
     LIMIT 5
   `);
 
   // Get monthly volume
-  const monthlyVolume = await query<MonthlyVolumeItem>(`
+  const monthlyVolume = await query<MonthlyVolumeItem>(sql`
     SELECT
       strftime(CAST(MIN(shipment_date) AS DATE), '%b %Y') as month,
       CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as kg
     FROM shipments
+    ${whereClause}
     GROUP BY strftime(CAST(shipment_date AS DATE), '%Y-%m')
     ORDER BY strftime(CAST(MIN(shipment_date) AS DATE), '%Y-%m')
   `);
 
+  // Get weight and shipments per sector
+  const sectors = await query<SectorTotal>(sql`
+    SELECT
+      industry_sector as sector,
+      CAST(COUNT(*) AS INTEGER) as shipments,
+      CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as kg
+    FROM shipments
+    ${whereClause}
+    GROUP BY industry_sector
+    ORDER BY kg DESC, sector
+  `);
+
+  // Get each sector's share of monthly weight
+  const sectorMonthly = await query<SectorMonthItem>(sql`
+    WITH monthly AS (
+      SELECT
+        date_trunc('month', shipment_date) as month_start,
+        industry_sector as sector,
+        SUM(weight_metric_tonnes * 1000) as kg
+      FROM shipments
+      ${whereClause}
+      GROUP BY ALL
+    )
+    SELECT
+      strftime(month_start, '%b %Y') as month,
+      sector,
+      CAST(kg AS INTEGER) as kg,
+      kg / SUM(kg) OVER (PARTITION BY month_start) as share
+    FROM monthly
+    ORDER BY month_start, sector
+  `);
+
   return {
     totalImporters: counts[0]?.total_importers ?? 0,
     totalExporters: counts[0]?.total_exporters ?? 0,
     topCommodities,
     monthlyVolume,
+    sectors,
+    sectorMonthly,
   };
 }
 
+/** Filters and sort order accepted by getCompanies() and companyList() */
+export type CompanyFilters = {
+  search?: string;
+  q?: string;
+  country?: string[];
+  sector?: string;
+} & DateRange &
+  CompanyFacetQuery &
+  Partial<CompanySortQuery>;
+
 /**
  * Returns a paginated list of companies with aggregated shipment statistics.
  *
  * Companies can appear as both importers and exporters in the shipments data.
- * This function uses CTE + UNION ALL to merge both roles, then GROUP BY (name, country)
- * to deduplicate and sum totals across roles. A company that imported 10 shipments
- * and exported 5 will show totalShipments: 15.
+ * Totals come from the company_totals CTE, which merges both roles (and every
+ * name variant) per company ID. A company that imported 10 shipments and
+ * exported 5 will show totalShipments: 15.
  *
- * Results are sorted by totalShipments DESC (most active companies first).
+ * Results are sorted by totalShipments DESC (most active companies first),
+ * or by relevance when `q` is given, unless a `sort` column is given; name
+ * and then `id` break ties so pages are stable.
  *
  * @param options.limit - Max companies to return (default: 100)
  * @param options.offset - Number of companies to skip for pagination (default: 0)
- * @param options.search - Optional search string to filter companies by name (case-insensitive)
- * @returns Paginated company list with total count for pagination UI
+ * @param options.q - Optional fuzzy search over names, websites and
+ *   commodities (see companySearchMatches()); ranks by relevance unless a
+ *   `sort` is given
+ * @param options.search - Optional search string matched against the display
+ *   name and every known name variant (case-insensitive)
+ * @param options.country - Only companies based in one of these country codes
+ * @param options.role - Only companies with one of these roles
+ * @param options.commodity - Only companies that traded one of these
+ *   commodities (exact names)
+ * @param options.minShipments - Only companies with at least this many shipments
+ * @param options.minWeight - Only companies with at least this total weight (kg)
+ * @param options.sector - Only count shipments in this industry sector
+ * @param options.from - Earliest shipment date to count, inclusive (YYYY-MM-DD)
+ * @param options.to - Latest shipment date to count, inclusive (YYYY-MM-DD)
+ * @param options.sort - Column to order by (default: relevance with `q`,
+ *   else totalShipments)
+ * @param options.order - Sort direction (default: desc)
+ * @returns Paginated company list with total count for pagination UI. With a
+ *   date range, only companies with shipments inside it are listed.
  */
-export async function getCompanies(options?: {
-  limit?: number;
-  offset?: number;
-  search?: string;
-}): Promise<{ data: CompanyListItem[]; total: number }> {
+export async function getCompanies(
+  options?: {
+    limit?: number;
+    offset?: number;
+  } & CompanyFilters
+): Promise<{ data: CompanyListItem[]; total: number }> {
   const limit = options?.limit ?? 100;
   const offset = options?.offset ?? 0;
-  const search = options?.search;
-
-  // Build WHERE clause for search filtering
-  const searchClause = search
-    ? `WHERE name ILIKE '%${search.replace(/'/g, "''")}%'`
-    : '';
-
-  // Get total count of unique companies (with optional search filter)
-  const countResult = await query<{ total: number }>(`
-    SELECT COUNT(*) as total FROM (
-      SELECT name, country FROM (
-        SELECT DISTINCT name, country FROM (
-          SELECT importer_name as name, importer_country as country FROM shipments
-          UNION
-          SELECT exporter_name as name, exporter_country as country FROM shipments
-        )
-      )
-      ${searchClause}
-    )
+
+  // Get total count of companies (with optional search and date filters)
+  const countResult = await query<{ total: number }>(sql`
+    WITH ${companyTotals(options, options?.sector)}
+    SELECT COUNT(*) as total FROM company_totals
+    ${buildCompanyWhere(options ?? {})}
   `);
   const total = countResult[0]?.total ?? 0;
 
   // Get paginated company list (with optional search filter)
-  const data = await query<CompanyListItem>(`
-    WITH importers AS (
-      SELECT
-        importer_name as name,
-        importer_country as country,
-        COUNT(*) as shipments,
-        CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as weight
-      FROM shipments
-      GROUP BY importer_name, importer_country
-    ),
-    exporters AS (
-      SELECT
-        exporter_name as name,
-        exporter_country as country,
-        COUNT(*) as shipments,
-        CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as weight
-      FROM shipments
-      GROUP BY exporter_name, exporter_country
-    ),
-    combined AS (
-      SELECT
-        name,
-        country,
-        CAST(SUM(shipments) AS INTEGER) as totalShipments,
-        CAST(SUM(weight) AS INTEGER) as totalWeight
-      FROM (
-        SELECT * FROM importers
-        UNION ALL
-        SELECT * FROM exporters
-      ) all_companies
-      GROUP BY name, country
-    )
-    SELECT * FROM combined
-    ${searchClause}
-    ORDER BY totalShipments DESC
+  const data = await query<CompanyListItem>(sql`
+    ${companyList(options ?? {})}
     LIMIT ${limit} OFFSET ${offset}
   `);
 
   return { data, total };
 }
 
+/**
+ * WHERE clause over `company_totals` for search and the facet filters
+ * (wildcards in `search` are literal; a `q` without words matches nothing).
+ * Roles, commodities and minimums are judged on the shipments company_totals
+ * counts, i.e. within the date range and sector.
+ */
+export function buildCompanyWhere(filters: CompanyFilters): SqlFragment {
+  const conditions: SqlFragment[] = [];
+  if (filters.search) {
+    conditions.push(sql`id IN (
+      SELECT company_id FROM company_name_map
+      WHERE ${ilikeContains(raw('name'), filters.search)}
+    )`);
+  }
+  if (filters.q !== undefined) {
+    const terms = searchTerms(filters.q);
+    conditions.push(
+      terms.length > 0
+        ? sql`id IN (SELECT company_id FROM (${companySearchMatches(terms)}))`
+        : raw('FALSE')
+    );
+  }
+  if (filters.country?.length) {
+    conditions.push(sql`country IN (${list(filters.country)})`);
+  }
+  if (filters.role?.length) {
+    conditions.push(sql`role IN (${list(filters.role)})`);
+  }
+  if (filters.commodity?.length) {
+    const inScope = inCompanyScope(filters, filters.sector);
+    conditions.push(sql`id IN (
+      SELECT importer_id FROM shipment_parties
+      WHERE ${inScope} AND commodity_name IN (${list(filters.commodity)})
+      UNION
+      SELECT exporter_id FROM shipment_parties
+      WHERE ${inScope} AND commodity_name IN (${list(filters.commodity)})
+    )`);
+  }
+  if (filters.minShipments !== undefined) {
+    conditions.push(sql`totalShipments >= ${filters.minShipments}`);
+  }
+  if (filters.minWeight !== undefined) {
+    conditions.push(sql`totalWeight >= ${filters.minWeight}`);
+  }
+  return where(conditions);
+}
+
+/**
+ * Every company matching `filters`, in getCompanies() order, as a SELECT
+ * without LIMIT - e.g. for copyToFile().
+ */
+export function companyList(filters: CompanyFilters): SqlFragment {
+  const order = raw(filters.order === 'asc' ? 'ASC' : 'DESC');
+  const sortColumn = identifier(
+    filters.sort ?? 'totalShipments',
+    COMPANY_SORTS
+  );
+  const terms = filters.q && !filters.sort ? searchTerms(filters.q) : [];
+  if (terms.length > 0) {
+    // Ranked by each company's best search match
+    return sql`
+      WITH ${companyTotals(filters, filters.sector)},
+      relevance AS (
+        SELECT company_id, MAX(score) as score
+        FROM (${companySearchMatches(terms)})
+        GROUP BY company_id
+      )
+      SELECT company_totals.* FROM company_totals
+      JOIN relevance ON relevance.company_id = company_totals.id
+      ${buildCompanyWhere(filters)}
+      ORDER BY relevance.score ${order}, totalShipments DESC, name, id
+    `;
+  }
+  return sql`
+    WITH ${companyTotals(filters, filters.sector)}
+    SELECT * FROM company_totals
+    ${buildCompanyWhere(filters)}
+    ORDER BY ${sortColumn} ${order}, name, id
+  `;
+}
+
+/**
+ * Resolves a company name to its company ID.
+ *
+ * Tries, in order: the display name, any raw name variant seen in shipments,
+ * then the normalized name (so casing, punctuation and legal-suffix variants
+ * still match). Merged companies resolve to the company they were merged
+ * into. When a name exists in several countries, the company with the most
+ * shipments wins.
+ *
+ * @param companyName - Company name as shown in the UI or the raw data
+ * @returns The company ID, or null if no company matches
+ */
+export async function resolveCompanyId(
+  companyName: string
+): Promise<string | null> {
+  const matches = await query<{ id: string }>(sql`
+    WITH ${companyTotals()},
+    candidates AS (
+      SELECT id, 0 as rank FROM canonical_companies WHERE name = ${companyName}
+      UNION ALL
+      SELECT company_id, 1 FROM company_name_map WHERE name = ${companyName}
+      UNION ALL
+      SELECT ids.canonical_id, 2
+      FROM companies c
+      JOIN company_ids ids USING (id)
+      WHERE c.normalized_name = ${normalizeCompanyName(companyName)}
+    )
+    SELECT candidates.id
+    FROM candidates
+    JOIN company_totals USING (id)
+    ORDER BY rank, totalShipments DESC, candidates.id
+    LIMIT 1
+  `);
+
+  return matches[0]?.id ?? null;
+}
+
 /**
  * Returns detailed information for a specific company by name.
  *
- * Uses 3 optimized queries instead of N+1 pattern:
- * 1. **Company stats** - UNION of importer and exporter roles to get totals
- * 2. **Trading partners** - Top 5 companies this company trades with (both directions)
- * 3. **Top commodities** - Top 5 commodities by weight for this company
+ * The name is resolved with resolveCompanyId() and the lookup delegates to
+ * getCompanyDetailById(), so any known name variant returns the same company.
+ *
+ * @param companyName - Company name (display name or any raw variant)
+ * @param range - Optional date range for totals, partners and commodities
+ * @returns CompanyDetail object, or null if company not found
+ */
+export async function getCompanyDetail(
+  companyName: string,
+  range?: DateRange
+): Promise<CompanyDetail | null> {
+  const id = await resolveCompanyId(companyName);
+  return id ? getCompanyDetailById(id, range) : null;
+}
+
+/**
+ * Returns detailed information for a specific company by its stable ID.
+ *
+ * Uses 5 optimized queries instead of N+1 pattern:
+ * 1. **Company stats** - Identity row plus importer and exporter role totals
+ * 2. **Name variants** - Every raw name mapped onto this company
+ * 3. **Trading partners** - Top 5 companies this company trades with (both directions)
+ * 4. **Top commodities** - Top 5 commodities by weight for this company
+ * 5. **Sector mix** - Weight and shipments per industry sector
  *
  * The `role` field is derived at runtime from query results:
  * - 'importer' if only appears as importer
  * - 'exporter' if only appears as exporter
  * - 'both' if appears in both roles
  *
- * SQL injection is prevented by escaping single quotes in the company name.
+ * The role always reflects the company's whole history. With a date range,
+ * totals, partners and commodities only count shipments inside it, so a
+ * company with no activity in the range returns zero totals rather than null.
  *
- * @param companyName - The exact company name to look up
+ * The ID is always passed as a bound parameter, never spliced into SQL. An
+ * ID that was merged into another company returns that company's detail.
+ *
+ * @param companyId - Company ID from the companies dimension (e.g. "mann-hummel-mexico-us")
+ * @param range - Optional date range (default: the whole dataset)
  * @returns CompanyDetail object, or null if company not found
  */
-export async function getCompanyDetail(
-  companyName: string
+export async function getCompanyDetailById(
+  companyId: string,
+  range?: DateRange
 ): Promise<CompanyDetail | null> {
-  const escapedName = companyName.replace(/'/g, "''");
+  const inRange = inDateRange(range);
+  const canonical = await query<{ canonical_id: string }>(sql`
+    SELECT canonical_id FROM company_ids WHERE id = ${companyId}
+  `);
+  const id = canonical[0]?.canonical_id ?? companyId;
 
-  // Query 1: Get company stats as both importer and exporter in one query
+  // Query 1: Get company identity and stats as both importer and exporter
   const companyStats = await query<{
-    role: string;
+    name: string;
+    normalized_name: string;
     country: string;
-    website: string;
+    website: string | null;
+    role: string;
     shipments: number;
     weight: number;
-  }>(`
+  }>(sql`
     SELECT
-      role,
-      country,
-      website,
-      CAST(shipments AS INTEGER) as shipments,
-      CAST(weight AS INTEGER) as weight
-    FROM (
+      c.name,
+      c.normalized_name,
+      c.country,
+      c.website,
+      roles.role,
+      CAST(roles.shipments AS INTEGER) as shipments,
+      CAST(roles.weight AS INTEGER) as weight
+    FROM companies c
+    JOIN (
       SELECT
         'importer' as role,
-        importer_country as country,
-        importer_website as website,
-        COUNT(*) as shipments,
-        SUM(weight_metric_tonnes * 1000) as weight
-      FROM shipments
-      WHERE importer_name = '${escapedName}'
-      GROUP BY importer_country, importer_website
+        importer_id as id,
+        COUNT(*) FILTER (WHERE ${inRange}) as shipments,
+        COALESCE(SUM(weight_metric_tonnes * 1000) FILTER (WHERE ${inRange}), 0) as weight
+      FROM shipment_parties
+      WHERE importer_id = ${id}
+      GROUP BY importer_id
       UNION ALL
       SELECT
         'exporter' as role,
-        exporter_country as country,
-        exporter_website as website,
-        COUNT(*) as shipments,
-        SUM(weight_metric_tonnes * 1000) as weight
-      FROM shipments
-      WHERE exporter_name = '${escapedName}'
-      GROUP BY exporter_country, exporter_website
-    )
+        exporter_id as id,
+        COUNT(*) FILTER (WHERE ${inRange}) as shipments,
+        COALESCE(SUM(weight_metric_tonnes * 1000) FILTER (WHERE ${inRange}), 0) as weight
+      FROM shipment_parties
+      WHERE exporter_id = ${id}
+      GROUP BY exporter_id
+    ) roles USING (id)
   `);
 
   if (companyStats.length === 0) {
@@ -312,49 +715,66 @@ export async function getCompanyDetail(
 
   const totalShipments = companyStats.reduce((sum, s) => sum + s.shipments, 0);
   const totalWeight = companyStats.reduce((sum, s) => sum + s.weight, 0);
-  const country = companyStats[0]?.country ?? '';
-  const website = companyStats.find(s => s.website)?.website;
+  const { name, normalized_name, country, website } = companyStats[0];
+
+  // Query 2: Get every raw name variant mapped onto this company
+  const aliases = await query<{ name: string }>(sql`
+    SELECT DISTINCT name FROM company_name_map
+    WHERE company_id = ${id}
+    ORDER BY name
+  `);
 
-  // Query 2: Get all trading partners in one query (both import and export partners)
-  const allPartners = await query<TradingPartner>(`
-    SELECT name, country, CAST(SUM(shipments) AS INTEGER) as shipments
+  // Query 3: Get all trading partners in one query (both import and export partners)
+  const allPartners = await query<TradingPartner>(sql`
+    SELECT c.id, c.name, c.country, CAST(SUM(shipments) AS INTEGER) as shipments
     FROM (
-      SELECT
-        exporter_name as name,
-        exporter_country as country,
-        COUNT(*) as shipments
-      FROM shipments
-      WHERE importer_name = '${escapedName}'
-      GROUP BY exporter_name, exporter_country
+      SELECT exporter_id as id, COUNT(*) as shipments
+      FROM shipment_parties
+      WHERE importer_id = ${id} AND ${inRange}
+      GROUP BY exporter_id
       UNION ALL
-      SELECT
-        importer_name as name,
-        importer_country as country,
-        COUNT(*) as shipments
-      FROM shipments
-      WHERE exporter_name = '${escapedName}'
-      GROUP BY importer_name, importer_country
-    )
-    GROUP BY name, country
-    ORDER BY shipments DESC
+      SELECT importer_id as id, COUNT(*) as shipments
+      FROM shipment_parties
+      WHERE exporter_id = ${id} AND ${inRange}
+      GROUP BY importer_id
+    ) partners
+    JOIN companies c USING (id)
+    GROUP BY c.id, c.name, c.country
+    ORDER BY shipments DESC, c.name
     LIMIT 5
   `);
 
-  // Query 3: Get top commodities for this company
-  const topCommodities = await query<Commodity>(`
+  // Query 4: Get top commodities for this company
+  const topCommodities = await query<Commodity>(sql`
     SELECT
       commodity_name as name,
       CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as kg
-    FROM shipments
-    WHERE importer_name = '${escapedName}'
-       OR exporter_name = '${escapedName}'
+    FROM shipment_parties
+    WHERE (importer_id = ${id} OR exporter_id = ${id})
+      AND ${inRange}
     GROUP BY commodity_name
     ORDER BY kg DESC
     LIMIT 5
   `);
 
+  // Query 5: Get this company's mix of industry sectors
+  const sectorMix = await query<SectorTotal>(sql`
+    SELECT
+      industry_sector as sector,
+      CAST(COUNT(*) AS INTEGER) as shipments,
+      CAST(SUM(weight_metric_tonnes * 1000) AS INTEGER) as kg
+    FROM shipment_parties
+    WHERE (importer_id = ${id} OR exporter_id = ${id})
+      AND ${inRange}
+    GROUP BY industry_sector
+    ORDER BY kg DESC, sector
+  `);
+
   return {
-    name: companyName,
+    id,
+    name,
+    normalizedName: normalized_name,
+    aliases: aliases.map(a => a.name),
     country,
     website: website || undefined,
     role,
@@ -362,71 +782,303 @@ export async function getCompanyDetail(
     totalWeight,
     topTradingPartners: allPartners,
     topCommodities,
+    sectorMix,
   };
 }
 
 /**
- * Initializes the DuckDB `shipments` table from the JSON data file.
+ * Prepares the store before the first query.
  *
  * Called automatically before each query—you don't need to call this directly.
- * Uses DuckDB's `read_json_auto()` for zero-config JSON ingestion.
  *
- * Also creates indexes on frequently-filtered columns for query performance:
- * - `idx_importer_name` - Used by company detail and aggregation queries
- * - `idx_exporter_name` - Used by company detail and aggregation queries
- * - `idx_shipment_date` - Used by date ordering and monthly aggregation
+ * 1. Runs pending schema migrations (see runMigrations()), which create the
+ *    `shipments` table, its indexes and the companies dimension tables.
+ * 2. If `shipments` is empty, loads and validates shipments from the
+ *    configured data source (see resolveDataSourceConfig() and
+ *    loadDataSource()). Rejected rows are logged and kept in the report
+ *    returned by getDataSourceReport(). A file-backed store that already has
+ *    shipments is not reloaded, so imported rows survive restarts.
+ * 3. Rebuilds the companies dimension (see buildCompanyDimension()).
  *
- * Initialization is idempotent—subsequent calls are no-ops.
+ * Initialization is idempotent—concurrent and subsequent calls share the
+ * same in-flight promise. A failed attempt is retried on the next call.
  */
-async function ensureTableInitialized(): Promise<void> {
-  if (tableInitialized) return;
+function ensureTableInitialized(): Promise<void> {
+  if (!initialization) {
+    initialization = initializeTables().catch(error => {
+      initialization = null;
+      throw error;
+    });
+  }
+  return initialization;
+}
 
+async function initializeTables(): Promise<void> {
   const db = await getInstance();
   const connection = await db.connect();
-  const filePath = path.join(process.cwd(), 'data', 'shipments.json');
 
-  await connection.run(`
-    CREATE TABLE IF NOT EXISTS shipments AS
-    SELECT * FROM read_json_auto('${filePath}')
-  `);
+  try {
+    await runMigrations(connection);
 
-  // Add indexes for frequently queried columns
-  await connection.run(`
-    CREATE INDEX IF NOT EXISTS idx_importer_name ON shipments(importer_name)
-  `);
-  await connection.run(`
-    CREATE INDEX IF NOT EXISTS idx_exporter_name ON shipments(exporter_name)
-  `);
-  await connection.run(`
-    CREATE INDEX IF NOT EXISTS idx_shipment_date ON shipments(shipment_date)
-  `);
+    const reader = await connection.runAndReadAll(
+      'SELECT CAST(COUNT(*) AS INTEGER) as total FROM shipments'
+    );
+    const [{ total }] = reader.getRowObjectsJson() as unknown as {
+      total: number;
+    }[];
 
-  connection.closeSync();
-  tableInitialized = true;
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      if (total === 0) {
+        const report = await loadDataSource(
+          connection,
+          resolveDataSourceConfig()
+        );
+        if (report.rowsRejected > 0) {
+          console.warn(
+            `Rejected ${report.rowsRejected} of ${report.rowsRead} shipments from ${report.source.path}:`,
+            report.errors.slice(0, 10)
+          );
+        }
+        dataSourceReport = report;
+      }
+
+      await buildCompanyDimension(connection);
+      await connection.run('COMMIT');
+    } catch (error) {
+      await connection.run('ROLLBACK');
+      throw error;
+    }
+  } finally {
+    connection.closeSync();
+  }
+}
+
+/** Rows per INSERT statement when appending shipments */
+const APPEND_BATCH_SIZE = 500;
+
+/**
+ * Appends validated shipments to the `shipments` table.
+ *
+ * Records whose `id` is already stored are skipped and reported back. After
+ * inserting, the companies dimension is rebuilt in the same transaction, so
+ * new importers/exporters appear in getCompanies() and getCompanyStats() as
+ * soon as this resolves. Appends run one at a time; a failure rolls back the
+ * whole batch.
+ *
+ * @param shipments - Records already validated with ShipmentSchema and
+ *   deduplicated among themselves
+ * @returns IDs that were inserted and IDs skipped as already present
+ */
+export function appendShipments(
+  shipments: ShipmentInput[]
+): Promise<{ inserted: string[]; duplicates: string[] }> {
+  return enqueueWrite(() => insertShipments(shipments));
+}
+
+/** Runs `task` after every earlier write has settled */
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const write = appendQueue.then(task);
+  appendQueue = write.catch(() => undefined);
+  return write;
+}
+
+/** Runs a statement on a transaction's connection (see writeTransaction()) */
+export type TransactionQuery = <T>(statement: SqlFragment) => Promise<T[]>;
+
+/**
+ * Runs `work` in one transaction on one connection, queued behind imports
+ * and other writes so they never interleave. Reads made through `run` see
+ * the transaction's own writes; if `work` throws, everything rolls back.
+ *
+ * @param work - Reads and writes through `run`; its result is returned
+ */
+export function writeTransaction<T>(
+  work: (run: TransactionQuery) => Promise<T>
+): Promise<T> {
+  return enqueueWrite(async () => {
+    await ensureTableInitialized();
+    const db = await getInstance();
+    const connection = await db.connect();
+
+    try {
+      await connection.run('BEGIN TRANSACTION');
+      const result = await work(async <R>(statement: SqlFragment) => {
+        const { text, values } = render(statement);
+        const reader = await connection.runAndReadAll(text, values);
+        return reader.getRowObjectsJson() as unknown as R[];
+      });
+      await connection.run('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.run('ROLLBACK');
+      throw error;
+    } finally {
+      connection.closeSync();
+    }
+  });
+}
+
+async function insertShipments(
+  shipments: ShipmentInput[]
+): Promise<{ inserted: string[]; duplicates: string[] }> {
+  await ensureTableInitialized();
+  if (shipments.length === 0) {
+    return { inserted: [], duplicates: [] };
+  }
+
+  const db = await getInstance();
+  const connection = await db.connect();
+
+  try {
+    await connection.run('BEGIN TRANSACTION');
+
+    const lookup = render(
+      sql`SELECT id FROM shipments WHERE id IN (${list(shipments.map(s => s.id))})`
+    );
+    const existing = await connection.runAndReadAll(lookup.text, lookup.values);
+    const existingIds = new Set(
+      (existing.getRowObjectsJson() as unknown as { id: string }[]).map(
+        row => row.id
+      )
+    );
+    const rows = shipments.filter(s => !existingIds.has(s.id));
+
+    for (let i = 0; i < rows.length; i += APPEND_BATCH_SIZE) {
+      const values = rows.slice(i, i + APPEND_BATCH_SIZE).map(
+        s => sql`(
+          ${s.id}, ${s.importer_name}, ${s.importer_website || null},
+          ${s.importer_country}, ${s.exporter_name}, ${s.exporter_website || null},
+          ${s.exporter_country}, CAST(${s.shipment_date} AS DATE),
+          ${s.commodity_name}, ${s.industry_sector}, ${s.weight_metric_tonnes}
+        )`
+      );
+      const { text, values: params } = render(
+        sql`INSERT INTO shipments VALUES ${join(values)}`
+      );
+      await connection.run(text, params);
+    }
+
+    if (rows.length > 0) {
+      await buildCompanyDimension(connection);
+    }
+    await connection.run('COMMIT');
+
+    return {
+      inserted: rows.map(s => s.id),
+      duplicates: shipments.filter(s => existingIds.has(s.id)).map(s => s.id),
+    };
+  } catch (error) {
+    await connection.run('ROLLBACK');
+    throw error;
+  } finally {
+    connection.closeSync();
+  }
+}
+
+/**
+ * Returns the outcome of loading the data source: files read, rows loaded
+ * and row-level errors for anything rejected.
+ *
+ * @returns The report, or null if startup found a file-backed store that
+ *   already had shipments and skipped loading
+ */
+export async function getDataSourceReport(): Promise<DataSourceReport | null> {
+  await ensureTableInitialized();
+  return dataSourceReport;
 }
 
 /**
  * Execute a SQL query and return the results as an array of objects.
  * The `shipments` table is automatically available — no need for read_json_auto.
  *
+ * Statements built with the `sql` tag run as DuckDB prepared statements, so
+ * interpolated values are bound as parameters and never spliced into the SQL
+ * text. Plain strings are accepted for fully static SQL only.
+ *
  * Example usage:
  * ```ts
- * const results = await query<{ name: string; total: number }>(`
+ * const results = await query<{ name: string; total: number }>(sql`
  *   SELECT importer_name as name, COUNT(*) as total
  *   FROM shipments
+ *   WHERE importer_country = ${country}
  *   GROUP BY importer_name
  * `);
  * ```
  */
-export async function query<T>(sql: string): Promise<T[]> {
+export async function query<T>(statement: SqlFragment | string): Promise<T[]> {
   await ensureTableInitialized();
 
+  const { text, values } =
+    typeof statement === 'string'
+      ? { text: statement, values: [] }
+      : render(statement);
+
   const db = await getInstance();
   const connection = await db.connect();
 
-  const reader = await connection.runAndReadAll(sql);
-  const rows = reader.getRowObjectsJson();
-  connection.closeSync();
+  try {
+    const prepared = await connection.prepare(text);
+    prepared.bind(values);
+    const reader = await prepared.runAndReadAll();
+    return reader.getRowObjectsJson() as unknown as T[];
+  } finally {
+    connection.closeSync();
+  }
+}
+
+/** How often copyToFile() reports progress */
+const COPY_PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Writes a query's result straight to a file with DuckDB `COPY ... TO`, so
+ * rows never pass through JavaScript.
+ *
+ * @param statement - SELECT to copy, e.g. shipmentList(filters)
+ * @param file - Output path; its directory must exist
+ * @param format - csv (with a header row) or parquet
+ * @param onProgress - Called with DuckDB's estimate (0-1) while the copy runs
+ * @returns Rows written
+ */
+export async function copyToFile(
+  statement: SqlFragment,
+  file: string,
+  format: ExportJobFormat,
+  onProgress?: (progress: number) => void
+): Promise<number> {
+  await ensureTableInitialized();
+
+  // The path is written into the SQL text - COPY targets can't be bound
+  const target = raw(`'${file.replace(/'/g, "''")}'`);
+  const options = raw(
+    format === 'csv' ? 'FORMAT csv, HEADER' : 'FORMAT parquet'
+  );
+  const { text, values } = render(
+    sql`COPY (${statement}) TO ${target} (${options})`
+  );
 
-  return rows as unknown as T[];
+  const db = await getInstance();
+  const connection = await db.connect();
+  const timer = setInterval(() => {
+    const { percentage } = connection.progress;
+    if (percentage >= 0) {
+      onProgress?.(Math.min(percentage / 100, 1));
+    }
+  }, COPY_PROGRESS_INTERVAL_MS);
+
+  try {
+    // Progress is only tracked with the progress bar on
+    await connection.run('SET enable_progress_bar = true');
+    await connection.run('SET enable_progress_bar_print = false');
+    const prepared = await connection.prepare(text);
+    prepared.bind(values);
+    const reader = await prepared.runAndReadAll();
+    const [{ Count }] = reader.getRowObjectsJson() as unknown as {
+      Count: string;
+    }[];
+    return Number(Count);
+  } finally {
+    clearInterval(timer);
+    connection.closeSync();
+  }
 }
@@ -0,0 +1,208 @@
+import {
+  companyTotals,
+  inDateRange,
+  query,
+  resolveCompanyId,
+} from './shipments';
+import { sql } from './sql';
+import type { CompanyRole, SimilarCompany } from '@/types/company';
+import type { DateRange } from '@/types/shipment';
+
+/** Score weights - they sum to 1, so identical trading patterns score 1 */
+const PARTNER_WEIGHT = 0.6;
+const COMMODITY_WEIGHT = 0.4;
+
+/** Shared commodities named in a reason before the rest are counted */
+const REASON_COMMODITIES = 3;
+
+interface SimilarRow {
+  id: string;
+  name: string;
+  country: string;
+  role: CompanyRole;
+  totalShipments: number;
+  totalWeight: number;
+  firstShipment: string;
+  lastShipment: string;
+  score: number;
+  partner_overlap: number;
+  commodity_overlap: number;
+  shared_customers: number;
+  shared_suppliers: number;
+  shared_commodities: string[];
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+/**
+ * Finds a company's likely competitors: companies that sell to the same
+ * customers, buy from the same suppliers, or trade the same commodities.
+ *
+ * Overlap only counts in the same role - two exporters shipping to one buyer
+ * compete, an exporter and its own buyer don't. Each candidate gets a weighted
+ * score from two Jaccard indexes (shared / either company's total):
+ * - **Partner overlap** (60%) - customers and suppliers, each in its role
+ * - **Commodity overlap** (40%) - commodities exported and imported
+ *
+ * @param companyId - Company ID from the companies dimension
+ * @param options.limit - Max companies to return (default: 10)
+ * @param options.range - Optional inclusive date range (default: all data)
+ * @returns Companies by score DESC with the reasons behind each score, or
+ *   null if the company is unknown
+ */
+export async function getSimilarCompaniesById(
+  companyId: string,
+  options: { limit?: number; range?: DateRange } = {}
+): Promise<SimilarCompany[] | null> {
+  const limit = options.limit ?? 10;
+  const inRange = inDateRange(options.range);
+
+  const companies = await query<{ id: string }>(sql`
+    SELECT canonical_id as id FROM company_ids WHERE id = ${companyId}
+  `);
+  if (companies.length === 0) {
+    return null;
+  }
+  const id = companies[0].id;
+
+  const rows = await query<SimilarRow>(sql`
+    WITH ${companyTotals(options.range)},
+    links AS (
+      SELECT exporter_id as company_id, 'export' as role,
+        importer_id as partner_id, commodity_name
+      FROM shipment_parties
+      WHERE ${inRange}
+      UNION
+      SELECT importer_id, 'import', exporter_id, commodity_name
+      FROM shipment_parties
+      WHERE ${inRange}
+    ),
+    features AS (
+      SELECT DISTINCT company_id, 'partner' as kind, role, partner_id as value
+      FROM links
+      UNION ALL
+      SELECT DISTINCT company_id, 'commodity', role, commodity_name
+      FROM links
+    ),
+    sizes AS (
+      SELECT
+        company_id,
+        COUNT(*) FILTER (WHERE kind = 'partner') as partners,
+        COUNT(*) FILTER (WHERE kind = 'commodity') as commodities
+      FROM features
+      GROUP BY company_id
+    ),
+    overlap AS (
+      SELECT
+        f.company_id,
+        COUNT(*) FILTER (WHERE f.kind = 'partner') as shared_partners,
+        COUNT(*) FILTER (WHERE f.kind = 'partner' AND f.role = 'export') as shared_customers,
+        COUNT(*) FILTER (WHERE f.kind = 'partner' AND f.role = 'import') as shared_suppliers,
+        COUNT(*) FILTER (WHERE f.kind = 'commodity') as shared_commodity_roles,
+        COALESCE(
+          list(DISTINCT f.value ORDER BY f.value) FILTER (WHERE f.kind = 'commodity'),
+          []
+        ) as shared_commodities
+      FROM features f
+      JOIN features target
+        ON target.company_id = ${id}
+        AND target.kind = f.kind
+        AND target.role = f.role
+        AND target.value = f.value
+      WHERE f.company_id <> ${id}
+      GROUP BY f.company_id
+    ),
+    scored AS (
+      SELECT
+        o.*,
+        CASE WHEN shared_partners = 0 THEN 0
+          ELSE shared_partners / (t.partners + c.partners - shared_partners)
+        END as partner_overlap,
+        CASE WHEN shared_commodity_roles = 0 THEN 0
+          ELSE shared_commodity_roles / (t.commodities + c.commodities - shared_commodity_roles)
+        END as commodity_overlap
+      FROM overlap o
+      JOIN sizes c ON c.company_id = o.company_id
+      JOIN sizes t ON t.company_id = ${id}
+    )
+    SELECT
+      totals.id,
+      totals.name,
+      totals.country,
+      totals.role,
+      totals.totalShipments,
+      totals.totalWeight,
+      totals.firstShipment,
+      totals.lastShipment,
+      CAST(ROUND(
+        ${PARTNER_WEIGHT} * partner_overlap + ${COMMODITY_WEIGHT} * commodity_overlap,
+        3
+      ) AS DOUBLE) as score,
+      CAST(ROUND(partner_overlap, 3) AS DOUBLE) as partner_overlap,
+      CAST(ROUND(commodity_overlap, 3) AS DOUBLE) as commodity_overlap,
+      CAST(shared_customers AS INTEGER) as shared_customers,
+      CAST(shared_suppliers AS INTEGER) as shared_suppliers,
+      shared_commodities
+    FROM scored
+    JOIN company_totals totals ON totals.id = scored.company_id
+    ORDER BY score DESC, totals.totalShipments DESC, totals.id
+    LIMIT ${limit}
+  `);
+
+  return rows.map(row => {
+    const reasons: string[] = [];
+    if (row.shared_customers > 0) {
+      reasons.push(`Shares ${plural(row.shared_customers, 'customer')}`);
+    }
+    if (row.shared_suppliers > 0) {
+      reasons.push(`Shares ${plural(row.shared_suppliers, 'supplier')}`);
+    }
+    if (row.shared_commodities.length > 0) {
+      const named = row.shared_commodities.slice(0, REASON_COMMODITIES);
+      const more = row.shared_commodities.length - named.length;
+      reasons.push(
+        `Shares ${plural(row.shared_commodities.length, 'commodity', 'commodities')}: ${named.join(', ')}${more > 0 ? ` and ${more} more` : ''}`
+      );
+    }
+
+    return {
+      company: {
+        id: row.id,
+        name: row.name,
+        country: row.country,
+        role: row.role,
+        totalShipments: row.totalShipments,
+        totalWeight: row.totalWeight,
+        firstShipment: row.firstShipment,
+        lastShipment: row.lastShipment,
+      },
+      score: row.score,
+      partnerOverlap: row.partner_overlap,
+      commodityOverlap: row.commodity_overlap,
+      sharedCustomers: row.shared_customers,
+      sharedSuppliers: row.shared_suppliers,
+      sharedCommodities: row.shared_commodities,
+      reasons,
+    };
+  });
+}
+
+/**
+ * Finds a company's likely competitors by name.
+ *
+ * The name is resolved with resolveCompanyId(), so any known name variant
+ * returns the same company.
+ *
+ * @param companyName - Company name (display name or any raw variant)
+ * @param options - Same as getSimilarCompaniesById()
+ * @returns Similar companies, or null if not found
+ */
+export async function getSimilarCompanies(
+  companyName: string,
+  options?: { limit?: number; range?: DateRange }
+): Promise<SimilarCompany[] | null> {
+  const id = await resolveCompanyId(companyName);
+  return id ? getSimilarCompaniesById(id, options) : null;
+}
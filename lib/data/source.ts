@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { z } from 'zod';
+import {
+  DATA_SOURCE_FORMATS,
+  DataSourceConfig,
+  DataSourceConfigSchema,
+  DataSourceFormat,
+  readConfigFile,
+} from './config';
+import { SqlFragment, join, raw, render, sql } from './sql';
+
+const DEFAULT_SOURCE: DataSourceConfig = {
+  path: path.join('data', 'shipments.json'),
+};
+
+const EXTENSION_FORMATS: Record<string, DataSourceFormat> = {
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.csv': 'csv',
+  '.parquet': 'parquet',
+};
+
+/** Columns every source must provide */
+const REQUIRED_COLUMNS = [
+  'id',
+  'importer_name',
+  'importer_country',
+  'exporter_name',
+  'exporter_country',
+  'shipment_date',
+  'commodity_name',
+  'industry_sector',
+  'weight_metric_tonnes',
+] as const;
+
+/** Columns loaded as NULL when a source leaves them out */
+const OPTIONAL_COLUMNS = ['importer_website', 'exporter_website'] as const;
+
+/** Validation failures for one source record */
+export interface ShipmentRowError {
+  file: string;
+  /** 1-based record number within the file (data rows, excluding headers) */
+  row: number;
+  id: string | null;
+  errors: string[];
+}
+
+/** Outcome of loading a data source */
+export interface DataSourceReport {
+  source: DataSourceConfig;
+  files: string[];
+  rowsRead: number;
+  rowsLoaded: number;
+  rowsRejected: number;
+  /** Rejected rows in file order, capped at MAX_REPORTED_ERRORS */
+  errors: ShipmentRowError[];
+}
+
+const MAX_REPORTED_ERRORS = 1000;
+
+/**
+ * Resolves which data source to load shipments from.
+ *
+ * Precedence: `SHIPMENTS_SOURCE` / `SHIPMENTS_FORMAT` env vars, then the
+ * `shipments` key of `coreties.config.json`, then `data/shipments.json`.
+ * Relative paths are resolved against `cwd`.
+ *
+ * @example coreties.config.json
+ * { "shipments": { "path": "extracts/2025-09", "format": "csv" } }
+ *
+ * @throws Error if the config file or env vars are invalid
+ */
+export function resolveDataSourceConfig(options?: {
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+}): DataSourceConfig {
+  const cwd = options?.cwd ?? process.cwd();
+  const env = options?.env ?? process.env;
+
+  let config = readConfigFile(cwd).shipments ?? DEFAULT_SOURCE;
+
+  if (env.SHIPMENTS_SOURCE) {
+    const parsed = DataSourceConfigSchema.safeParse({
+      path: env.SHIPMENTS_SOURCE,
+      format: env.SHIPMENTS_FORMAT || undefined,
+    });
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid SHIPMENTS_SOURCE/SHIPMENTS_FORMAT: ${z.prettifyError(parsed.error)}`
+      );
+    }
+    config = parsed.data;
+  }
+
+  return { ...config, path: path.resolve(cwd, config.path) };
+}
+
+/**
+ * Lists the files a source covers, each with its format.
+ * Directories are read one level deep; unsupported files are skipped.
+ */
+function listSourceFiles(
+  config: DataSourceConfig
+): { file: string; format: DataSourceFormat }[] {
+  if (!fs.existsSync(config.path)) {
+    throw new Error(`Data source not found: ${config.path}`);
+  }
+
+  const files = fs.statSync(config.path).isDirectory()
+    ? fs
+        .readdirSync(config.path)
+        .sort()
+        .map(name => path.join(config.path, name))
+        .filter(
+          file =>
+            fs.statSync(file).isFile() &&
+            (config.format || fileFormat(file) !== undefined)
+        )
+    : [config.path];
+
+  if (files.length === 0) {
+    throw new Error(`No shipment files found in ${config.path}`);
+  }
+
+  return files.map(file => {
+    const format = config.format ?? fileFormat(file);
+    if (!format) {
+      throw new Error(
+        `Cannot infer format of ${file}; set one of ${DATA_SOURCE_FORMATS.join(', ')}`
+      );
+    }
+    return { file, format };
+  });
+}
+
+function fileFormat(file: string): DataSourceFormat | undefined {
+  return EXTENSION_FORMATS[path.extname(file).toLowerCase()];
+}
+
+/** Table function that reads one file in the given format */
+function reader(file: string, format: DataSourceFormat): SqlFragment {
+  switch (format) {
+    case 'json':
+      return sql`read_json_auto(${file})`;
+    case 'ndjson':
+      return sql`read_json_auto(${file}, format = 'newline_delimited')`;
+    case 'csv':
+      return sql`read_csv(${file}, header = true, all_varchar = true)`;
+    case 'parquet':
+      return sql`read_parquet(${file})`;
+  }
+}
+
+async function runStatement(
+  connection: DuckDBConnection,
+  statement: SqlFragment
+): Promise<void> {
+  const { text, values } = render(statement);
+  await connection.run(text, values);
+}
+
+async function readAll<T>(
+  connection: DuckDBConnection,
+  statement: SqlFragment
+): Promise<T[]> {
+  const { text, values } = render(statement);
+  const reader = await connection.runAndReadAll(text, values);
+  return reader.getRowObjectsJson() as unknown as T[];
+}
+
+/**
+ * Loads shipments from a JSON, NDJSON, CSV or Parquet file (or a directory
+ * of them) into the `shipments` table, which migrations must have created.
+ *
+ * Every file is read into a staging table as text, then each record is
+ * checked against the Shipment type: required fields present and non-empty,
+ * `shipment_date` a valid date, `weight_metric_tonnes` a non-negative number
+ * and `id` unique (against earlier valid records and rows already in the
+ * table). Valid records are inserted; the rest are returned as row-level
+ * errors.
+ *
+ * @throws Error if the source is missing, a file lacks required columns, or
+ *   a file cannot be parsed at all
+ */
+export async function loadDataSource(
+  connection: DuckDBConnection,
+  config: DataSourceConfig
+): Promise<DataSourceReport> {
+  const files = listSourceFiles(config);
+
+  await connection.run(`
+    CREATE OR REPLACE TEMP TABLE shipments_staging (
+      source_file VARCHAR,
+      source_row BIGINT,
+      ${[...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS].map(c => `${c} VARCHAR`).join(',\n')}
+    )
+  `);
+
+  for (const { file, format } of files) {
+    const described = await readAll<{ column_name: string }>(
+      connection,
+      sql`DESCRIBE SELECT * FROM ${reader(file, format)}`
+    );
+    const columns = new Set(described.map(c => c.column_name));
+    const missing = REQUIRED_COLUMNS.filter(c => !columns.has(c));
+    if (missing.length > 0) {
+      throw new Error(
+        `${file} is missing required columns: ${missing.join(', ')}`
+      );
+    }
+
+    const selected = [...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS].map(c =>
+      columns.has(c)
+        ? raw(`CAST("${c}" AS VARCHAR) as ${c}`)
+        : raw(`NULL as ${c}`)
+    );
+    await runStatement(
+      connection,
+      sql`
+        INSERT INTO shipments_staging
+        SELECT ${file}, ordinality, ${join(selected)}
+        FROM ${reader(file, format)} WITH ORDINALITY
+      `
+    );
+  }
+
+  await connection.run(`
+    CREATE OR REPLACE TEMP TABLE shipments_validated AS
+    WITH checked AS (
+      SELECT
+        *,
+        list_filter([
+          CASE WHEN trim(COALESCE(id, '')) = '' THEN 'id is required' END,
+          CASE WHEN trim(COALESCE(importer_name, '')) = '' THEN 'importer_name is required' END,
+          CASE WHEN trim(COALESCE(importer_country, '')) = '' THEN 'importer_country is required' END,
+          CASE WHEN trim(COALESCE(exporter_name, '')) = '' THEN 'exporter_name is required' END,
+          CASE WHEN trim(COALESCE(exporter_country, '')) = '' THEN 'exporter_country is required' END,
+          CASE WHEN trim(COALESCE(commodity_name, '')) = '' THEN 'commodity_name is required' END,
+          CASE WHEN trim(COALESCE(industry_sector, '')) = '' THEN 'industry_sector is required' END,
+          CASE WHEN TRY_CAST(shipment_date AS DATE) IS NULL
+            THEN 'shipment_date must be a date (YYYY-MM-DD)' END,
+          CASE WHEN COALESCE(TRY_CAST(weight_metric_tonnes AS DOUBLE), -1) < 0
+            THEN 'weight_metric_tonnes must be a non-negative number' END,
+          CASE WHEN trim(id) IN (SELECT id FROM shipments) THEN 'duplicate id' END
+        ], e -> e IS NOT NULL) as errors
+      FROM shipments_staging
+    )
+    -- Only the first valid record with an id loads; ranking the invalid
+    -- ones too would reject a valid record behind an invalid duplicate
+    SELECT * REPLACE (
+      CASE
+        WHEN len(errors) = 0 AND row_number() OVER (
+          PARTITION BY trim(id), len(errors) = 0 ORDER BY source_file, source_row
+        ) > 1 THEN ['duplicate id']
+        ELSE errors
+      END as errors
+    )
+    FROM checked
+  `);
+
+  await connection.run(`
+    INSERT INTO shipments
+    SELECT
+      trim(id),
+      importer_name,
+      NULLIF(trim(importer_website), ''),
+      upper(trim(importer_country)),
+      exporter_name,
+      NULLIF(trim(exporter_website), ''),
+      upper(trim(exporter_country)),
+      CAST(shipment_date AS DATE),
+      commodity_name,
+      industry_sector,
+      CAST(weight_metric_tonnes AS DOUBLE)
+    FROM shipments_validated
+    WHERE len(errors) = 0
+    ORDER BY source_file, source_row
+  `);
+
+  const [counts] = await readAll<{ read: number; rejected: number }>(
+    connection,
+    sql`
+      SELECT
+        CAST(COUNT(*) AS INTEGER) as read,
+        CAST(COUNT(*) FILTER (WHERE len(errors) > 0) AS INTEGER) as rejected
+      FROM shipments_validated
+    `
+  );
+  const errors = await readAll<ShipmentRowError>(
+    connection,
+    sql`
+      SELECT source_file as file, CAST(source_row AS INTEGER) as row, id, errors
+      FROM shipments_validated
+      WHERE len(errors) > 0
+      ORDER BY source_file, source_row
+      LIMIT ${MAX_REPORTED_ERRORS}
+    `
+  );
+
+  await connection.run(`DROP TABLE shipments_validated`);
+  await connection.run(`DROP TABLE shipments_staging`);
+
+  return {
+    source: config,
+    files: files.map(f => f.file),
+    rowsRead: counts.read,
+    rowsLoaded: counts.read - counts.rejected,
+    rowsRejected: counts.rejected,
+    errors,
+  };
+}
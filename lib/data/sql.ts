@@ -0,0 +1,132 @@
+import type { DuckDBValue } from '@duckdb/node-api';
+
+const SQL_FRAGMENT = Symbol('SqlFragment');
+
+/**
+ * A piece of SQL whose values are kept apart from its text.
+ *
+ * Built with the `sql` tagged template; values are rendered as `$1, $2, ...`
+ * placeholders and bound through a DuckDB prepared statement by `query()`.
+ * Fragments nest, so WHERE clauses and CTEs can be composed safely.
+ */
+export interface SqlFragment {
+  readonly [SQL_FRAGMENT]: true;
+  readonly strings: readonly string[];
+  readonly values: readonly DuckDBValue[];
+}
+
+/** Anything that can be interpolated into a `sql` template */
+export type SqlValue = DuckDBValue | SqlFragment;
+
+function isSqlFragment(value: unknown): value is SqlFragment {
+  return typeof value === 'object' && value !== null && SQL_FRAGMENT in value;
+}
+
+function fragment(strings: string[], values: DuckDBValue[]): SqlFragment {
+  return { [SQL_FRAGMENT]: true, strings, values };
+}
+
+/**
+ * Tagged template that turns interpolated values into bound parameters.
+ *
+ * Example usage:
+ * ```ts
+ * const rows = await query<Shipment>(sql`
+ *   SELECT * FROM shipments
+ *   WHERE importer_country = ${country}
+ *   LIMIT ${limit}
+ * `);
+ * ```
+ */
+export function sql(
+  template: TemplateStringsArray,
+  ...values: SqlValue[]
+): SqlFragment {
+  const strings: string[] = [template[0]];
+  const bound: DuckDBValue[] = [];
+
+  values.forEach((value, i) => {
+    if (isSqlFragment(value)) {
+      // Splice the nested fragment's text and values in place
+      strings[strings.length - 1] += value.strings[0];
+      for (let j = 0; j < value.values.length; j++) {
+        bound.push(value.values[j]);
+        strings.push(value.strings[j + 1]);
+      }
+      strings[strings.length - 1] += template[i + 1];
+    } else {
+      bound.push(value);
+      strings.push(template[i + 1]);
+    }
+  });
+
+  return fragment(strings, bound);
+}
+
+/**
+ * Inserts trusted SQL text verbatim. Never pass user input here—use
+ * `identifier()` for column names chosen at runtime.
+ */
+export function raw(text: string): SqlFragment {
+  return fragment([text], []);
+}
+
+/** An empty fragment, for optional clauses */
+export const empty = raw('');
+
+/** Joins fragments with a separator (default `, `) */
+export function join(fragments: SqlFragment[], separator = ', '): SqlFragment {
+  if (fragments.length === 0) return empty;
+  return fragments
+    .slice(1)
+    .reduce((acc, next) => sql`${acc}${raw(separator)}${next}`, fragments[0]);
+}
+
+/** Binds each value as its own parameter, for `IN (...)` lists */
+export function list(values: readonly DuckDBValue[]): SqlFragment {
+  return join(values.map(value => sql`${value}`));
+}
+
+/** `WHERE a AND b ...`, or nothing when there are no conditions */
+export function where(conditions: SqlFragment[]): SqlFragment {
+  return conditions.length > 0
+    ? sql`WHERE ${join(conditions, ' AND ')}`
+    : empty;
+}
+
+/**
+ * Inserts a column name after checking it against an allow-list.
+ *
+ * @throws Error if `name` is not one of `allowed`
+ */
+export function identifier<C extends string>(
+  name: C,
+  allowed: readonly C[]
+): SqlFragment {
+  if (!allowed.includes(name)) {
+    throw new Error(`Unknown column: ${name}`);
+  }
+  return raw(`"${name}"`);
+}
+
+/**
+ * Builds an `ILIKE` pattern that matches `value` as a literal substring.
+ * `%`, `_` and `\` are escaped, so pair it with `ESCAPE '\'`.
+ */
+export function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+/** Case-insensitive literal substring match on a column */
+export function ilikeContains(column: SqlFragment, value: string): SqlFragment {
+  return sql`${column} ILIKE ${containsPattern(value)} ESCAPE '\\'`;
+}
+
+/** Renders a fragment into prepared-statement text and positional values */
+export function render(statement: SqlFragment): {
+  text: string;
+  values: DuckDBValue[];
+} {
+  const text = statement.strings.reduce((acc, part, i) => `${acc}$${i}${part}`);
+  return { text, values: [...statement.values] };
+}
@@ -0,0 +1,326 @@
+import { inDateRange, query, resolveCompanyId } from './shipments';
+import { SqlFragment, raw, sql } from './sql';
+import type {
+  CompanyTimeseries,
+  CompanyTimeseriesPoint,
+} from '@/types/company';
+import type { DateRange } from '@/types/shipment';
+import type {
+  TimeseriesGroup,
+  TimeseriesInterval,
+  TimeseriesMetric,
+  TimeseriesSeries,
+} from '@/types/stats';
+
+/** `date_trunc()` part and bucket width for each interval */
+const INTERVALS: Record<TimeseriesInterval, { part: string; step: string }> = {
+  day: { part: 'day', step: 'INTERVAL 1 DAY' },
+  week: { part: 'week', step: 'INTERVAL 7 DAY' }, // ISO weeks, Monday start
+  month: { part: 'month', step: 'INTERVAL 1 MONTH' },
+  quarter: { part: 'quarter', step: 'INTERVAL 3 MONTH' },
+  year: { part: 'year', step: 'INTERVAL 1 YEAR' },
+};
+
+/** Aggregate over `facts` for each metric */
+const METRICS: Record<TimeseriesMetric, string> = {
+  kg: 'CAST(SUM(weight_metric_tonnes * 1000) AS BIGINT)',
+  shipments: 'COUNT(*)',
+  companies: 'COUNT(DISTINCT company_id)',
+};
+
+/** Shipment columns behind each groupBy, as [importer side, exporter side] */
+const GROUP_COLUMNS: Record<TimeseriesGroup, [string, string]> = {
+  commodity: ['commodity_name', 'commodity_name'],
+  industry_sector: ['industry_sector', 'industry_sector'],
+  country: ['importer_country', 'exporter_country'],
+};
+
+interface SeriesRow {
+  grp: string | null;
+  total: number;
+  points: { bucket: string; value: number }[];
+}
+
+/**
+ * CTE `facts(shipment_date, grp, company_id, weight_metric_tonnes)` - the rows
+ * a metric aggregates over, already limited to `range`.
+ *
+ * - `companies` yields one row per party (importer and exporter), so each
+ *   company counts once per bucket whichever role it played.
+ * - `groupBy=country` with `kg`/`shipments` yields one row per distinct
+ *   country on a shipment: a shipment counts toward both its importer and
+ *   exporter country, but only once when they are the same.
+ */
+function facts(
+  metric: TimeseriesMetric,
+  groupBy: TimeseriesGroup | undefined,
+  range: DateRange
+): SqlFragment {
+  const [importerGroup, exporterGroup] = groupBy
+    ? GROUP_COLUMNS[groupBy]
+    : ['NULL', 'NULL'];
+  const inRange = inDateRange(range);
+
+  if (metric === 'companies') {
+    return sql`
+      facts AS (
+        SELECT shipment_date, ${raw(importerGroup)} as grp,
+          importer_id as company_id, weight_metric_tonnes
+        FROM shipment_parties WHERE ${inRange}
+        UNION ALL
+        SELECT shipment_date, ${raw(exporterGroup)} as grp,
+          exporter_id as company_id, weight_metric_tonnes
+        FROM shipment_parties WHERE ${inRange}
+      )
+    `;
+  }
+
+  if (importerGroup !== exporterGroup) {
+    return sql`
+      facts AS (
+        SELECT shipment_date, grp, NULL as company_id, weight_metric_tonnes
+        FROM (
+          SELECT id, shipment_date, ${raw(importerGroup)} as grp, weight_metric_tonnes
+          FROM shipments WHERE ${inRange}
+          UNION
+          SELECT id, shipment_date, ${raw(exporterGroup)} as grp, weight_metric_tonnes
+          FROM shipments WHERE ${inRange}
+        )
+      )
+    `;
+  }
+
+  return sql`
+    facts AS (
+      SELECT shipment_date, ${raw(importerGroup)} as grp,
+        NULL as company_id, weight_metric_tonnes
+      FROM shipments WHERE ${inRange}
+    )
+  `;
+}
+
+/** Truncates a date to the start of its `part` bucket */
+function truncate(part: string, date: SqlFragment): SqlFragment {
+  return sql`CAST(date_trunc('${raw(part)}', ${date}) AS DATE)`;
+}
+
+/**
+ * CTE `bounds(first_bucket, last_bucket)` - the first and last bucket of
+ * `range`, or of the shipments in it where the range is open.
+ */
+function bucketBounds(part: string, range: DateRange): SqlFragment {
+  return sql`
+    bounds AS (
+      SELECT
+        ${truncate(part, sql`COALESCE(CAST(${range.from ?? null} AS DATE), MIN(shipment_date))`)} as first_bucket,
+        ${truncate(part, sql`COALESCE(CAST(${range.to ?? null} AS DATE), MAX(shipment_date))`)} as last_bucket
+      FROM shipments
+      WHERE ${inDateRange(range)}
+    )
+  `;
+}
+
+/**
+ * Counts the buckets getTimeseries() would return for `interval` and
+ * `range`, without building them - so callers can refuse ranges too long
+ * for the interval.
+ *
+ * @returns Buckets per series; 0 when an open range holds no shipments
+ */
+export async function countBuckets(
+  interval: TimeseriesInterval,
+  range: DateRange = {}
+): Promise<number> {
+  const { part } = INTERVALS[interval];
+  const [row] = await query<{ buckets: number }>(sql`
+    WITH ${bucketBounds(part, range)}
+    SELECT
+      CAST(COALESCE(date_diff('${raw(part)}', first_bucket, last_bucket) + 1, 0) AS BIGINT) as buckets
+    FROM bounds
+  `);
+  return Number(row?.buckets ?? 0);
+}
+
+/**
+ * Returns shipment activity bucketed by day, week, month, quarter or year.
+ *
+ * Buckets are labelled with the ISO date they start on (weeks start on
+ * Monday) and run without gaps from the first to the last bucket of the
+ * range - or of the data, when the range is open. Buckets with no activity
+ * are zero-filled, so every series has the same buckets.
+ *
+ * Without `groupBy` there is a single series with `group: null`. With it,
+ * there is one series per group, largest total first, capped at `limit`.
+ * Metrics:
+ * - **kg** - Total weight
+ * - **shipments** - Number of shipments
+ * - **companies** - Distinct companies active as importer or exporter
+ *
+ * @param options.range - Optional inclusive date range (default: all data)
+ * @param options.limit - Max series returned with groupBy (default: 10)
+ * @returns Series with their totals and zero-filled points
+ */
+export async function getTimeseries(options: {
+  interval: TimeseriesInterval;
+  metric: TimeseriesMetric;
+  groupBy?: TimeseriesGroup;
+  range?: DateRange;
+  limit?: number;
+}): Promise<TimeseriesSeries[]> {
+  const range = options.range ?? {};
+  const limit = options.limit ?? 10;
+  const { part, step } = INTERVALS[options.interval];
+  const value = raw(METRICS[options.metric]);
+
+  // One series per group (largest first), or a single ungrouped series
+  const groups = options.groupBy
+    ? sql`
+        SELECT grp, ${value} as total
+        FROM facts
+        GROUP BY grp
+        ORDER BY total DESC, grp
+        LIMIT ${limit}
+      `
+    : sql`SELECT NULL as grp, ${value} as total FROM facts`;
+
+  const rows = await query<SeriesRow>(sql`
+    WITH ${facts(options.metric, options.groupBy, range)},
+    ${bucketBounds(part, range)},
+    buckets AS (
+      SELECT CAST(bucket AS DATE) as bucket
+      FROM bounds, generate_series(
+        CAST(first_bucket AS TIMESTAMP),
+        CAST(last_bucket AS TIMESTAMP),
+        ${raw(step)}
+      ) t(bucket)
+    ),
+    groups AS (${groups}),
+    bucketed AS (
+      SELECT ${truncate(part, raw('shipment_date'))} as bucket, grp, ${value} as value
+      FROM facts
+      GROUP BY ALL
+    )
+    SELECT
+      groups.grp,
+      CAST(COALESCE(groups.total, 0) AS BIGINT) as total,
+      list(
+        {
+          'bucket': strftime(buckets.bucket, '%Y-%m-%d'),
+          'value': CAST(COALESCE(bucketed.value, 0) AS BIGINT)
+        }
+        ORDER BY buckets.bucket
+      ) as points
+    FROM groups
+    CROSS JOIN buckets
+    LEFT JOIN bucketed
+      ON bucketed.bucket = buckets.bucket
+      AND bucketed.grp IS NOT DISTINCT FROM groups.grp
+    GROUP BY groups.grp, groups.total
+    ORDER BY groups.total DESC, groups.grp
+  `);
+
+  return rows.map(row => ({
+    group: row.grp,
+    total: Number(row.total),
+    points: row.points.map(point => ({
+      bucket: point.bucket,
+      value: Number(point.value),
+    })),
+  }));
+}
+
+/**
+ * Returns a company's monthly shipments and kg, split into import and export.
+ *
+ * Months run without gaps from the company's first to its last shipment, or
+ * across the whole range when one is given; months with no activity are
+ * zero-filled. A shipment a company sends to itself counts on both sides.
+ * An ID that was merged into another company returns that company's history.
+ *
+ * @param companyId - Company ID from the companies dimension
+ * @param range - Optional inclusive date range (default: all data)
+ * @returns Company identity with monthly points, or null if not found
+ */
+export async function getCompanyTimeseriesById(
+  companyId: string,
+  range: DateRange = {}
+): Promise<CompanyTimeseries | null> {
+  const companies = await query<{ id: string; name: string; country: string }>(
+    sql`
+      SELECT c.id, c.name, c.country
+      FROM company_ids ids
+      JOIN companies c ON c.id = ids.canonical_id
+      WHERE ids.id = ${companyId}
+    `
+  );
+  if (companies.length === 0) {
+    return null;
+  }
+  const company = companies[0];
+  const inRange = inDateRange(range);
+
+  const points = await query<CompanyTimeseriesPoint>(sql`
+    WITH activity AS (
+      SELECT shipment_date, 'import' as side, weight_metric_tonnes
+      FROM shipment_parties
+      WHERE importer_id = ${company.id} AND ${inRange}
+      UNION ALL
+      SELECT shipment_date, 'export' as side, weight_metric_tonnes
+      FROM shipment_parties
+      WHERE exporter_id = ${company.id} AND ${inRange}
+    ),
+    bounds AS (
+      SELECT
+        date_trunc('month', COALESCE(CAST(${range.from ?? null} AS DATE), MIN(shipment_date))) as first_month,
+        date_trunc('month', COALESCE(CAST(${range.to ?? null} AS DATE), MAX(shipment_date))) as last_month
+      FROM activity
+    ),
+    months AS (
+      SELECT CAST(month AS DATE) as month
+      FROM bounds, generate_series(
+        CAST(first_month AS TIMESTAMP),
+        CAST(last_month AS TIMESTAMP),
+        INTERVAL 1 MONTH
+      ) t(month)
+    ),
+    monthly AS (
+      SELECT
+        CAST(date_trunc('month', shipment_date) AS DATE) as month,
+        COUNT(*) FILTER (WHERE side = 'import') as import_shipments,
+        COUNT(*) FILTER (WHERE side = 'export') as export_shipments,
+        SUM(weight_metric_tonnes * 1000) FILTER (WHERE side = 'import') as import_kg,
+        SUM(weight_metric_tonnes * 1000) FILTER (WHERE side = 'export') as export_kg
+      FROM activity
+      GROUP BY 1
+    )
+    SELECT
+      strftime(months.month, '%Y-%m-%d') as month,
+      CAST(COALESCE(import_shipments, 0) AS INTEGER) as importShipments,
+      CAST(COALESCE(export_shipments, 0) AS INTEGER) as exportShipments,
+      CAST(COALESCE(import_kg, 0) AS BIGINT) as importKg,
+      CAST(COALESCE(export_kg, 0) AS BIGINT) as exportKg
+    FROM months
+    LEFT JOIN monthly USING (month)
+    ORDER BY months.month
+  `);
+
+  return { ...company, points };
+}
+
+/**
+ * Returns a company's monthly history by name.
+ *
+ * The name is resolved with resolveCompanyId(), so any known name variant
+ * returns the same company.
+ *
+ * @param companyName - Company name (display name or any raw variant)
+ * @param range - Optional inclusive date range (default: all data)
+ * @returns Company identity with monthly points, or null if not found
+ */
+export async function getCompanyTimeseries(
+  companyName: string,
+  range?: DateRange
+): Promise<CompanyTimeseries | null> {
+  const id = await resolveCompanyId(companyName);
+  return id ? getCompanyTimeseriesById(id, range) : null;
+}
@@ -25,4 +25,4 @@ export function parsePositiveInt(
     return max;
   }
   return parsed;
-}
\ No newline at end of file
+}
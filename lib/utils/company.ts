@@ -0,0 +1,136 @@
+/**
+ * Legal-form suffixes stripped from the end of a company name, as token lists.
+ * Longer forms come first so "gmbh co kg" wins over "kg".
+ */
+const LEGAL_SUFFIXES: string[][] = [
+  ['s', 'de', 'rl', 'de', 'cv'],
+  ['s', 'de', 'r', 'l', 'de', 'c', 'v'],
+  ['sa', 'de', 'cv'],
+  ['s', 'a', 'de', 'c', 'v'],
+  ['gmbh', 'and', 'co', 'kgaa'],
+  ['gmbh', 'and', 'co', 'kg'],
+  ['gmbh', 'co', 'kg'],
+  ['ag', 'and', 'co', 'kg'],
+  ['se', 'and', 'co', 'kgaa'],
+  ['pte', 'ltd'],
+  ['pvt', 'ltd'],
+  ['private', 'limited'],
+  ['co', 'ltd'],
+  ['co', 'kg'],
+  ['s', 'a'],
+  ['gmbh'],
+  ['kgaa'],
+  ['kg'],
+  ['ag'],
+  ['se'],
+  ['sa'],
+  ['sas'],
+  ['sarl'],
+  ['snc'],
+  ['srl'],
+  ['sro'],
+  ['spa'],
+  ['slu'],
+  ['sl'],
+  ['bv'],
+  ['nv'],
+  ['inc'],
+  ['incorporated'],
+  ['llc'],
+  ['llp'],
+  ['lp'],
+  ['ltd'],
+  ['limited'],
+  ['plc'],
+  ['corp'],
+  ['corporation'],
+  ['co'],
+  ['company'],
+];
+
+/**
+ * Normalizes a company name for identity matching.
+ *
+ * Lowercases, strips accents, treats `&`/`+` as word breaks, drops
+ * punctuation (so "S.A." and "SA" agree), then removes trailing legal-form
+ * suffixes such as GmbH, S.A. de C.V. or Inc.
+ *
+ * @example normalizeCompanyName('Mann+Hummel Mexico S.A. de C.V.') // 'mann hummel mexico'
+ */
+export function normalizeCompanyName(name: string): string {
+  const tokens = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.']/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const suffix of LEGAL_SUFFIXES) {
+      const start = tokens.length - suffix.length;
+      if (start > 0 && suffix.every((token, i) => tokens[start + i] === token)) {
+        tokens.splice(start);
+        // A dangling "and" is left behind by "X & Co." style names
+        if (tokens[tokens.length - 1] === 'and' && tokens.length > 1) {
+          tokens.pop();
+        }
+        stripped = true;
+        break;
+      }
+    }
+  }
+
+  return tokens.join(' ');
+}
+
+/**
+ * Derives the stable, URL-safe ID for a company from its normalized name and
+ * country. The same company always gets the same ID across restarts.
+ *
+ * @example companyId('Mann+Hummel Mexico S.A. de C.V.', 'US') // 'mann-hummel-mexico-us'
+ */
+export function companyId(name: string, country: string): string {
+  const normalized = normalizeCompanyName(name);
+  const slug = normalized
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const suffix = country.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+  // Names in non-Latin scripts have no ASCII slug; fall back to a hash of the
+  // normalized name so every variant of it gets the same ID
+  return `${slug || hashName(normalized || name)}-${suffix || 'xx'}`;
+}
+
+/** Short, deterministic FNV-1a hash used when a name has no ASCII slug */
+function hashName(name: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of name.normalize('NFC')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `c${hash.toString(36)}`;
+}
+
+/**
+ * Reduces a website to its bare host for comparison.
+ *
+ * @example websiteDomain('https://www.Mann-Hummel.com/en') // 'mann-hummel.com'
+ * @returns The lowercased host without `www.`, or null if there is none
+ */
+export function websiteDomain(website: string): string | null {
+  const host = website
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+
+  return host.includes('.') ? host : null;
+}
@@ -0,0 +1,269 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCompanyPartnersById } from '@/lib/data/partners';
+import { resolveCompanyId, resolveDateRange } from '@/lib/data/shipments';
+import { getSimilarCompaniesById } from '@/lib/data/similar';
+import { getCompanyTimeseriesById } from '@/lib/data/timeseries';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  paginate,
+  requestedExportFormat,
+  sendExport,
+} from '@/lib/utils/export';
+import {
+  CompanyTimeseries,
+  CompanyTimeseriesSchema,
+  PartnerSchema,
+  PartnersQuerySchema,
+  PartnersResponse,
+  PartnersResponseSchema,
+  SimilarCompaniesResponse,
+  SimilarCompaniesResponseSchema,
+} from '@/types/company';
+import { ExportQuerySchema } from '@/types/export';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_PARTNERS_LIMIT = 20;
+const MAX_PARTNERS_LIMIT = 100;
+const DEFAULT_SIMILAR_LIMIT = 10;
+const MAX_SIMILAR_LIMIT = 50;
+
+/**
+ * How a company route finds its company: the route parameter holding it and
+ * a resolver from that parameter to a company ID. The `[name]` and `by-id`
+ * routes share their handlers and differ only in this.
+ */
+export interface CompanyRoute {
+  param: 'name' | 'id';
+  /** Returns the company ID, or null if no company matches */
+  resolve: (value: string) => Promise<string | null>;
+}
+
+/** `/api/companies/[name]/...` - any name variant (see resolveCompanyId()) */
+export const BY_NAME: CompanyRoute = {
+  param: 'name',
+  resolve: name => resolveCompanyId(decodeURIComponent(name)),
+};
+
+/**
+ * `/api/companies/by-id/[id]/...` - a stable ID, passed through as is; the
+ * `*ById()` lookups follow merges and return null for unknown IDs
+ */
+export const BY_ID: CompanyRoute = {
+  param: 'id',
+  resolve: async id => id,
+};
+
+/** Reads the route's company parameter, answering 400 if it is missing */
+function companyParam(
+  route: CompanyRoute,
+  req: NextApiRequest,
+  res: NextApiResponse<{ error: string }>
+): string | null {
+  const value = req.query[route.param];
+  if (!value || typeof value !== 'string') {
+    res.status(400).json({ error: `Company ${route.param} is required` });
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Handler for GET `.../timeseries` - a company's monthly shipment history
+ * (see getCompanyTimeseriesById()).
+ */
+export function companyTimeseriesHandler(route: CompanyRoute) {
+  return async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<CompanyTimeseries | { error: string }>
+  ) {
+    if (req.method !== 'GET') {
+      res.status(405).end();
+      return;
+    }
+
+    const company = companyParam(route, req, res);
+    if (!company) {
+      return;
+    }
+
+    const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+    if (!parsedRange.success) {
+      res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+      return;
+    }
+
+    try {
+      const range = await resolveDateRange(parsedRange.data);
+      const id = await route.resolve(company);
+      const timeseries = id ? await getCompanyTimeseriesById(id, range) : null;
+
+      if (!timeseries) {
+        res.status(404).json({ error: 'Company not found' });
+        return;
+      }
+
+      const validated = CompanyTimeseriesSchema.parse(timeseries);
+      res.status(200).json(validated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        console.error('Validation error:', error.issues);
+        res.status(400).json({ error: 'Invalid response data' });
+        return;
+      }
+      console.error('Error fetching company timeseries:', error);
+      res.status(500).json({ error: 'Failed to fetch company timeseries' });
+    }
+  };
+}
+
+/**
+ * Handler for GET `.../partners` - a company's trading partners, paged or
+ * exported (see getCompanyPartnersById()).
+ */
+export function companyPartnersHandler(route: CompanyRoute) {
+  return async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<PartnersResponse | { error: string }>
+  ) {
+    if (req.method !== 'GET') {
+      res.status(405).end();
+      return;
+    }
+
+    const company = companyParam(route, req, res);
+    if (!company) {
+      return;
+    }
+
+    const parsedQuery = PartnersQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      res.status(400).json({ error: z.prettifyError(parsedQuery.error) });
+      return;
+    }
+    const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+    if (!parsedRange.success) {
+      res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+      return;
+    }
+    const parsedExport = ExportQuerySchema.safeParse(req.query);
+    if (!parsedExport.success) {
+      res.status(400).json({ error: z.prettifyError(parsedExport.error) });
+      return;
+    }
+
+    try {
+      const limit = parsePositiveInt(
+        req.query.limit,
+        DEFAULT_PARTNERS_LIMIT,
+        MAX_PARTNERS_LIMIT
+      );
+      const offset = parsePositiveInt(req.query.offset, 0);
+      const range = await resolveDateRange(parsedRange.data);
+      const id = await route.resolve(company);
+
+      const options = { ...parsedQuery.data, range };
+
+      const format = requestedExportFormat(
+        parsedExport.data.format,
+        req.headers.accept
+      );
+      if (format) {
+        // Check the company first so an unknown one still gets a 404
+        const found = id
+          ? await getCompanyPartnersById(id, { ...options, limit: 0 })
+          : null;
+        if (!id || !found) {
+          res.status(404).json({ error: 'Company not found' });
+          return;
+        }
+        await sendExport(res, format, {
+          filename: 'partners',
+          columns: PartnerSchema.keyof().options,
+          rows: paginate(async page =>
+            PartnersResponseSchema.parse(
+              await getCompanyPartnersById(id, { ...options, ...page })
+            )
+          ),
+        });
+        return;
+      }
+
+      const result = id
+        ? await getCompanyPartnersById(id, { ...options, limit, offset })
+        : null;
+
+      if (!result) {
+        res.status(404).json({ error: 'Company not found' });
+        return;
+      }
+
+      const validated = PartnersResponseSchema.parse(result);
+      res.status(200).json(validated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        console.error('Validation error:', error.issues);
+        res.status(400).json({ error: 'Invalid response data' });
+        return;
+      }
+      console.error('Error fetching company partners:', error);
+      res.status(500).json({ error: 'Failed to fetch company partners' });
+    }
+  };
+}
+
+/**
+ * Handler for GET `.../similar` - a company's likely competitors (see
+ * getSimilarCompaniesById()).
+ */
+export function similarCompaniesHandler(route: CompanyRoute) {
+  return async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<SimilarCompaniesResponse | { error: string }>
+  ) {
+    if (req.method !== 'GET') {
+      res.status(405).end();
+      return;
+    }
+
+    const company = companyParam(route, req, res);
+    if (!company) {
+      return;
+    }
+
+    const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+    if (!parsedRange.success) {
+      res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+      return;
+    }
+
+    try {
+      const limit = parsePositiveInt(
+        req.query.limit,
+        DEFAULT_SIMILAR_LIMIT,
+        MAX_SIMILAR_LIMIT
+      );
+      const range = await resolveDateRange(parsedRange.data);
+      const id = await route.resolve(company);
+      const data = id
+        ? await getSimilarCompaniesById(id, { limit, range })
+        : null;
+
+      if (!data) {
+        res.status(404).json({ error: 'Company not found' });
+        return;
+      }
+
+      const validated = SimilarCompaniesResponseSchema.parse({ data });
+      res.status(200).json(validated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        console.error('Validation error:', error.issues);
+        res.status(400).json({ error: 'Invalid response data' });
+        return;
+      }
+      console.error('Error fetching similar companies:', error);
+      res.status(500).json({ error: 'Failed to fetch similar companies' });
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import type {
+  DateRange,
+  DateRangePreset,
+  DateRangeQuery,
+} from '@/types/shipment';
+
+/** Formats a UTC date as "YYYY-MM-DD" */
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Turns a date preset into an inclusive `from`/`to` range.
+ *
+ * Rolling presets end on `anchor`:
+ * - `last30d` - The 30 days up to and including `anchor`
+ * - `ytd` - January 1st of the anchor's year to `anchor`
+ * - `last12m` - The 12 months up to and including `anchor`
+ * - `quarter` - First day of the anchor's quarter to `anchor`
+ *
+ * A calendar quarter ("2025-Q3") covers the whole quarter regardless of
+ * `anchor`.
+ *
+ * @example presetRange('ytd', '2025-12-14') // { from: '2025-01-01', to: '2025-12-14' }
+ * @param anchor - Last day of rolling presets (YYYY-MM-DD)
+ */
+export function presetRange(
+  preset: DateRangePreset,
+  anchor: string
+): DateRange {
+  const end = new Date(`${anchor}T00:00:00Z`);
+  const year = end.getUTCFullYear();
+  const month = end.getUTCMonth();
+
+  switch (preset) {
+    case 'last30d':
+      return {
+        from: isoDate(new Date(Date.UTC(year, month, end.getUTCDate() - 29))),
+        to: anchor,
+      };
+    case 'ytd':
+      return { from: `${year}-01-01`, to: anchor };
+    case 'last12m': {
+      // Same day a year earlier, clamped so Feb 29 maps to Feb 28, plus a day
+      const lastDay = new Date(Date.UTC(year - 1, month + 1, 0)).getUTCDate();
+      const day = Math.min(end.getUTCDate(), lastDay) + 1;
+      return {
+        from: isoDate(new Date(Date.UTC(year - 1, month, day))),
+        to: anchor,
+      };
+    }
+    case 'quarter':
+      return {
+        from: isoDate(new Date(Date.UTC(year, month - (month % 3), 1))),
+        to: anchor,
+      };
+    default: {
+      const [quarterYear, quarter] = preset.split('-Q').map(Number);
+      const startMonth = (quarter - 1) * 3;
+      return {
+        from: isoDate(new Date(Date.UTC(quarterYear, startMonth, 1))),
+        // Day 0 of the following month is the quarter's last day
+        to: isoDate(new Date(Date.UTC(quarterYear, startMonth + 3, 0))),
+      };
+    }
+  }
+}
+
+/**
+ * Serializes a date range selection as query parameters.
+ *
+ * @example dateRangeParams({ preset: 'ytd' }) // 'preset=ytd'
+ * @returns A query string without the leading "?" - empty for "all time"
+ */
+export function dateRangeParams(range: DateRangeQuery): string {
+  const params = new URLSearchParams();
+  if (range.preset) {
+    params.set('preset', range.preset);
+  } else {
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+  }
+  return params.toString();
+}
+
+/**
+ * Formats an ISO month start as a short chart label.
+ *
+ * @example formatMonth('2025-04-01') // 'Apr 2025'
+ */
+export function formatMonth(month: string): string {
+  return new Date(month).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
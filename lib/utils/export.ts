@@ -0,0 +1,230 @@
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import type { NextApiResponse } from 'next';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+} from '@/types/export';
+
+/** Rows fetched per query while streaming an export */
+export const EXPORT_BATCH_SIZE = 1000;
+
+interface ExportOptions<T extends object> {
+  /** Download name without extension, e.g. "companies" */
+  filename: string;
+  /** Columns in output order; also the CSV header and XLSX header row */
+  columns: readonly (keyof T & string)[];
+  /** Batches of rows, e.g. from paginate() */
+  rows: AsyncIterable<T[]> | Iterable<T[]>;
+}
+
+/**
+ * Picks the export format for a request: an explicit `format` parameter
+ * wins, otherwise an `Accept` header naming CSV, XLSX or NDJSON.
+ *
+ * `Accept: application/json` (or `*\/*`) keeps the normal paginated
+ * response, so JSON exports need `format=json`.
+ *
+ * @param format - Parsed `format` query parameter
+ * @param accept - Raw `Accept` header
+ * @returns The format to export, or null for the normal response
+ */
+export function requestedExportFormat(
+  format: ExportFormat | undefined,
+  accept: string | undefined
+): ExportFormat | null {
+  if (format) {
+    return format;
+  }
+  const accepted = (accept ?? '')
+    .split(',')
+    .map(type => type.split(';')[0].trim().toLowerCase());
+  return (
+    EXPORT_FORMATS.find(
+      candidate =>
+        candidate !== 'json' &&
+        accepted.includes(EXPORT_CONTENT_TYPES[candidate])
+    ) ?? null
+  );
+}
+
+/**
+ * Fetches every page of a paginated listing, one batch at a time.
+ *
+ * @param fetchPage - Loads one page, e.g. `page => getCompanies({ ...filters, ...page })`
+ * @param batchSize - Rows per page (default: EXPORT_BATCH_SIZE)
+ */
+export async function* paginate<T>(
+  fetchPage: (page: { limit: number; offset: number }) => Promise<{
+    data: T[];
+  }>,
+  batchSize = EXPORT_BATCH_SIZE
+): AsyncGenerator<T[]> {
+  for (let offset = 0; ; offset += batchSize) {
+    const { data } = await fetchPage({ limit: batchSize, offset });
+    if (data.length > 0) {
+      yield data;
+    }
+    if (data.length < batchSize) {
+      return;
+    }
+  }
+}
+
+/** Flattens a value for CSV and XLSX cells: lists are joined with "; " */
+function cellValue(value: unknown): string | number | boolean {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join('; ');
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Formats one CSV field (RFC 4180). Text starting with `=`, `+`, `-` or `@`
+ * is prefixed with `'` so spreadsheets don't evaluate it as a formula.
+ */
+export function csvField(value: unknown): string {
+  const cell = cellValue(value);
+  if (typeof cell !== 'string') {
+    return String(cell);
+  }
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Streams rows to the response as a file download.
+ *
+ * - **csv** - Header line, then one line per row
+ * - **xlsx** - One worksheet, written incrementally
+ * - **json** - A single JSON array
+ * - **ndjson** - One JSON object per line
+ *
+ * The first batch is read before any headers are sent, so a failing query
+ * still gets a normal 500. An error after that aborts the connection and the
+ * client sees a truncated download. If the client disconnects, no more rows
+ * are read and the row source is closed.
+ */
+export async function sendExport<T extends object>(
+  res: NextApiResponse,
+  format: ExportFormat,
+  { filename, columns, rows }: ExportOptions<T>
+): Promise<void> {
+  const batches = (async function* () {
+    yield* rows;
+  })();
+  const first = await batches.next();
+
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename}.${format}"`
+  );
+  res.status(200);
+
+  async function* allBatches(): AsyncGenerator<T[]> {
+    try {
+      if (!first.done) {
+        yield first.value;
+        yield* batches;
+      }
+    } finally {
+      // Stopping early must close the row source too, even mid first batch
+      await batches.return(undefined);
+    }
+  }
+
+  let closed = false;
+  res.once('close', () => {
+    closed = true;
+  });
+  const isOpen = () => !closed && !res.destroyed;
+
+  const cells = (row: T) =>
+    columns.map(column => (row as Record<string, unknown>)[column]);
+  // Resolves false once the client is gone - 'drain' never comes after that
+  const write = async (chunk: string): Promise<boolean> => {
+    if (!isOpen()) {
+      return false;
+    }
+    if (res.write(chunk) === false) {
+      const waiting = new AbortController();
+      const { signal } = waiting;
+      try {
+        await Promise.race([
+          once(res, 'drain', { signal }),
+          once(res, 'close', { signal }),
+        ]);
+      } finally {
+        waiting.abort();
+      }
+    }
+    return isOpen();
+  };
+
+  try {
+    if (format === 'xlsx') {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+      const sheet = workbook.addWorksheet(filename);
+      sheet.columns = columns.map(key => ({ header: key, key }));
+      for await (const batch of allBatches()) {
+        if (!isOpen()) {
+          return;
+        }
+        for (const row of batch) {
+          sheet.addRow(cells(row).map(cellValue)).commit();
+        }
+      }
+      sheet.commit();
+      await workbook.commit();
+      return;
+    }
+
+    const header =
+      format === 'csv'
+        ? `${columns.join(',')}\r\n`
+        : format === 'json'
+          ? '['
+          : '';
+    if (header && !(await write(header))) {
+      return;
+    }
+    let separator = '';
+    for await (const batch of allBatches()) {
+      let chunk = '';
+      for (const row of batch) {
+        if (format === 'csv') {
+          chunk += `${cells(row).map(csvField).join(',')}\r\n`;
+          continue;
+        }
+        const values = cells(row);
+        const picked = Object.fromEntries(
+          columns.map((column, i) => [column, values[i]])
+        );
+        if (format === 'ndjson') {
+          chunk += `${JSON.stringify(picked)}\n`;
+        } else {
+          chunk += `${separator}\n${JSON.stringify(picked)}`;
+          separator = ',';
+        }
+      }
+      if (!(await write(chunk))) {
+        return;
+      }
+    }
+    if (format === 'json' && !(await write('\n]\n'))) {
+      return;
+    }
+    res.end();
+  } catch (error) {
+    console.error(`Error streaming ${format} export:`, error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+}
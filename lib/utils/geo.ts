@@ -0,0 +1,80 @@
+import { geoArea, geoCentroid } from 'd3-geo';
+import countryCodes from 'i18n-iso-countries';
+import { feature } from 'topojson-client';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import world from 'world-atlas/countries-110m.json';
+
+export interface CountryShape {
+  /** ISO 3166-1 alpha-2 code, as in importer_country / exporter_country */
+  code: string | null;
+  name: string;
+  feature: Feature<Polygon | MultiPolygon>;
+}
+
+let shapes: CountryShape[] | null = null;
+
+/**
+ * Country outlines from the Natural Earth 1:110m data bundled with
+ * world-atlas, so maps render without any network access.
+ *
+ * world-atlas keys countries by ISO numeric code; they are mapped to the
+ * alpha-2 codes the shipment data uses. A few disputed areas have no ISO
+ * code and get `code: null`. Converted once and cached.
+ */
+export function countryShapes(): CountryShape[] {
+  if (!shapes) {
+    const topology = world as unknown as Topology<{
+      countries: GeometryCollection<{ name: string }>;
+    }>;
+    shapes = feature(topology, topology.objects.countries).features.map(
+      shape => ({
+        code:
+          shape.id === undefined
+            ? null
+            : (countryCodes.numericToAlpha2(String(shape.id)) ?? null),
+        name: shape.properties.name,
+        feature: shape as Feature<Polygon | MultiPolygon>,
+      })
+    );
+  }
+  return shapes;
+}
+
+/**
+ * Longitude/latitude to anchor a country's flows on.
+ *
+ * Uses the centroid of the country's largest polygon, so overseas
+ * territories (French Guiana, Alaska) don't drag the point into the ocean.
+ */
+export function mainlandCentroid(
+  shape: Feature<Polygon | MultiPolygon>
+): [number, number] {
+  const { geometry } = shape;
+  if (geometry.type === 'Polygon') {
+    return geoCentroid(shape);
+  }
+  const largest = geometry.coordinates
+    .map(coordinates => ({ type: 'Polygon' as const, coordinates }))
+    .reduce((a, b) => (geoArea(b) > geoArea(a) ? b : a));
+  return geoCentroid(largest);
+}
+
+/**
+ * SVG path for a flow arc between two projected points.
+ *
+ * A quadratic curve bowed to the left of the direction of travel, so the
+ * A → B and B → A arcs between the same countries don't overlap. `bend` is
+ * the control point's offset as a fraction of the distance.
+ */
+export function arcPath(
+  from: [number, number],
+  to: [number, number],
+  bend = 0.25
+): string {
+  const [x1, y1] = from;
+  const [x2, y2] = to;
+  const cx = (x1 + x2) / 2 + (y2 - y1) * bend;
+  const cy = (y1 + y2) / 2 - (x2 - x1) * bend;
+  return `M${x1},${y1} Q${cx},${cy} ${x2},${y2}`;
+}
@@ -0,0 +1,112 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Positions graph nodes with a Fruchterman-Reingold force simulation.
+ *
+ * Every pair of nodes repels and every edge pulls its ends together; a
+ * cooling step size lets the layout settle. Nodes start on a circle in input
+ * order, so the same graph always gets the same layout. Positions are clamped
+ * to `width` x `height`, `padding` in from each side.
+ *
+ * O(nodes² × iterations) - fine for the few hundred nodes /api/network
+ * returns.
+ *
+ * @returns Position of every node, keyed by id
+ */
+export function forceLayout(
+  nodes: readonly { id: string }[],
+  edges: readonly { source: string; target: string }[],
+  options: {
+    width: number;
+    height: number;
+    padding?: number;
+    iterations?: number;
+  }
+): Map<string, Point> {
+  const { width, height } = options;
+  const padding = options.padding ?? 20;
+  const iterations = options.iterations ?? 300;
+  const positions = new Map<string, Point>();
+  if (nodes.length === 0) {
+    return positions;
+  }
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.min(width, height) / 2 - padding;
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    positions.set(node.id, {
+      x: cx + radius * Math.cos(angle),
+      y: cy + radius * Math.sin(angle),
+    });
+  });
+
+  // Ideal distance between nodes for the available area
+  const k = Math.sqrt(
+    ((width - 2 * padding) * (height - 2 * padding)) / nodes.length
+  );
+  const links = edges.filter(
+    edge =>
+      edge.source !== edge.target &&
+      positions.has(edge.source) &&
+      positions.has(edge.target)
+  );
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = (radius / 4) * (1 - step / iterations);
+    const moves = new Map<string, Point>(
+      nodes.map(node => [node.id, { x: 0, y: 0 }])
+    );
+
+    for (let i = 0; i < nodes.length; i++) {
+      const a = positions.get(nodes[i].id)!;
+      const moveA = moves.get(nodes[i].id)!;
+      for (let j = i + 1; j < nodes.length; j++) {
+        const b = positions.get(nodes[j].id)!;
+        const moveB = moves.get(nodes[j].id)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.hypot(dx, dy);
+        const force = (k * k) / distance;
+        moveA.x += (dx / distance) * force;
+        moveA.y += (dy / distance) * force;
+        moveB.x -= (dx / distance) * force;
+        moveB.y -= (dy / distance) * force;
+      }
+    }
+
+    for (const { source, target } of links) {
+      const a = positions.get(source)!;
+      const b = positions.get(target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const force = (distance * distance) / k;
+      moves.get(source)!.x -= (dx / distance) * force;
+      moves.get(source)!.y -= (dy / distance) * force;
+      moves.get(target)!.x += (dx / distance) * force;
+      moves.get(target)!.y += (dy / distance) * force;
+    }
+
+    for (const node of nodes) {
+      const position = positions.get(node.id)!;
+      const move = moves.get(node.id)!;
+      const length = Math.hypot(move.x, move.y) || 1;
+      const scale = Math.min(length, temperature) / length;
+      position.x = Math.min(
+        width - padding,
+        Math.max(padding, position.x + move.x * scale)
+      );
+      position.y = Math.min(
+        height - padding,
+        Math.max(padding, position.y + move.y * scale)
+      );
+    }
+  }
+
+  return positions;
+}
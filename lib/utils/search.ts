@@ -0,0 +1,164 @@
+/** Query words beyond this are ignored */
+export const MAX_SEARCH_TERMS = 8;
+
+/** A word matches a query term at this similarity or above */
+export const MIN_TERM_SIMILARITY = 0.85;
+
+/** Similarity of a word that starts with the term, e.g. "bos" in "bosch" */
+export const PREFIX_SIMILARITY = 0.95;
+
+/** Shorter terms only match exactly or as a prefix - typos in them are noise */
+export const MIN_FUZZY_LENGTH = 3;
+
+/** A word with its offsets in the original text, end exclusive */
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits text into lowercase ASCII words with their offsets. Accents are
+ * stripped and anything else breaks words, the same as the SQL matcher's
+ * `regexp_split_to_array(lower(strip_accents(text)), '[^a-z0-9]+')`.
+ */
+function words(text: string): Word[] {
+  const found: Word[] = [];
+  let current: Word | null = null;
+  let offset = 0;
+  for (const char of text) {
+    const folded = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    if (/^[a-z0-9]+$/.test(folded)) {
+      current ??= { word: '', start: offset, end: offset };
+      current.word += folded;
+      current.end = offset + char.length;
+    } else if (current) {
+      found.push(current);
+      current = null;
+    }
+    offset += char.length;
+  }
+  if (current) {
+    found.push(current);
+  }
+  return found;
+}
+
+/**
+ * Turns a search query into terms: distinct lowercase words, accents
+ * stripped, punctuation dropped.
+ *
+ * @example searchTerms('Müller-Bosch  GmbH') // ['muller', 'bosch', 'gmbh']
+ */
+export function searchTerms(query: string): string[] {
+  const terms = [...new Set(words(query).map(({ word }) => word))];
+  return terms.slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Jaro-Winkler similarity (0-1), matching DuckDB's
+ * `jaro_winkler_similarity()`: a common prefix of up to 4 characters boosts
+ * scores above 0.7.
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const last = Math.min(b.length - 1, i + window);
+    for (let j = Math.max(0, i - window); j <= last; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (aMatched[i]) {
+      while (!bMatched[j]) {
+        j++;
+      }
+      if (a[i] !== b[j]) {
+        transpositions++;
+      }
+      j++;
+    }
+  }
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+  if (jaro <= 0.7) {
+    return jaro;
+  }
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * How well one word matches one query term: 1 when equal,
+ * PREFIX_SIMILARITY when the word starts with the term, otherwise
+ * Jaro-Winkler (0 for terms shorter than MIN_FUZZY_LENGTH).
+ */
+export function termSimilarity(word: string, term: string): number {
+  if (word === term) {
+    return 1;
+  }
+  if (word.startsWith(term)) {
+    return PREFIX_SIMILARITY;
+  }
+  return term.length < MIN_FUZZY_LENGTH ? 0 : jaroWinkler(word, term);
+}
+
+/**
+ * How well a whole text matches the terms, as in fuzzyMatches(): the
+ * average of each term's best word, or 0 unless every term reaches
+ * MIN_TERM_SIMILARITY. For lists too small to be worth a query.
+ *
+ * @param terms - Non-empty terms from searchTerms()
+ */
+export function textSimilarity(text: string, terms: string[]): number {
+  const textWords = words(text).map(({ word }) => word);
+  const best = terms.map(term =>
+    Math.max(0, ...textWords.map(word => termSimilarity(word, term)))
+  );
+  return best.every(similarity => similarity >= MIN_TERM_SIMILARITY)
+    ? best.reduce((sum, similarity) => sum + similarity, 0) / best.length
+    : 0;
+}
+
+/**
+ * Finds the words of `text` that match any of `terms`, for highlighting.
+ *
+ * @param terms - Terms from searchTerms()
+ * @returns `[start, end)` offsets into `text`, in order
+ */
+export function highlightSpans(
+  text: string,
+  terms: string[]
+): [number, number][] {
+  return words(text)
+    .filter(({ word }) =>
+      terms.some(term => termSimilarity(word, term) >= MIN_TERM_SIMILARITY)
+    )
+    .map(({ start, end }) => [start, end]);
+}
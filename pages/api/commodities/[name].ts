@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCommodityDetail } from '@/lib/data/commodities';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { parsePositiveInt } from '@/lib/utils/api';
+import { CommodityDetail, CommodityDetailSchema } from '@/types/commodity';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/commodities/[name] - Trend and top traders for one commodity.
+ *
+ * @param name - URL-encoded commodity name, case-insensitive (required)
+ * @query limit - Max importers, exporters and lanes (default: 10, max: 50)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CommodityDetail } Success Response
+ * @throws 400 - Missing name parameter or invalid date range
+ * @throws 404 - Commodity not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CommodityDetail | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const { name } = req.query;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'Commodity name is required' });
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  try {
+    const range = await resolveDateRange(parsedRange.data);
+    const commodity = await getCommodityDetail(
+      decodeURIComponent(name),
+      range,
+      limit
+    );
+
+    if (!commodity) {
+      res.status(404).json({ error: 'Commodity not found' });
+      return;
+    }
+
+    const validated = CommodityDetailSchema.parse(commodity);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching commodity detail:', error);
+    res.status(500).json({ error: 'Failed to fetch commodity detail' });
+  }
+}
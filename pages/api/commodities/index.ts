@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCommodities } from '@/lib/data/commodities';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  CommoditiesResponse,
+  CommoditiesResponseSchema,
+} from '@/types/commodity';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/commodities - Paginated list of commodities with trade totals.
+ *
+ * Commodities are ordered by kg, heaviest first.
+ *
+ * @query limit - Max commodities to return (default: 50, max: 500)
+ * @query offset - Number to skip for pagination (default: 0)
+ * @query search - Optional search string to filter commodities by name (case-insensitive)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { data: CommoditySummary[], total: number } Success Response
+ * @throws 400 - Invalid date range
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CommoditiesResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  try {
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = parsePositiveInt(req.query.offset, 0);
+    const search =
+      typeof req.query.search === 'string' ? req.query.search : undefined;
+
+    const range = await resolveDateRange(parsedRange.data);
+
+    const result = await getCommodities({ limit, offset, search, ...range });
+    const validated = CommoditiesResponseSchema.parse(result);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching commodities:', error);
+    res.status(500).json({ error: 'Failed to fetch commodities' });
+  }
+}
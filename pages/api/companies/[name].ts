@@ -1,15 +1,19 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { ZodError } from 'zod';
-import { getCompanyDetail } from '@/lib/data/shipments';
+import { z, ZodError } from 'zod';
+import { getCompanyDetail, resolveDateRange } from '@/lib/data/shipments';
 import { CompanyDetail, CompanyDetailSchema } from '@/types/company';
+import { DateRangeQuerySchema } from '@/types/shipment';
 
 /**
  * GET /api/companies/[name] - Detailed info for a specific company.
  *
  * @param name - URL-encoded company name (required)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
  *
  * @returns - { CompanyDetail object Success Response } Success Response
- * @throws 400 - Missing or invalid name parameter
+ * @throws 400 - Missing or invalid name parameter, or invalid date range
  * @throws 404 - Company not found
  * @throws 405 - Method not allowed
  * @throws 500 - Server error
@@ -30,9 +34,16 @@ export default async function handler(
     return;
   }
 
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
   try {
     const companyName = decodeURIComponent(name);
-    const company = await getCompanyDetail(companyName);
+    const range = await resolveDateRange(parsedRange.data);
+    const company = await getCompanyDetail(companyName, range);
 
     if (!company) {
       res.status(404).json({ error: 'Company not found' });
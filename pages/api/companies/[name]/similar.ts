@@ -0,0 +1,22 @@
+import { BY_NAME, similarCompaniesHandler } from '@/lib/utils/companyRoutes';
+
+/**
+ * GET /api/companies/[name]/similar - Likely competitors of a company.
+ *
+ * Ranks other companies by how many customers, suppliers and commodities
+ * they share with this one, in the same role. See getSimilarCompaniesById
+ * for the scoring.
+ *
+ * @param name - URL-encoded company name (required)
+ * @query limit - Max companies to return (default: 10, max: 50)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { data: SimilarCompany[] } Success Response
+ * @throws 400 - Missing name parameter, or invalid date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default similarCompaniesHandler(BY_NAME);
@@ -0,0 +1,20 @@
+import { BY_NAME, companyTimeseriesHandler } from '@/lib/utils/companyRoutes';
+
+/**
+ * GET /api/companies/[name]/timeseries - Monthly shipment history.
+ *
+ * Returns shipments and kg per month, split into import and export roles,
+ * with months that had no activity zero-filled.
+ *
+ * @param name - URL-encoded company name (required)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CompanyTimeseries } Success Response
+ * @throws 400 - Missing or invalid name parameter, or invalid date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default companyTimeseriesHandler(BY_NAME);
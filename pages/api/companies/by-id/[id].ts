@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCompanyDetailById, resolveDateRange } from '@/lib/data/shipments';
+import { CompanyDetail, CompanyDetailSchema } from '@/types/company';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+/**
+ * GET /api/companies/by-id/[id] - Detailed info for a company by stable ID.
+ *
+ * Prefer this over /api/companies/[name] for links: IDs survive name
+ * variants and don't depend on exact spelling.
+ *
+ * @param id - Company ID, e.g. "mann-hummel-mexico-us" (required)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CompanyDetail object } Success Response
+ * @throws 400 - Missing or invalid id parameter, or invalid date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompanyDetail | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    res.status(400).json({ error: 'Company id is required' });
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  try {
+    const range = await resolveDateRange(parsedRange.data);
+    const company = await getCompanyDetailById(id, range);
+
+    if (!company) {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+
+    const validated = CompanyDetailSchema.parse(company);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching company detail:', error);
+    res.status(500).json({ error: 'Failed to fetch company detail' });
+  }
+}
@@ -0,0 +1,26 @@
+import { BY_ID, companyPartnersHandler } from '@/lib/utils/companyRoutes';
+
+/**
+ * GET /api/companies/by-id/[id]/partners - Trading partners by company ID.
+ *
+ * Same response as /api/companies/[name]/partners; used by the detail
+ * panel, which already knows the company's stable ID.
+ *
+ * @param id - Company ID, e.g. "mann-hummel-mexico-us" (required)
+ * @query limit - Max partners to return (default: 20, max: 100)
+ * @query offset - Number to skip for pagination (default: 0)
+ * @query sort - shipments | kg (default: shipments)
+ * @query order - asc | desc (default: desc)
+ * @query direction - suppliers | customers | both (default: both)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ * @query format - csv | xlsx | json | ndjson; downloads every matching row instead of a page
+ *
+ * @returns - { data: Partner[], total: number } Success Response
+ * @throws 400 - Missing id parameter, or invalid sort, direction, date range or format
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default companyPartnersHandler(BY_ID);
@@ -0,0 +1,21 @@
+import { BY_ID, similarCompaniesHandler } from '@/lib/utils/companyRoutes';
+
+/**
+ * GET /api/companies/by-id/[id]/similar - Likely competitors by company ID.
+ *
+ * Same response as /api/companies/[name]/similar; used by the detail
+ * panel, which already knows the company's stable ID.
+ *
+ * @param id - Company ID, e.g. "mann-hummel-mexico-us" (required)
+ * @query limit - Max companies to return (default: 10, max: 50)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { data: SimilarCompany[] } Success Response
+ * @throws 400 - Missing id parameter, or invalid date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default similarCompaniesHandler(BY_ID);
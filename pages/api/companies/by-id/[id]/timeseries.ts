@@ -0,0 +1,20 @@
+import { BY_ID, companyTimeseriesHandler } from '@/lib/utils/companyRoutes';
+
+/**
+ * GET /api/companies/by-id/[id]/timeseries - Monthly shipment history by ID.
+ *
+ * Same response as /api/companies/[name]/timeseries; used by the detail
+ * panel, which already knows the company's stable ID.
+ *
+ * @param id - Company ID, e.g. "mann-hummel-mexico-us" (required)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CompanyTimeseries } Success Response
+ * @throws 400 - Missing or invalid id parameter, or invalid date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default companyTimeseriesHandler(BY_ID);
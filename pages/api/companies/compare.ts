@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { compareCompanies } from '@/lib/data/compare';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  CompanyComparison,
+  CompanyComparisonSchema,
+  CompareQuerySchema,
+} from '@/types/company';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/companies/compare - Side-by-side metrics for 2-5 companies.
+ *
+ * @query names - Company IDs or names, comma-separated (repeat the parameter
+ *   instead for names containing commas)
+ * @query limit - Max shared partners and commodities (default: 20, max: 100)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CompanyComparison } Success Response
+ * @throws 400 - Fewer than 2 or more than 5 companies, the same company
+ *   twice, or invalid date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompanyComparison | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsed = CompareQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: z.prettifyError(parsed.error) });
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  try {
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const range = await resolveDateRange(parsedRange.data);
+    const result = await compareCompanies(parsed.data.names, range, limit);
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ error: `Company not found: ${result.ref}` });
+      return;
+    }
+    if (result.status === 'duplicate') {
+      res
+        .status(400)
+        .json({ error: `${result.ref} is already in the comparison` });
+      return;
+    }
+
+    const validated = CompanyComparisonSchema.parse(result.comparison);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error comparing companies:', error);
+    res.status(500).json({ error: 'Failed to compare companies' });
+  }
+}
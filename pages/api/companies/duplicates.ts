@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getDuplicateCandidates } from '@/lib/data/duplicates';
+import { DuplicatesResponse, DuplicatesResponseSchema } from '@/types/company';
+import { parsePositiveInt, MAX_LIMIT, DEFAULT_LIMIT } from '@/lib/utils/api';
+
+const DuplicatesQuerySchema = z.object({
+  minScore: z.coerce.number().min(0).max(1).default(0.75),
+});
+
+/**
+ * GET /api/companies/duplicates - Suggested duplicate company pairs.
+ *
+ * Pairs are scored on name similarity, shared website domain and shared
+ * country. Accept a suggestion with POST /api/companies/merges.
+ *
+ * @query minScore - Lowest score to return, 0-1 (default: 0.75)
+ * @query limit - Max pairs to return (default: 100, max: 1000)
+ * @query offset - Number to skip for pagination (default: 0)
+ *
+ * @returns - { data: DuplicateCandidate[], total: number } Success Response
+ * @throws 400 - Invalid minScore
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DuplicatesResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsed = DuplicatesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: z.prettifyError(parsed.error) });
+    return;
+  }
+
+  try {
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = parsePositiveInt(req.query.offset, 0);
+
+    const result = await getDuplicateCandidates({
+      minScore: parsed.data.minScore,
+      limit,
+      offset,
+    });
+    const validated = DuplicatesResponseSchema.parse(result);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching duplicate companies:', error);
+    res.status(500).json({ error: 'Failed to fetch duplicate companies' });
+  }
+}
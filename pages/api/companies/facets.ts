@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { getCompanyFacets } from '@/lib/data/facets';
+import {
+  CompanyFacets,
+  CompanyFacetQuerySchema,
+  CompanyFacetsSchema,
+} from '@/types/company';
+import { CountryListSchema, DateRangeQuerySchema } from '@/types/shipment';
+
+/**
+ * GET /api/companies/facets - Company counts per filter value for the list.
+ *
+ * The `facets` of /api/companies on their own, so a client paging or sorting
+ * the list with `facets=false` doesn't recount them. Takes the list's
+ * filters; sort and pagination parameters are ignored.
+ *
+ * @query search - Optional search string to filter companies by name (case-insensitive)
+ * @query q - Optional fuzzy search over names, websites and commodities
+ * @query sector - Exact industry sector (case-insensitive)
+ * @query country - Comma-separated country codes the company is based in (e.g. "DE,NL")
+ * @query role - Comma-separated roles: importer | exporter | both
+ * @query commodity - Exact commodity name the company traded; repeat for several
+ * @query minShipments - Minimum shipments counted
+ * @query minWeight - Minimum total weight counted, in kg
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CompanyFacets } Success Response; companies per country, role,
+ *   commodity and sector, each under every filter but its own (see
+ *   getCompanyFacets())
+ * @throws 400 - Invalid country list, facet filter or date range
+ * @throws 405 - Method not allowed (non-GET requests)
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompanyFacets | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  const parsedCountry = CountryListSchema.optional().safeParse(
+    req.query.country
+  );
+  if (!parsedCountry.success) {
+    res.status(400).json({ error: z.prettifyError(parsedCountry.error) });
+    return;
+  }
+
+  const parsedFacets = CompanyFacetQuerySchema.safeParse(req.query);
+  if (!parsedFacets.success) {
+    res.status(400).json({ error: z.prettifyError(parsedFacets.error) });
+    return;
+  }
+
+  try {
+    const search =
+      typeof req.query.search === 'string' ? req.query.search : undefined;
+    const q =
+      typeof req.query.q === 'string' && req.query.q.trim()
+        ? req.query.q.trim()
+        : undefined;
+    const sector =
+      typeof req.query.sector === 'string' && req.query.sector.trim()
+        ? req.query.sector.trim()
+        : undefined;
+
+    const range = await resolveDateRange(parsedRange.data);
+    const facets = await getCompanyFacets({
+      search,
+      q,
+      country: parsedCountry.data,
+      sector,
+      ...range,
+      ...parsedFacets.data,
+    });
+
+    const validated = CompanyFacetsSchema.parse(facets);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching company facets:', error);
+    res.status(500).json({ error: 'Failed to fetch company facets' });
+  }
+}
@@ -1,8 +1,22 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { ZodError } from 'zod';
-import { getCompanies } from '@/lib/data/shipments';
-import { CompaniesResponse, CompaniesResponseSchema } from '@/types/company';
+import { z, ZodError } from 'zod';
+import { getCompanies, resolveDateRange } from '@/lib/data/shipments';
+import { getCompanyFacets } from '@/lib/data/facets';
+import {
+  CompaniesResponse,
+  CompaniesResponseSchema,
+  CompanyFacetQuerySchema,
+  CompanyListItemSchema,
+  CompanySortQuerySchema,
+} from '@/types/company';
+import { ExportQuerySchema } from '@/types/export';
+import { CountryListSchema, DateRangeQuerySchema } from '@/types/shipment';
 import { parsePositiveInt, MAX_LIMIT, DEFAULT_LIMIT } from '@/lib/utils/api';
+import {
+  paginate,
+  requestedExportFormat,
+  sendExport,
+} from '@/lib/utils/export';
 
 /**
  * GET /api/companies - Paginated list of companies with aggregated stats.
@@ -10,8 +24,28 @@ import { parsePositiveInt, MAX_LIMIT, DEFAULT_LIMIT } from '@/lib/utils/api';
  * @query limit - Max companies to return (default: 100, max: 1000)
  * @query offset - Number to skip for pagination (default: 0)
  * @query search - Optional search string to filter companies by name (case-insensitive)
+ * @query q - Optional fuzzy search over names, websites and commodities (as /api/search);
+ *   ranks by relevance unless `sort` is given
+ * @query sector - Exact industry sector (case-insensitive); totals count only its shipments
+ * @query country - Comma-separated country codes the company is based in (e.g. "DE,NL")
+ * @query role - Comma-separated roles: importer | exporter | both
+ * @query commodity - Exact commodity name the company traded; repeat for several
+ * @query minShipments - Minimum shipments counted
+ * @query minWeight - Minimum total weight counted, in kg
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ * @query sort - name | country | totalShipments | totalWeight | firstShipment | lastShipment
+ *   (default: relevance with `q`, else totalShipments)
+ * @query order - asc | desc (default: desc)
+ * @query format - csv | xlsx | json | ndjson; downloads every matching row instead of a page
+ * @query facets - "false" leaves out `facets`, e.g. when only paging or sorting
+ *   (default: true; /api/companies/facets returns them alone)
  *
- * @returns - { data: CompanyListItem[], total: number } Success Response
+ * @returns - { data: CompanyListItem[], total: number, facets?: CompanyFacets }
+ *   Success Response; `facets` counts companies per country, role, commodity and
+ *   sector, each under every filter but its own (see getCompanyFacets())
+ * @throws 400 - Invalid country list, facet filter, date range, sort or format
  * @throws 405 - Method not allowed (non-GET requests)
  * @throws 500 - Server error
  */
@@ -24,14 +58,86 @@ export default async function handler(
     return;
   }
 
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  const parsedCountry = CountryListSchema.optional().safeParse(
+    req.query.country
+  );
+  if (!parsedCountry.success) {
+    res.status(400).json({ error: z.prettifyError(parsedCountry.error) });
+    return;
+  }
+
+  const parsedFacets = CompanyFacetQuerySchema.safeParse(req.query);
+  if (!parsedFacets.success) {
+    res.status(400).json({ error: z.prettifyError(parsedFacets.error) });
+    return;
+  }
+
+  const parsedSort = CompanySortQuerySchema.safeParse(req.query);
+  if (!parsedSort.success) {
+    res.status(400).json({ error: z.prettifyError(parsedSort.error) });
+    return;
+  }
+
+  const parsedExport = ExportQuerySchema.safeParse(req.query);
+  if (!parsedExport.success) {
+    res.status(400).json({ error: z.prettifyError(parsedExport.error) });
+    return;
+  }
+
   try {
     const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
     const offset = parsePositiveInt(req.query.offset, 0);
     const search =
       typeof req.query.search === 'string' ? req.query.search : undefined;
+    const q =
+      typeof req.query.q === 'string' && req.query.q.trim()
+        ? req.query.q.trim()
+        : undefined;
+    const sector =
+      typeof req.query.sector === 'string' && req.query.sector.trim()
+        ? req.query.sector.trim()
+        : undefined;
+
+    const range = await resolveDateRange(parsedRange.data);
+    const filters = {
+      search,
+      q,
+      country: parsedCountry.data,
+      sector,
+      ...range,
+      ...parsedFacets.data,
+      ...parsedSort.data,
+    };
+
+    const format = requestedExportFormat(
+      parsedExport.data.format,
+      req.headers.accept
+    );
+    if (format) {
+      await sendExport(res, format, {
+        filename: 'companies',
+        columns: CompanyListItemSchema.keyof().options,
+        rows: paginate(async page =>
+          CompaniesResponseSchema.parse(
+            await getCompanies({ ...filters, ...page })
+          )
+        ),
+      });
+      return;
+    }
 
-    const result = await getCompanies({ limit, offset, search });
-    const validated = CompaniesResponseSchema.parse(result);
+    const result = await getCompanies({ limit, offset, ...filters });
+    const facets =
+      req.query.facets === 'false'
+        ? undefined
+        : await getCompanyFacets(filters);
+    const validated = CompaniesResponseSchema.parse({ ...result, facets });
     res.status(200).json(validated);
   } catch (error) {
     if (error instanceof ZodError) {
@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCompanyMerges, mergeCompanies } from '@/lib/data/duplicates';
+import {
+  CompanyMerge,
+  CompanyMergesResponse,
+  CompanyMergesResponseSchema,
+  CompanyMergeSchema,
+  MergeRequestSchema,
+} from '@/types/company';
+
+/**
+ * /api/companies/merges - The company alias table.
+ *
+ * GET lists accepted merges. POST accepts a merge: the source company becomes
+ * an alias of the target, and every company aggregation combines them from
+ * then on.
+ *
+ * @body sourceId - Company ID to merge away (POST)
+ * @body targetId - Company ID to keep (POST)
+ *
+ * @returns - { data: CompanyMerge[] } Success Response (GET)
+ * @returns - CompanyMerge, status 201 (POST)
+ * @throws 400 - Invalid request body
+ * @throws 404 - Source or target company not found
+ * @throws 405 - Method not allowed
+ * @throws 409 - Companies are already merged
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompanyMergesResponse | CompanyMerge | { error: string }>
+) {
+  if (req.method === 'GET') {
+    try {
+      const data = await getCompanyMerges();
+      res.status(200).json(CompanyMergesResponseSchema.parse({ data }));
+    } catch (error) {
+      console.error('Error fetching company merges:', error);
+      res.status(500).json({ error: 'Failed to fetch company merges' });
+    }
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsed = MergeRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: z.prettifyError(parsed.error) });
+    return;
+  }
+
+  try {
+    const result = await mergeCompanies(
+      parsed.data.sourceId,
+      parsed.data.targetId
+    );
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+    if (result.status === 'already_merged') {
+      res.status(409).json({ error: 'Companies are already merged' });
+      return;
+    }
+
+    const validated = CompanyMergeSchema.parse(result.merge);
+    res.status(201).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error merging companies:', error);
+    res.status(500).json({ error: 'Failed to merge companies' });
+  }
+}
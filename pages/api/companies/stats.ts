@@ -1,15 +1,32 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { ZodError } from 'zod';
-import { getCompanyStats } from '@/lib/data/shipments';
-import { StatsResponse, StatsResponseSchema } from '@/types/company';
+import { z, ZodError } from 'zod';
+import { getCompanyStats, resolveDateRange } from '@/lib/data/shipments';
+import {
+  StatsExportQuerySchema,
+  StatsResponse,
+  StatsResponseSchema,
+} from '@/types/company';
+import { ExportQuerySchema } from '@/types/export';
+import { DateRangeQuerySchema } from '@/types/shipment';
+import { requestedExportFormat, sendExport } from '@/lib/utils/export';
 
 /**
  * GET /api/companies/stats - Dashboard statistics.
  *
- * Returns aggregate counts and top commodities for dashboard cards/charts.
- * Separate from /api/companies to avoid refetching stats on pagination.
+ * Returns aggregate counts, top commodities and sector breakdowns for
+ * dashboard cards/charts. Separate from /api/companies to avoid refetching
+ * stats on pagination.
  *
- * @returns - { StatsResponse (importers, exporters, commodities, monthly volume) } Success Response
+ * @query sector - Exact industry sector (case-insensitive); segments every metric
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ * @query format - csv | xlsx | json | ndjson; downloads one table's rows
+ * @query table - monthlyVolume | topCommodities | sectors | sectorMonthly,
+ *   the table to export (default: monthlyVolume)
+ *
+ * @returns - { StatsResponse (importers, exporters, commodities, monthly volume, sectors) } Success Response
+ * @throws 400 - Invalid date range, format or table
  * @throws 405 - Method not allowed
  * @throws 500 - Server error
  */
@@ -22,9 +39,43 @@ export default async function handler(
     return;
   }
 
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+  const parsedExport = ExportQuerySchema.extend(
+    StatsExportQuerySchema.shape
+  ).safeParse(req.query);
+  if (!parsedExport.success) {
+    res.status(400).json({ error: z.prettifyError(parsedExport.error) });
+    return;
+  }
+
   try {
-    const stats = await getCompanyStats();
+    const sector =
+      typeof req.query.sector === 'string' && req.query.sector.trim()
+        ? req.query.sector.trim()
+        : undefined;
+
+    const range = await resolveDateRange(parsedRange.data);
+    const stats = await getCompanyStats(range, sector);
     const validated = StatsResponseSchema.parse(stats);
+
+    const format = requestedExportFormat(
+      parsedExport.data.format,
+      req.headers.accept
+    );
+    if (format) {
+      const { table } = parsedExport.data;
+      await sendExport<Record<string, unknown>>(res, format, {
+        filename: table,
+        columns: Object.keys(StatsResponseSchema.shape[table].element.shape),
+        rows: [validated[table]],
+      });
+      return;
+    }
+
     res.status(200).json(validated);
   } catch (error) {
     if (error instanceof ZodError) {
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCountryDetail } from '@/lib/data/countries';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { parsePositiveInt } from '@/lib/utils/api';
+import { CountryDetail, CountryDetailSchema } from '@/types/country';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/countries/[code] - Trade detail for one country.
+ *
+ * @param code - Country code as used in shipments, case-insensitive (required)
+ * @query limit - Max partner countries, commodities and companies (default: 10, max: 50)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CountryDetail } Success Response
+ * @throws 400 - Missing country code or invalid date range
+ * @throws 404 - No shipments involve the country
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CountryDetail | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const { code } = req.query;
+
+  if (!code || typeof code !== 'string' || !code.trim()) {
+    res.status(400).json({ error: 'Country code is required' });
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  try {
+    const range = await resolveDateRange(parsedRange.data);
+    const country = await getCountryDetail(code, range, limit);
+
+    if (!country) {
+      res.status(404).json({ error: 'Country not found' });
+      return;
+    }
+
+    const validated = CountryDetailSchema.parse(country);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching country detail:', error);
+    res.status(500).json({ error: 'Failed to fetch country detail' });
+  }
+}
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCountryFlows } from '@/lib/data/countries';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  CountryFlowsResponse,
+  CountryFlowsResponseSchema,
+} from '@/types/country';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/countries/flows - Origin → destination flow matrix.
+ *
+ * Origins are exporter countries and destinations importer countries. Only
+ * non-empty cells are returned in `flows`; the axes list the kept countries
+ * in order so the matrix can be drawn directly.
+ *
+ * @query limit - Max origins and max destinations, by kg (default: 20, max: 100)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CountryFlowsResponse } Success Response
+ * @throws 400 - Invalid date range
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CountryFlowsResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  try {
+    const range = await resolveDateRange(parsedRange.data);
+    const flows = await getCountryFlows(range, limit);
+
+    const response = CountryFlowsResponseSchema.parse(flows);
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching country flows:', error);
+    res.status(500).json({ error: 'Failed to fetch country flows' });
+  }
+}
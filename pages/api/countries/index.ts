@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getCountries } from '@/lib/data/countries';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { CountriesResponse, CountriesResponseSchema } from '@/types/country';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+/**
+ * GET /api/countries - Import and export totals per country.
+ *
+ * Imports are counted by importer_country and exports by exporter_country.
+ * Countries are ordered by total kg, busiest first.
+ *
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { CountriesResponse } Success Response
+ * @throws 400 - Invalid date range
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CountriesResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  try {
+    const range = await resolveDateRange(parsedRange.data);
+    const data = await getCountries(range);
+
+    const response = CountriesResponseSchema.parse({ data });
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching countries:', error);
+    res.status(500).json({ error: 'Failed to fetch countries' });
+  }
+}
@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ZodError } from 'zod';
+import { getExportJob } from '@/lib/data/exports';
+import { ExportJob, ExportJobSchema } from '@/types/export';
+
+/**
+ * GET /api/exports/[id] - Status of a background export.
+ *
+ * @param id - Export job ID from POST /api/exports
+ *
+ * @returns - ExportJob (status, progress, rows, expiresAt, downloadUrl) Success Response
+ * @throws 400 - Missing export job ID
+ * @throws 404 - Export job not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExportJob | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string') {
+    res.status(400).json({ error: 'Missing export job ID' });
+    return;
+  }
+
+  try {
+    const job = getExportJob(id);
+    if (!job) {
+      res.status(404).json({ error: 'Export job not found' });
+      return;
+    }
+
+    res.status(200).json(ExportJobSchema.parse(job));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching export job:', error);
+    res.status(500).json({ error: 'Failed to fetch export job' });
+  }
+}
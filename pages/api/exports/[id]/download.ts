@@ -0,0 +1,73 @@
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExportJobFile } from '@/lib/data/exports';
+import { EXPORT_JOB_CONTENT_TYPES } from '@/types/export';
+
+/**
+ * GET /api/exports/[id]/download - The file of a completed export.
+ *
+ * @param id - Export job ID from POST /api/exports
+ *
+ * @returns - The CSV or Parquet file as an attachment
+ * @throws 400 - Missing export job ID
+ * @throws 404 - Export job not found
+ * @throws 405 - Method not allowed
+ * @throws 409 - Export is still running, or failed
+ * @throws 410 - Export has expired and its file was deleted
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string') {
+    res.status(400).json({ error: 'Missing export job ID' });
+    return;
+  }
+
+  const found = getExportJobFile(id);
+  if (!found) {
+    res.status(404).json({ error: 'Export job not found' });
+    return;
+  }
+
+  const { job, file } = found;
+  if (job.status === 'expired') {
+    res.status(410).json({ error: 'Export has expired' });
+    return;
+  }
+  if (job.status === 'failed') {
+    res.status(409).json({ error: `Export failed: ${job.error}` });
+    return;
+  }
+  if (job.status !== 'completed') {
+    res.status(409).json({ error: 'Export is not ready yet' });
+    return;
+  }
+
+  try {
+    const { size } = fs.statSync(file);
+    res.setHeader('Content-Type', EXPORT_JOB_CONTENT_TYPES[job.format]);
+    res.setHeader('Content-Length', size);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${job.resource}-${job.createdAt.slice(0, 10)}.${job.format}"`
+    );
+    res.status(200);
+    await pipeline(fs.createReadStream(file), res);
+  } catch (error) {
+    console.error('Error downloading export:', error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.status(500).json({ error: 'Failed to download export' });
+  }
+}
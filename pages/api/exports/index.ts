@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { createExportJob } from '@/lib/data/exports';
+import {
+  ExportJob,
+  ExportJobRequestSchema,
+  ExportJobSchema,
+} from '@/types/export';
+
+/**
+ * POST /api/exports - Starts a background export of shipments or companies.
+ *
+ * For extracts too large to stream within a request. The export runs as a
+ * DuckDB `COPY ... TO` into a CSV or Parquet file; poll the returned job
+ * (also linked from the `Location` header) until it completes, then fetch
+ * its `downloadUrl`. Finished files are deleted after 24 hours.
+ *
+ * @body resource - shipments | companies
+ * @body format - csv | parquet (default: csv)
+ * @body query - Filters and sort accepted by GET /api/shipments or
+ *   GET /api/companies, e.g. { "commodity": "steel", "from": "2024-01-01" }
+ *
+ * @returns - ExportJob, status 202
+ * @throws 400 - Invalid resource, format or query
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExportJob | { error: string }>
+) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsed = ExportJobRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: z.prettifyError(parsed.error) });
+    return;
+  }
+
+  try {
+    const job = ExportJobSchema.parse(createExportJob(parsed.data));
+    res.setHeader('Location', `/api/exports/${job.id}`);
+    res.status(202).json(job);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error creating export job:', error);
+    res.status(500).json({ error: 'Failed to create export job' });
+  }
+}
@@ -0,0 +1,78 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getNetwork } from '@/lib/data/network';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  NetworkQuerySchema,
+  NetworkResponse,
+  NetworkResponseSchema,
+} from '@/types/network';
+import { DateRangeQuerySchema } from '@/types/shipment';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/network - Trade network as a directed graph.
+ *
+ * Nodes are companies; edges run from exporter to importer, weighted by
+ * shipment count and kg. Without `company` the busiest companies are
+ * returned; with it, the ego network within `depth` hops of that company.
+ *
+ * @query company - Center company ID for an ego network
+ * @query depth - Hops from `company`, 1-3 (default: 1)
+ * @query commodity - Only count shipments whose commodity contains this text
+ * @query limit - Max nodes (default: 100, max: 500)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ *
+ * @returns - { nodes: NetworkNode[], edges: NetworkEdge[], truncated: boolean } Success Response
+ * @throws 400 - Invalid depth, commodity or date range
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<NetworkResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedQuery = NetworkQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: z.prettifyError(parsedQuery.error) });
+    return;
+  }
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+
+  try {
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const range = await resolveDateRange(parsedRange.data);
+    const network = await getNetwork({ ...parsedQuery.data, range, limit });
+
+    if (!network) {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+
+    const validated = NetworkResponseSchema.parse(network);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching network:', error);
+    res.status(500).json({ error: 'Failed to fetch network' });
+  }
+}
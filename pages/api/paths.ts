@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { findPaths } from '@/lib/data/paths';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  PathsQuerySchema,
+  PathsResponse,
+  PathsResponseSchema,
+} from '@/types/network';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+/**
+ * GET /api/paths - Supply-chain routes between two companies.
+ *
+ * Follows trade from exporter to importer through intermediaries and returns
+ * the shortest routes and the strongest (largest kg on the weakest leg).
+ * `from` and `to` name companies here, so this endpoint has no date range.
+ *
+ * @query from - Upstream company ID or name (required)
+ * @query to - Downstream company ID or name (required)
+ * @query maxHops - Longest route considered, 1-5 (default: 3)
+ * @query limit - Max routes in each list (default: 5, max: 20)
+ *
+ * @returns - { PathsResponse } Success Response
+ * @throws 400 - Missing companies, `from` and `to` resolving to the same
+ *   company, or invalid maxHops
+ * @throws 404 - Company not found
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PathsResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsed = PathsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: z.prettifyError(parsed.error) });
+    return;
+  }
+
+  try {
+    const { from, to, maxHops } = parsed.data;
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const result = await findPaths(from, to, { maxHops, limit });
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+    if (result.status === 'same_company') {
+      res
+        .status(400)
+        .json({ error: '`from` and `to` must be different companies' });
+      return;
+    }
+
+    const validated = PathsResponseSchema.parse(result.paths);
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error finding paths:', error);
+    res.status(500).json({ error: 'Failed to find paths' });
+  }
+}
@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { searchCompanies } from '@/lib/data/search';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  SearchQuerySchema,
+  SearchResponse,
+  SearchResponseSchema,
+} from '@/types/search';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/search - Fuzzy company search with ranked, highlighted matches.
+ *
+ * Matches name variants, website domains and traded commodities. Words may be
+ * misspelt or in any order; name matches outrank website and commodity ones.
+ *
+ * @query q - Search query (required, max 200 characters)
+ * @query limit - Max companies to return (default: 20, max: 100)
+ * @query offset - Number to skip for pagination (default: 0)
+ *
+ * @returns - { query: string, data: SearchResult[], total: number } Success Response
+ * @throws 400 - Missing or empty query
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SearchResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedQuery = SearchQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: z.prettifyError(parsedQuery.error) });
+    return;
+  }
+
+  try {
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = parsePositiveInt(req.query.offset, 0);
+    const { q } = parsedQuery.data;
+
+    const result = await searchCompanies(q, { limit, offset });
+    const validated = SearchResponseSchema.parse({ query: q, ...result });
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error searching companies:', error);
+    res.status(500).json({ error: 'Failed to search companies' });
+  }
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { getSuggestions } from '@/lib/data/search';
+import { parsePositiveInt } from '@/lib/utils/api';
+import {
+  SearchQuerySchema,
+  SuggestResponse,
+  SuggestResponseSchema,
+} from '@/types/search';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+/**
+ * GET /api/search/suggest - Grouped typeahead suggestions for the command palette.
+ *
+ * Uses the same fuzzy matching as /api/search, over companies, commodities,
+ * countries (name or code) and industry sectors.
+ *
+ * @query q - Search query (required, max 200 characters)
+ * @query limit - Max suggestions per group (default: 5, max: 20)
+ *
+ * @returns - { query, companies, commodities, countries, sectors: Suggestion[] } Success Response
+ * @throws 400 - Missing or empty query
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuggestResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedQuery = SearchQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: z.prettifyError(parsedQuery.error) });
+    return;
+  }
+
+  try {
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+    const { q } = parsedQuery.data;
+
+    const suggestions = await getSuggestions(q, limit);
+    const validated = SuggestResponseSchema.parse({ query: q, ...suggestions });
+    res.status(200).json(validated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching suggestions:', error);
+    res.status(500).json({ error: 'Failed to fetch suggestions' });
+  }
+}
@@ -1,15 +1,43 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
 import { loadShipments } from '@/lib/data/shipments';
-import { Shipment } from '@/types/shipment';
+import {
+  Shipment,
+  ShipmentQuerySchema,
+  SHIPMENT_COLUMNS,
+} from '@/types/shipment';
+import { ExportQuerySchema } from '@/types/export';
 import { parsePositiveInt, MAX_LIMIT, DEFAULT_LIMIT } from '@/lib/utils/api';
+import {
+  paginate,
+  requestedExportFormat,
+  sendExport,
+} from '@/lib/utils/export';
 
 /**
- * GET /api/shipments - Paginated list of raw shipment records.
+ * GET /api/shipments - Filterable, sortable, paginated list of raw shipment records.
  *
  * @query limit - Max shipments to return (default: 100, max: 1000)
  * @query offset - Number to skip for pagination (default: 0)
+ * @query importer - Importer name contains (case-insensitive)
+ * @query exporter - Exporter name contains (case-insensitive)
+ * @query importerCountry - Comma-separated importer country codes (e.g. "US,DE")
+ * @query exporterCountry - Comma-separated exporter country codes
+ * @query commodity - Commodity name contains (case-insensitive)
+ * @query sector - Exact industry sector (case-insensitive)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query minWeight - Minimum weight in metric tonnes
+ * @query maxWeight - Maximum weight in metric tonnes
+ * @query sort - Any Shipment column (default: shipment_date)
+ * @query order - asc | desc (default: desc)
+ * @query format - csv | xlsx | json | ndjson; downloads every matching row instead of a page
+ *
+ * An `Accept: text/csv`, XLSX or `application/x-ndjson` header also selects
+ * an export. Exports apply the filters and sort but ignore limit/offset.
  *
  * @returns - { data: Shipment[], total: number } Success Response
+ * @throws 400 - Invalid filter, sort or format parameters
  * @throws 405 - Method not allowed
  * @throws 500 - Server error
  */
@@ -22,11 +50,35 @@ export default async function handler(
     return;
   }
 
+  const parsed = ShipmentQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: z.prettifyError(parsed.error) });
+    return;
+  }
+  const parsedExport = ExportQuerySchema.safeParse(req.query);
+  if (!parsedExport.success) {
+    res.status(400).json({ error: z.prettifyError(parsedExport.error) });
+    return;
+  }
+
   try {
+    const format = requestedExportFormat(
+      parsedExport.data.format,
+      req.headers.accept
+    );
+    if (format) {
+      await sendExport(res, format, {
+        filename: 'shipments',
+        columns: SHIPMENT_COLUMNS,
+        rows: paginate(page => loadShipments({ ...parsed.data, ...page })),
+      });
+      return;
+    }
+
     const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
     const offset = parsePositiveInt(req.query.offset, 0);
 
-    const result = await loadShipments({ limit, offset });
+    const result = await loadShipments({ ...parsed.data, limit, offset });
     res.status(200).json(result);
   } catch (error) {
     console.error('Error fetching shipments:', error);
@@ -0,0 +1,179 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { appendShipments } from '@/lib/data/shipments';
+import {
+  ShipmentImportResponse,
+  ShipmentImportResponseSchema,
+  ShipmentImportResult,
+  ShipmentInput,
+  ShipmentSchema,
+} from '@/types/shipment';
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '10mb' },
+  },
+};
+
+/** Max records accepted in one request */
+const MAX_RECORDS = 10000;
+
+type ParsedRecord = { value: unknown } | { error: string };
+
+/**
+ * Splits the request body into records.
+ *
+ * JSON bodies arrive already parsed by Next.js; any other content type (e.g.
+ * `application/x-ndjson`) arrives as text, which is read as a JSON array if it
+ * starts with `[` and as one JSON record per line otherwise. A line that is
+ * not valid JSON becomes a rejected row rather than failing the request.
+ *
+ * @returns The records, or null if the body is neither an array nor NDJSON
+ */
+function parseBody(body: unknown): ParsedRecord[] | null {
+  if (Array.isArray(body)) {
+    return body.map(value => ({ value }));
+  }
+  if (typeof body !== 'string' || body.trim() === '') {
+    return null;
+  }
+
+  const text = body.trim();
+  if (text.startsWith('[')) {
+    try {
+      return parseBody(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  }
+
+  return text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      try {
+        return { value: JSON.parse(line) };
+      } catch {
+        return { error: 'Invalid JSON' };
+      }
+    });
+}
+
+/** Best-effort id of a record that failed validation, for the report */
+function recordId(value: unknown): string | null {
+  const id = (value as { id?: unknown } | null)?.id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+/**
+ * POST /api/shipments/import - Appends shipment records to the dataset.
+ *
+ * Accepts a JSON array (`application/json`) or NDJSON
+ * (`application/x-ndjson`, one record per line) of Shipment records, up to
+ * 10,000 per request. Each record is validated with ShipmentSchema; records
+ * repeating an `id` from earlier in the body or already stored are rejected.
+ * Accepted records are appended and company aggregates update immediately.
+ *
+ * @returns - ShipmentImportResponse with a per-row accepted/rejected report
+ * @throws 400 - Body is not a JSON array or NDJSON, or has too many records
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ShipmentImportResponse | { error: string }>
+) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+
+  const records = parseBody(req.body);
+  if (!records || records.length === 0) {
+    res.status(400).json({
+      error: 'Body must be a non-empty JSON array or NDJSON of shipments',
+    });
+    return;
+  }
+  if (records.length > MAX_RECORDS) {
+    res.status(400).json({
+      error: `At most ${MAX_RECORDS} shipments can be imported per request`,
+    });
+    return;
+  }
+
+  try {
+    const results: ShipmentImportResult[] = [];
+    const valid: ShipmentInput[] = [];
+    const seen = new Set<string>();
+
+    records.forEach((record, index) => {
+      const row = index + 1;
+      if ('error' in record) {
+        results.push({
+          row,
+          id: null,
+          status: 'rejected',
+          errors: [record.error],
+        });
+        return;
+      }
+
+      const parsed = ShipmentSchema.safeParse(record.value);
+      if (!parsed.success) {
+        results.push({
+          row,
+          id: recordId(record.value),
+          status: 'rejected',
+          errors: parsed.error.issues.map(issue =>
+            issue.path.length > 0
+              ? `${issue.path.join('.')}: ${issue.message}`
+              : issue.message
+          ),
+        });
+        return;
+      }
+
+      const { id } = parsed.data;
+      if (seen.has(id)) {
+        results.push({
+          row,
+          id,
+          status: 'rejected',
+          errors: ['Duplicate id in request'],
+        });
+        return;
+      }
+      seen.add(id);
+      valid.push(parsed.data);
+      results.push({ row, id, status: 'accepted', errors: [] });
+    });
+
+    const { duplicates } = await appendShipments(valid);
+    const existing = new Set(duplicates);
+    for (const result of results) {
+      if (result.status === 'accepted' && existing.has(result.id!)) {
+        result.status = 'rejected';
+        result.errors = ['Shipment with this id already exists'];
+      }
+    }
+
+    const accepted = results.filter(r => r.status === 'accepted').length;
+    const response = ShipmentImportResponseSchema.parse({
+      accepted,
+      rejected: results.length - accepted,
+      results,
+    });
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error('Zod validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+
+    console.error('Error importing shipments:', error);
+    res.status(500).json({ error: 'Failed to import shipments' });
+  }
+}
@@ -0,0 +1,122 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z, ZodError } from 'zod';
+import { resolveDateRange } from '@/lib/data/shipments';
+import { countBuckets, getTimeseries } from '@/lib/data/timeseries';
+import { parsePositiveInt } from '@/lib/utils/api';
+import { requestedExportFormat, sendExport } from '@/lib/utils/export';
+import { ExportQuerySchema } from '@/types/export';
+import { DateRangeQuerySchema } from '@/types/shipment';
+import {
+  TimeseriesQuerySchema,
+  TimeseriesResponse,
+  TimeseriesResponseSchema,
+} from '@/types/stats';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/** Buckets per series - longer ranges need a coarser interval */
+const MAX_BUCKETS = 1000;
+
+/**
+ * GET /api/stats/timeseries - Shipment activity over time.
+ *
+ * Buckets are labelled with their ISO start date and zero-filled, so charts
+ * can show seasonality without gaps. See getTimeseries for bucket bounds.
+ *
+ * @query interval - day | week | month | quarter | year (default: month)
+ * @query metric - kg | shipments | companies (default: kg)
+ * @query groupBy - commodity | industry_sector | country; one series per group
+ * @query limit - Max series with groupBy, largest first (default: 10, max: 50)
+ * @query from - Earliest shipment date, inclusive (YYYY-MM-DD)
+ * @query to - Latest shipment date, inclusive (YYYY-MM-DD)
+ * @query preset - last30d | ytd | last12m | quarter | YYYY-Qn, instead of from/to
+ * @query format - csv | xlsx | json | ndjson; downloads one row per series
+ *   and bucket (group, bucket, value)
+ *
+ * @returns - { TimeseriesResponse } Success Response
+ * @throws 400 - Invalid interval, metric, groupBy, date range or format, or
+ *   more than MAX_BUCKETS buckets in the range
+ * @throws 405 - Method not allowed
+ * @throws 500 - Server error
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TimeseriesResponse | { error: string }>
+) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+
+  const parsedQuery = TimeseriesQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: z.prettifyError(parsedQuery.error) });
+    return;
+  }
+  const parsedRange = DateRangeQuerySchema.safeParse(req.query);
+  if (!parsedRange.success) {
+    res.status(400).json({ error: z.prettifyError(parsedRange.error) });
+    return;
+  }
+  const parsedExport = ExportQuerySchema.safeParse(req.query);
+  if (!parsedExport.success) {
+    res.status(400).json({ error: z.prettifyError(parsedExport.error) });
+    return;
+  }
+
+  const { interval, metric, groupBy } = parsedQuery.data;
+  const limit = parsePositiveInt(req.query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  try {
+    const range = await resolveDateRange(parsedRange.data);
+    const buckets = await countBuckets(interval, range);
+    if (buckets > MAX_BUCKETS) {
+      res.status(400).json({
+        error: `Range spans ${buckets} ${interval} buckets; the maximum is ${MAX_BUCKETS}. Pick a shorter range or a coarser interval.`,
+      });
+      return;
+    }
+    const series = await getTimeseries({
+      interval,
+      metric,
+      groupBy,
+      range,
+      limit,
+    });
+
+    const response = TimeseriesResponseSchema.parse({
+      interval,
+      metric,
+      groupBy: groupBy ?? null,
+      series,
+    });
+
+    const format = requestedExportFormat(
+      parsedExport.data.format,
+      req.headers.accept
+    );
+    if (format) {
+      await sendExport(res, format, {
+        filename: `timeseries-${metric}`,
+        columns: ['group', 'bucket', 'value'],
+        rows: [
+          response.series.flatMap(({ group, points }) =>
+            points.map(point => ({ group, ...point }))
+          ),
+        ],
+      });
+      return;
+    }
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('Validation error:', error.issues);
+      res.status(400).json({ error: 'Invalid response data' });
+      return;
+    }
+    console.error('Error fetching timeseries:', error);
+    res.status(500).json({ error: 'Failed to fetch timeseries' });
+  }
+}
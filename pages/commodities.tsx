@@ -0,0 +1,387 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import useSWR from 'swr';
+import { useDebounce } from 'use-debounce';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import Navigation from '@/components/Navigation';
+import DateRangePicker from '@/components/DateRangePicker';
+import type {
+  CommoditiesResponse,
+  CommodityCompany,
+  CommodityDetail,
+} from '@/types/commodity';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams, formatMonth } from '@/lib/utils/dates';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const PAGE_SIZE = 20;
+
+const pageButtonClassName =
+  'rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800';
+
+export default function CommoditiesPage() {
+  const router = useRouter();
+  // The selected commodity lives in the URL (?name=) so other pages can link to it
+  const selectedName =
+    typeof router.query.name === 'string' ? router.query.name : null;
+  const [page, setPage] = useState(0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch] = useDebounce(searchQuery, 300);
+  const [dateRange, setDateRange] = useState<DateRangeQuery>({});
+  const rangeParams = dateRangeParams(dateRange);
+
+  const { data, isLoading, error } = useSWR<CommoditiesResponse>(
+    `/api/commodities?limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}${debouncedSearch ? `&search=${encodeURIComponent(debouncedSearch)}` : ''}${rangeParams ? `&${rangeParams}` : ''}`,
+    fetcher
+  );
+
+  const { data: detail, isLoading: detailLoading } = useSWR<CommodityDetail>(
+    selectedName
+      ? `/api/commodities/${encodeURIComponent(selectedName)}${rangeParams ? `?${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+
+  const totalPages = Math.ceil((data?.total ?? 0) / PAGE_SIZE);
+  const failed = error || (data && 'error' in data);
+
+  const select = (name: string) =>
+    router.push({ pathname: '/commodities', query: { name } }, undefined, {
+      shallow: true,
+    });
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
+        <div className="mx-auto max-w-7xl">
+          <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
+              Commodities
+            </h1>
+            <DateRangePicker
+              value={dateRange}
+              onChange={range => {
+                setDateRange(range);
+                setPage(0);
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            {/* Commodity List */}
+            <div className="flex flex-col rounded-lg bg-white shadow lg:col-span-2 dark:bg-zinc-900">
+              <div className="flex flex-col gap-4 border-b border-zinc-200 p-6 sm:flex-row sm:items-center sm:justify-between dark:border-zinc-800">
+                <div>
+                  <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    Commodity List
+                  </h2>
+                  <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                    {data?.total !== undefined
+                      ? `${data.total.toLocaleString()} ${debouncedSearch ? 'matches' : 'commodities'}`
+                      : 'Loading...'}
+                  </p>
+                </div>
+                <input
+                  type="text"
+                  placeholder="Search commodities..."
+                  aria-label="Search commodities"
+                  value={searchQuery}
+                  onChange={e => {
+                    setSearchQuery(e.target.value);
+                    setPage(0);
+                  }}
+                  className="w-full rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm text-zinc-900 placeholder-zinc-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none sm:w-64 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50 dark:placeholder-zinc-500"
+                />
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                      {['Commodity', 'Sector'].map(label => (
+                        <th
+                          key={label}
+                          className="px-6 py-3 text-left text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400"
+                        >
+                          {label}
+                        </th>
+                      ))}
+                      {['Shipments', 'Weight', 'Importers', 'Exporters'].map(
+                        label => (
+                          <th
+                            key={label}
+                            className="px-6 py-3 text-right text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400"
+                          >
+                            {label}
+                          </th>
+                        )
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {isLoading ? (
+                      [...Array(10)].map((_, idx) => (
+                        <tr
+                          key={idx}
+                          className="border-b border-zinc-100 dark:border-zinc-800"
+                        >
+                          <td colSpan={6} className="px-6 py-4">
+                            <div className="h-4 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                          </td>
+                        </tr>
+                      ))
+                    ) : failed ? (
+                      <tr>
+                        <td
+                          colSpan={6}
+                          className="px-6 py-12 text-center text-sm text-red-600 dark:text-red-400"
+                        >
+                          Failed to load commodities
+                        </td>
+                      </tr>
+                    ) : !data || data.data.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={6}
+                          className="px-6 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400"
+                        >
+                          {searchQuery
+                            ? `No results for "${searchQuery}"`
+                            : 'No commodities found'}
+                        </td>
+                      </tr>
+                    ) : (
+                      data.data.map(commodity => (
+                        <tr
+                          key={commodity.name}
+                          onClick={() => select(commodity.name)}
+                          className={`cursor-pointer border-b border-zinc-100 transition-colors dark:border-zinc-800 ${
+                            selectedName?.toLowerCase() ===
+                            commodity.name.toLowerCase()
+                              ? 'bg-blue-50 dark:bg-blue-900/20'
+                              : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+                          }`}
+                        >
+                          <td className="px-6 py-4 text-sm text-zinc-900 dark:text-zinc-50">
+                            {commodity.name}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-zinc-600 dark:text-zinc-400">
+                            {commodity.industrySector}
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm text-zinc-900 dark:text-zinc-50">
+                            {commodity.shipments.toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm text-zinc-600 dark:text-zinc-400">
+                            {commodity.kg.toLocaleString()} kg
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm text-zinc-600 dark:text-zinc-400">
+                            {commodity.importers.toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm text-zinc-600 dark:text-zinc-400">
+                            {commodity.exporters.toLocaleString()}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between border-t border-zinc-200 px-6 py-4 dark:border-zinc-800">
+                  <button
+                    onClick={() => setPage(p => p - 1)}
+                    disabled={page === 0}
+                    className={pageButtonClassName}
+                  >
+                    Previous
+                  </button>
+                  <span className="text-sm text-zinc-600 dark:text-zinc-400">
+                    Page {page + 1} of {totalPages}
+                  </span>
+                  <button
+                    onClick={() => setPage(p => p + 1)}
+                    disabled={page + 1 >= totalPages}
+                    className={pageButtonClassName}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Commodity Detail */}
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              {!selectedName ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Select a commodity to see its trend, top traders and lanes.
+                </p>
+              ) : detailLoading || !detail ? (
+                <div className="space-y-3">
+                  <div className="h-6 w-40 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                  <div className="h-40 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                </div>
+              ) : 'error' in detail ? (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {String(detail.error)}
+                </p>
+              ) : (
+                <>
+                  <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    {detail.name}
+                  </h2>
+                  <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+                    {detail.industrySector}
+                  </p>
+                  <div className="mb-6 grid grid-cols-2 gap-4">
+                    <div className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
+                      <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+                        {detail.shipments.toLocaleString()}
+                      </p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        Shipments
+                      </p>
+                    </div>
+                    <div className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
+                      <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+                        {(detail.kg / 1000).toFixed(1)}k
+                      </p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        kg Total
+                      </p>
+                    </div>
+                  </div>
+
+                  <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                    Monthly Trend
+                  </h3>
+                  <div className="mb-6 h-40">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart
+                        data={detail.monthly.map(point => ({
+                          ...point,
+                          month: formatMonth(point.month),
+                        }))}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                        <XAxis
+                          dataKey="month"
+                          stroke="#71717a"
+                          style={{ fontSize: '11px' }}
+                        />
+                        <YAxis
+                          stroke="#71717a"
+                          style={{ fontSize: '11px' }}
+                          width={40}
+                          tickFormatter={value =>
+                            `${(value / 1000).toFixed(0)}k`
+                          }
+                        />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: '#18181b',
+                            border: '1px solid #27272a',
+                            borderRadius: '6px',
+                            color: '#fafafa',
+                          }}
+                          formatter={value => [
+                            `${Number(value).toLocaleString()} kg`,
+                            'Weight',
+                          ]}
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="kg"
+                          stroke="#3b82f6"
+                          fill="#3b82f6"
+                          fillOpacity={0.4}
+                        />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <CompanyList
+                    title="Top Importers"
+                    companies={detail.topImporters}
+                  />
+                  <CompanyList
+                    title="Top Exporters"
+                    companies={detail.topExporters}
+                  />
+
+                  {detail.topLanes.length > 0 && (
+                    <>
+                      <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                        Top Lanes
+                      </h3>
+                      <ul className="space-y-2 text-sm">
+                        {detail.topLanes.map(lane => (
+                          <li
+                            key={`${lane.origin}-${lane.destination}`}
+                            className="flex justify-between text-zinc-600 dark:text-zinc-400"
+                          >
+                            <span className="text-zinc-900 dark:text-zinc-50">
+                              {lane.origin} → {lane.destination}
+                            </span>
+                            <span>{(lane.kg / 1000).toFixed(1)}k kg</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function CompanyList({
+  title,
+  companies,
+}: {
+  title: string;
+  companies: CommodityCompany[];
+}) {
+  if (companies.length === 0) {
+    return null;
+  }
+  return (
+    <>
+      <h3 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+        {title}
+      </h3>
+      <ul className="mb-6 space-y-2 text-sm">
+        {companies.map(company => (
+          <li
+            key={company.id}
+            className="flex justify-between gap-2 text-zinc-600 dark:text-zinc-400"
+          >
+            <Link
+              href={`/companies/${company.id}`}
+              className="truncate text-blue-600 hover:underline dark:text-blue-400"
+            >
+              {company.name}
+            </Link>
+            <span className="whitespace-nowrap">
+              {(company.kg / 1000).toFixed(1)}k kg
+            </span>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
@@ -1,8 +1,13 @@
 import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
 import useSWR from 'swr';
-import { useDebounce } from 'use-debounce';
+import { useDebounce, useDebouncedCallback } from 'use-debounce';
 import Navigation from '@/components/Navigation';
 import CompanyDetail from '@/components/CompanyDetail';
+import DateRangePicker from '@/components/DateRangePicker';
+import ExportButton from '@/components/ExportButton';
+import Highlight from '@/components/Highlight';
 import {
   BarChart,
   Bar,
@@ -12,38 +17,246 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import type { StatsResponse, CompaniesResponse } from '@/types/company';
+import {
+  COMPANY_SORTS,
+  CompanyFacetQuerySchema,
+  type CompaniesResponse,
+  type CompanyFacets,
+  type CompanySort,
+  type FacetValue,
+  type StatsResponse,
+} from '@/types/company';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams } from '@/lib/utils/dates';
+import { highlightSpans, searchTerms } from '@/lib/utils/search';
 
 const fetcher = (url: string) => fetch(url).then(res => res.json());
 const PAGE_SIZE = 20;
+const COMPARE_MAX = 5;
+/** Sortable table columns; text columns sort A-Z first, the rest high to low */
+const SORT_COLUMNS: {
+  sort: CompanySort;
+  label: string;
+  align: 'left' | 'right';
+}[] = [
+  { sort: 'name', label: 'Company Name', align: 'left' },
+  { sort: 'country', label: 'Country', align: 'left' },
+  { sort: 'totalShipments', label: 'Shipments', align: 'right' },
+  { sort: 'totalWeight', label: 'Total Weight', align: 'right' },
+  { sort: 'firstShipment', label: 'First Shipment', align: 'right' },
+  { sort: 'lastShipment', label: 'Last Shipment', align: 'right' },
+];
+const TEXT_SORTS: CompanySort[] = ['name', 'country'];
+/** Numeric facet filters, typed into inputs rather than ticked */
+type MinFilter = 'minShipments' | 'minWeight';
+
+const SECTOR_COLORS = [
+  '#3b82f6',
+  '#10b981',
+  '#f59e0b',
+  '#a855f7',
+  '#ef4444',
+  '#06b6d4',
+  '#84cc16',
+  '#ec4899',
+];
 
 export default function CompaniesPage() {
+  const router = useRouter();
+  // Country and sector filters live in the URL (?country=DE) so the map and
+  // the command palette can link here
+  const country =
+    typeof router.query.country === 'string' ? router.query.country : null;
+  const countries = country ? country.split(',').filter(Boolean) : [];
+  const sector =
+    typeof router.query.sector === 'string' && router.query.sector
+      ? router.query.sector
+      : null;
+  // Facet filters too (?role=importer,both&commodity=Steel&minShipments=10);
+  // commodity repeats since names can contain commas
+  const roles =
+    typeof router.query.role === 'string'
+      ? router.query.role.split(',').filter(Boolean)
+      : [];
+  const commodities = [router.query.commodity ?? []].flat();
+  const minShipments =
+    typeof router.query.minShipments === 'string'
+      ? router.query.minShipments
+      : '';
+  const minWeight =
+    typeof router.query.minWeight === 'string' ? router.query.minWeight : '';
+  // Sort state lives in the URL too (?sort=name&order=asc)
+  const sort = COMPANY_SORTS.find(column => column === router.query.sort);
+  const order =
+    router.query.order === 'asc' || router.query.order === 'desc'
+      ? router.query.order
+      : null;
   const [selectedCompanyOverride, setSelectedCompanyOverride] = useState<
     string | null
   >(null);
   const [page, setPage] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearch] = useDebounce(searchQuery, 300);
+  const [dateRange, setDateRange] = useState<DateRangeQuery>({});
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const rangeParams = dateRangeParams(dateRange);
+  const sectorParam = sector ? `sector=${encodeURIComponent(sector)}` : '';
 
-  // Fetch dashboard stats
+  // Fetch dashboard stats, segmented by the selected sector
+  const statsParams = [rangeParams, sectorParam].filter(Boolean).join('&');
   const {
     data: stats,
     isLoading: statsLoading,
     error: statsError,
-  } = useSWR<StatsResponse>('/api/companies/stats', fetcher);
+  } = useSWR<StatsResponse>(
+    `/api/companies/stats${statsParams ? `?${statsParams}` : ''}`,
+    fetcher
+  );
+
+  // The sector breakdown always lists every sector so one can be picked
+  const { data: allSectorStats } = useSWR<StatsResponse>(
+    `/api/companies/stats${rangeParams ? `?${rangeParams}` : ''}`,
+    fetcher
+  );
+  const sectors = allSectorStats?.sectors ?? [];
+  const sectorTotalKg = sectors.reduce((sum, s) => sum + s.kg, 0);
+
+  // Pivot monthly sector shares into one row per month for the stacked chart
+  const sectorShareRows = Object.values(
+    (allSectorStats?.sectorMonthly ?? []).reduce<
+      Record<string, Record<string, string | number>>
+    >((rows, item) => {
+      rows[item.month] ??= { month: item.month };
+      rows[item.month][item.sector] = Math.round(item.share * 1000) / 10;
+      return rows;
+    }, {})
+  );
+
+  // Merges changes into the URL query; null removes a parameter
+  const updateQuery = (changes: Record<string, string | string[] | null>) => {
+    const query = { ...router.query, ...changes };
+    for (const key of Object.keys(changes)) {
+      if (changes[key] === null) {
+        delete query[key];
+      }
+    }
+    router.push({ pathname: '/companies', query }, undefined, {
+      shallow: true,
+    });
+  };
+
+  // Searches rank by relevance until a column is picked
+  const activeSort = sort ?? (debouncedSearch ? null : 'totalShipments');
+  const activeOrder =
+    order ?? (sort && TEXT_SORTS.includes(sort) ? 'asc' : 'desc');
+  const toggleSort = (column: CompanySort) => {
+    const nextOrder =
+      column === activeSort
+        ? activeOrder === 'asc'
+          ? 'desc'
+          : 'asc'
+        : TEXT_SORTS.includes(column)
+          ? 'asc'
+          : 'desc';
+    setPage(0);
+    setSelectedCompanyOverride(null);
+    updateQuery({ sort: column, order: nextOrder });
+  };
+
+  // Facet changes start over on the first page of the new results
+  const updateFilters = (changes: Record<string, string | string[] | null>) => {
+    setPage(0);
+    setSelectedCompanyOverride(null);
+    updateQuery(changes);
+  };
+
+  // Min. filters are typed, so they reach the URL once typing pauses and only
+  // when valid - partial input such as "-" would otherwise refetch and fail
+  const [minDrafts, setMinDrafts] = useState<
+    Partial<Record<MinFilter, string>>
+  >({});
+  const urlMinFilters: Record<MinFilter, string> = { minShipments, minWeight };
+  const commitMinFilters = useDebouncedCallback(
+    (drafts: Partial<Record<MinFilter, string>>) => {
+      const changes: Record<string, string | null> = {};
+      for (const key of ['minShipments', 'minWeight'] as const) {
+        const value = drafts[key];
+        if (
+          value !== undefined &&
+          value !== urlMinFilters[key] &&
+          (value === '' ||
+            CompanyFacetQuerySchema.shape[key].safeParse(value).success)
+        ) {
+          changes[key] = value || null;
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        updateFilters(changes);
+      }
+    },
+    400
+  );
+  // A URL change from elsewhere (Clear all, back) replaces what was typed
+  const minFiltersKey = `${minShipments}|${minWeight}`;
+  const [draftsFor, setDraftsFor] = useState(minFiltersKey);
+  if (draftsFor !== minFiltersKey) {
+    setDraftsFor(minFiltersKey);
+    if (!commitMinFilters.isPending()) {
+      setMinDrafts({});
+    }
+  }
+
+  const toggleValue = (values: string[], value: string) =>
+    values.includes(value)
+      ? values.filter(other => other !== value)
+      : [...values, value];
+  const hasFacetFilters =
+    countries.length > 0 ||
+    roles.length > 0 ||
+    commodities.length > 0 ||
+    sector !== null ||
+    minShipments !== '' ||
+    minWeight !== '';
 
   // Fetch company list with pagination and server-side search
+  const companyFilterParams = [
+    debouncedSearch ? `q=${encodeURIComponent(debouncedSearch)}` : '',
+    country ? `country=${encodeURIComponent(country)}` : '',
+    roles.length > 0 ? `role=${roles.join(',')}` : '',
+    ...commodities.map(name => `commodity=${encodeURIComponent(name)}`),
+    minShipments ? `minShipments=${encodeURIComponent(minShipments)}` : '',
+    minWeight ? `minWeight=${encodeURIComponent(minWeight)}` : '',
+    sectorParam,
+    rangeParams,
+  ]
+    .filter(Boolean)
+    .join('&');
+  const sortParams = sort ? `sort=${sort}&order=${activeOrder}` : '';
+  // Exports keep the table's order, not just its filters
+  const exportParams = [companyFilterParams, sortParams]
+    .filter(Boolean)
+    .join('&');
   const {
     data: companiesData,
     isLoading: companiesLoading,
     error: companiesError,
   } = useSWR<CompaniesResponse>(
-    `/api/companies?limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}${debouncedSearch ? `&search=${encodeURIComponent(debouncedSearch)}` : ''}`,
+    router.isReady
+      ? `/api/companies?facets=false&limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}${companyFilterParams ? `&${companyFilterParams}` : ''}${sortParams ? `&${sortParams}` : ''}`
+      : null,
+    fetcher
+  );
+
+  // Facet counts only depend on the filters, so the list leaves them out and
+  // paging and sorting reuse these
+  const { data: facets } = useSWR<CompanyFacets>(
+    router.isReady ? `/api/companies/facets?${companyFilterParams}` : null,
     fetcher
   );
 
   // Use data directly (server-side search)
   const filteredCompanies = companiesData?.data ?? [];
+  const searchWords = searchTerms(debouncedSearch);
 
   // Calculate pagination info
   const totalPages = Math.ceil((companiesData?.total ?? 0) / PAGE_SIZE);
@@ -52,16 +265,25 @@ export default function CompaniesPage() {
 
   // Derive selected company: Use override if set, otherwise default to the first filtered company
   const selectedCompany =
-    selectedCompanyOverride ?? filteredCompanies[0]?.name ?? null;
+    selectedCompanyOverride ?? filteredCompanies[0]?.id ?? null;
 
   return (
     <>
       <Navigation />
       <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
         <div className="mx-auto max-w-7xl">
-          <h1 className="mb-8 text-3xl font-bold text-zinc-900 dark:text-zinc-50">
-            Companies Overview
-          </h1>
+          <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
+              Companies Overview
+            </h1>
+            <DateRangePicker
+              value={dateRange}
+              onChange={range => {
+                setDateRange(range);
+                setPage(0);
+              }}
+            />
+          </div>
 
           {/* Stats Cards */}
           <div className="mb-8 grid grid-cols-1 gap-6 md:grid-cols-2">
@@ -130,9 +352,12 @@ export default function CompaniesPage() {
                         <span className="text-lg font-semibold text-zinc-400 dark:text-zinc-600">
                           {idx + 1}
                         </span>
-                        <span className="text-sm text-zinc-900 dark:text-zinc-50">
+                        <Link
+                          href={`/commodities?name=${encodeURIComponent(item.commodity)}`}
+                          className="text-sm text-zinc-900 hover:underline dark:text-zinc-50"
+                        >
                           {item.commodity}
-                        </span>
+                        </Link>
                       </div>
                       <span className="text-sm font-medium text-zinc-600 dark:text-zinc-400">
                         {new Intl.NumberFormat('en-US', {
@@ -150,9 +375,14 @@ export default function CompaniesPage() {
 
           {/* Monthly KG Chart */}
           <div className="mb-8 rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
-            <h2 className="mb-6 text-sm font-medium text-zinc-500 dark:text-zinc-400">
-              Total Weight Shipped per Month (kg)
-            </h2>
+            <div className="mb-6 flex items-center justify-between">
+              <h2 className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                Total Weight Shipped per Month (kg)
+              </h2>
+              <ExportButton
+                href={`/api/companies/stats?table=monthlyVolume${statsParams ? `&${statsParams}` : ''}`}
+              />
+            </div>
             <div className="h-64">
               {statsLoading ? (
                 <div className="h-full animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
@@ -195,27 +425,284 @@ export default function CompaniesPage() {
             </div>
           </div>
 
-          {/* Master-Detail: Company List + Detail Panel */}
-          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
-            {/* Company List (Left/Main) */}
-            <div className="flex flex-col rounded-lg bg-white shadow lg:col-span-2 dark:bg-zinc-900">
+          {/* Sector Breakdown */}
+          <div className="mb-8 grid grid-cols-1 gap-6 md:grid-cols-3">
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                  Sectors
+                </h2>
+                <div className="flex items-center gap-3">
+                  {sector && (
+                    <button
+                      onClick={() => {
+                        updateFilters({ sector: null });
+                      }}
+                      className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      All sectors
+                    </button>
+                  )}
+                  <ExportButton
+                    href={`/api/companies/stats?table=sectors${rangeParams ? `&${rangeParams}` : ''}`}
+                  />
+                </div>
+              </div>
+              <div className="space-y-3">
+                {sectors.map((item, idx) => (
+                  <button
+                    key={item.sector}
+                    onClick={() => {
+                      updateFilters({
+                        sector: item.sector === sector ? null : item.sector,
+                      });
+                    }}
+                    aria-pressed={item.sector === sector}
+                    className={`block w-full rounded text-left transition-opacity ${
+                      sector && item.sector !== sector ? 'opacity-40' : ''
+                    }`}
+                  >
+                    <div className="mb-1 flex justify-between text-sm">
+                      <span className="text-zinc-900 dark:text-zinc-50">
+                        {item.sector}
+                      </span>
+                      <span className="text-zinc-600 dark:text-zinc-400">
+                        {item.shipments.toLocaleString()} shipments
+                      </span>
+                    </div>
+                    <div className="h-2 rounded bg-zinc-100 dark:bg-zinc-800">
+                      <div
+                        className="h-2 rounded"
+                        style={{
+                          width: `${(100 * item.kg) / Math.max(1, sectorTotalKg)}%`,
+                          backgroundColor:
+                            SECTOR_COLORS[idx % SECTOR_COLORS.length],
+                        }}
+                      ></div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="rounded-lg bg-white p-6 shadow md:col-span-2 dark:bg-zinc-900">
+              <h2 className="mb-6 text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                Sector Share of Monthly Weight (%)
+              </h2>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={sectorShareRows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                    <XAxis
+                      dataKey="month"
+                      stroke="#71717a"
+                      style={{ fontSize: '12px' }}
+                    />
+                    <YAxis
+                      stroke="#71717a"
+                      style={{ fontSize: '12px' }}
+                      domain={[0, 100]}
+                      tickFormatter={value => `${value}%`}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#18181b',
+                        border: '1px solid #27272a',
+                        borderRadius: '6px',
+                        color: '#fafafa',
+                      }}
+                      formatter={value => `${value}%`}
+                    />
+                    {sectors.map((item, idx) => (
+                      <Bar
+                        key={item.sector}
+                        dataKey={item.sector}
+                        stackId="share"
+                        fill={SECTOR_COLORS[idx % SECTOR_COLORS.length]}
+                        fillOpacity={sector && item.sector !== sector ? 0.3 : 1}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {/* Master-Detail: Filters + Company List + Detail Panel */}
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-[15rem_minmax(0,2fr)_minmax(0,1fr)]">
+            {/* Filter Sidebar (Left) */}
+            <aside className="space-y-6 self-start rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                  Filters
+                </h2>
+                {hasFacetFilters && (
+                  <button
+                    onClick={() => {
+                      commitMinFilters.cancel();
+                      updateFilters({
+                        country: null,
+                        sector: null,
+                        role: null,
+                        commodity: null,
+                        minShipments: null,
+                        minWeight: null,
+                      });
+                    }}
+                    className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    Clear all
+                  </button>
+                )}
+              </div>
+              {!facets ? (
+                <div className="animate-pulse space-y-3">
+                  {[...Array(6)].map((_, i) => (
+                    <div
+                      key={i}
+                      className="h-4 rounded bg-zinc-200 dark:bg-zinc-700"
+                    ></div>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <FacetGroup
+                    title="Country"
+                    values={facets.country}
+                    selected={countries}
+                    onToggle={value => {
+                      const next = toggleValue(countries, value);
+                      updateFilters({ country: next.join(',') || null });
+                    }}
+                  />
+                  <FacetGroup
+                    title="Role"
+                    values={facets.role}
+                    selected={roles}
+                    label={value => value[0].toUpperCase() + value.slice(1)}
+                    onToggle={value => {
+                      const next = toggleValue(roles, value);
+                      updateFilters({ role: next.join(',') || null });
+                    }}
+                  />
+                  <FacetGroup
+                    title="Commodity"
+                    values={facets.commodity}
+                    selected={commodities}
+                    onToggle={value => {
+                      const next = toggleValue(commodities, value);
+                      updateFilters({ commodity: next.length ? next : null });
+                    }}
+                  />
+                  <FacetGroup
+                    title="Sector"
+                    values={facets.sector}
+                    selected={sector ? [sector] : []}
+                    onToggle={value => {
+                      updateFilters({
+                        sector: value === sector ? null : value,
+                      });
+                    }}
+                  />
+                </>
+              )}
+              <div className="space-y-3">
+                {(
+                  [
+                    ['minShipments', 'Min. shipments', minShipments, '1'],
+                    ['minWeight', 'Min. weight (kg)', minWeight, '1000'],
+                  ] as const
+                ).map(([key, label, value, step]) => (
+                  <label key={key} className="block">
+                    <span className="mb-1 block text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400">
+                      {label}
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      step={step}
+                      value={minDrafts[key] ?? value}
+                      onChange={e => {
+                        const drafts = { ...minDrafts, [key]: e.target.value };
+                        setMinDrafts(drafts);
+                        // Unparseable input such as "-" reads as ""
+                        if (!e.target.validity.badInput) {
+                          commitMinFilters(drafts);
+                        }
+                      }}
+                      className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-sm text-zinc-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+                    />
+                  </label>
+                ))}
+              </div>
+            </aside>
+
+            {/* Company List (Center/Main) */}
+            <div className="flex flex-col rounded-lg bg-white shadow dark:bg-zinc-900">
               {/* Header - Fixed */}
               <div className="flex-shrink-0 border-b border-zinc-200 p-6 dark:border-zinc-800">
                 <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
                   <div>
-                    <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
-                      Company List
-                    </h2>
+                    <div className="flex items-center gap-3">
+                      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                        Company List
+                      </h2>
+                      <ExportButton
+                        href={`/api/companies${exportParams ? `?${exportParams}` : ''}`}
+                      />
+                    </div>
                     <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
                       {companiesData?.total !== undefined
                         ? `${companiesData.total.toLocaleString()} ${debouncedSearch ? 'matches' : 'companies'}`
                         : 'Loading...'}
                     </p>
+                    {country && (
+                      <button
+                        onClick={() => updateFilters({ country: null })}
+                        className="mt-2 rounded-full bg-blue-50 px-3 py-1 text-xs font-medium text-blue-700 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-300 dark:hover:bg-blue-900/50"
+                        title="Clear country filter"
+                      >
+                        Country: {country} ×
+                      </button>
+                    )}
+                    {sector && (
+                      <button
+                        onClick={() => {
+                          updateFilters({ sector: null });
+                        }}
+                        className="mt-2 ml-2 rounded-full bg-blue-50 px-3 py-1 text-xs font-medium text-blue-700 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-300 dark:hover:bg-blue-900/50"
+                        title="Clear sector filter"
+                      >
+                        Sector: {sector} ×
+                      </button>
+                    )}
+                    {compareIds.length > 0 && (
+                      <div className="mt-2 flex items-center gap-3 text-sm">
+                        {compareIds.length >= 2 ? (
+                          <Link
+                            href={`/companies/compare?names=${compareIds.map(encodeURIComponent).join(',')}`}
+                            className="rounded-lg bg-blue-600 px-3 py-1 font-medium text-white hover:bg-blue-700"
+                          >
+                            Compare {compareIds.length} companies
+                          </Link>
+                        ) : (
+                          <span className="text-zinc-500 dark:text-zinc-400">
+                            Select another company to compare
+                          </span>
+                        )}
+                        <button
+                          onClick={() => setCompareIds([])}
+                          className="text-blue-600 hover:underline dark:text-blue-400"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    )}
                   </div>
                   <div className="relative">
                     <input
                       type="text"
-                      placeholder="Search companies..."
+                      placeholder="Search names, websites, commodities..."
                       value={searchQuery}
                       onChange={e => {
                         setSearchQuery(e.target.value);
@@ -270,27 +757,51 @@ export default function CompaniesPage() {
                 <table className="w-full">
                   <thead className="sticky top-0 bg-white dark:bg-zinc-900">
                     <tr className="border-b border-zinc-200 dark:border-zinc-800">
-                      <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400">
-                        Company Name
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400">
-                        Country
-                      </th>
-                      <th className="px-6 py-3 text-right text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400">
-                        Shipments
-                      </th>
-                      <th className="px-6 py-3 text-right text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400">
-                        Total Weight
+                      <th className="w-10 py-3 pl-6">
+                        <span className="sr-only">Compare</span>
                       </th>
+                      {SORT_COLUMNS.map(column => (
+                        <th
+                          key={column.sort}
+                          aria-sort={
+                            activeSort === column.sort
+                              ? activeOrder === 'asc'
+                                ? 'ascending'
+                                : 'descending'
+                              : 'none'
+                          }
+                          className={`px-6 py-3 text-xs font-medium tracking-wider whitespace-nowrap uppercase ${
+                            column.align === 'right'
+                              ? 'text-right'
+                              : 'text-left'
+                          }`}
+                        >
+                          <button
+                            onClick={() => toggleSort(column.sort)}
+                            className={`uppercase hover:text-zinc-900 dark:hover:text-zinc-50 ${
+                              activeSort === column.sort
+                                ? 'text-zinc-900 dark:text-zinc-50'
+                                : 'text-zinc-500 dark:text-zinc-400'
+                            }`}
+                          >
+                            {column.label}
+                            {activeSort === column.sort &&
+                              (activeOrder === 'asc' ? ' ↑' : ' ↓')}
+                          </button>
+                        </th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody>
-                    {companiesLoading ? (
+                    {companiesLoading || !router.isReady ? (
                       [...Array(10)].map((_, idx) => (
                         <tr
                           key={idx}
                           className="border-b border-zinc-100 dark:border-zinc-800"
                         >
+                          <td className="py-4 pl-6">
+                            <div className="h-4 w-4 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                          </td>
                           <td className="px-6 py-4">
                             <div className="h-4 w-32 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
                           </td>
@@ -303,12 +814,18 @@ export default function CompaniesPage() {
                           <td className="px-6 py-4">
                             <div className="ml-auto h-4 w-16 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
                           </td>
+                          <td className="px-6 py-4">
+                            <div className="ml-auto h-4 w-20 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="ml-auto h-4 w-20 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                          </td>
                         </tr>
                       ))
                     ) : companiesError ? (
                       <tr>
                         <td
-                          colSpan={4}
+                          colSpan={7}
                           className="px-6 py-12 text-center text-sm text-red-600 dark:text-red-400"
                         >
                           Failed to load companies
@@ -317,7 +834,7 @@ export default function CompaniesPage() {
                     ) : filteredCompanies.length === 0 ? (
                       <tr>
                         <td
-                          colSpan={4}
+                          colSpan={7}
                           className="px-6 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400"
                         >
                           {searchQuery
@@ -326,20 +843,45 @@ export default function CompaniesPage() {
                         </td>
                       </tr>
                     ) : (
-                      filteredCompanies.map((company, idx) => (
+                      filteredCompanies.map(company => (
                         <tr
-                          key={idx}
-                          onClick={() =>
-                            setSelectedCompanyOverride(company.name)
-                          }
+                          key={company.id}
+                          onClick={() => setSelectedCompanyOverride(company.id)}
                           className={`cursor-pointer border-b border-zinc-100 transition-colors dark:border-zinc-800 ${
-                            selectedCompany === company.name
+                            selectedCompany === company.id
                               ? 'bg-blue-50 dark:bg-blue-900/20'
                               : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
                           }`}
                         >
+                          <td
+                            className="py-4 pl-6"
+                            onClick={e => e.stopPropagation()}
+                          >
+                            <input
+                              type="checkbox"
+                              aria-label={`Compare ${company.name}`}
+                              checked={compareIds.includes(company.id)}
+                              disabled={
+                                !compareIds.includes(company.id) &&
+                                compareIds.length >= COMPARE_MAX
+                              }
+                              onChange={e =>
+                                setCompareIds(ids =>
+                                  e.target.checked
+                                    ? [...ids, company.id]
+                                    : ids.filter(id => id !== company.id)
+                                )
+                              }
+                            />
+                          </td>
                           <td className="px-6 py-4 text-sm text-zinc-900 dark:text-zinc-50">
-                            {company.name}
+                            <Highlight
+                              text={company.name}
+                              spans={highlightSpans(company.name, searchWords)}
+                            />
+                            <span className="ml-2 text-xs text-zinc-400 capitalize dark:text-zinc-500">
+                              {company.role}
+                            </span>
                           </td>
                           <td className="px-6 py-4 text-sm text-zinc-600 dark:text-zinc-400">
                             {company.country}
@@ -350,6 +892,12 @@ export default function CompaniesPage() {
                           <td className="px-6 py-4 text-right text-sm text-zinc-600 dark:text-zinc-400">
                             {company.totalWeight.toLocaleString()} kg
                           </td>
+                          <td className="px-6 py-4 text-right text-sm whitespace-nowrap text-zinc-600 dark:text-zinc-400">
+                            {company.firstShipment}
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm whitespace-nowrap text-zinc-600 dark:text-zinc-400">
+                            {company.lastShipment}
+                          </td>
                         </tr>
                       ))
                     )}
@@ -415,7 +963,10 @@ export default function CompaniesPage() {
 
             {/* Company Detail Panel (Right) */}
             <div className="rounded-lg bg-white shadow dark:bg-zinc-900">
-              <CompanyDetail companyName={selectedCompany} />
+              <CompanyDetail
+                companyId={selectedCompany}
+                dateRange={dateRange}
+              />
             </div>
           </div>
         </div>
@@ -423,3 +974,61 @@ export default function CompaniesPage() {
     </>
   );
 }
+
+interface FacetGroupProps {
+  title: string;
+  values: FacetValue[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  label?: (value: string) => string;
+}
+
+/** Checkbox list of one facet's values, each with its company count */
+function FacetGroup({
+  title,
+  values,
+  selected,
+  onToggle,
+  label = value => value,
+}: FacetGroupProps) {
+  return (
+    <fieldset>
+      <legend className="mb-2 text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400">
+        {title}
+      </legend>
+      {values.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">No matches</p>
+      ) : (
+        <ul className="max-h-48 space-y-1 overflow-y-auto">
+          {values.map(facet => {
+            const checked = selected.some(
+              value => value.toLowerCase() === facet.value.toLowerCase()
+            );
+            return (
+              <li key={facet.value}>
+                <label
+                  className={`flex cursor-pointer items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300 ${
+                    facet.count === 0 && !checked ? 'opacity-50' : ''
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => onToggle(facet.value)}
+                    className="rounded border-zinc-300 dark:border-zinc-600"
+                  />
+                  <span className="min-w-0 flex-1 truncate" title={facet.value}>
+                    {label(facet.value)}
+                  </span>
+                  <span className="text-xs text-zinc-400 tabular-nums dark:text-zinc-500">
+                    {facet.count.toLocaleString()}
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,29 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Navigation from '@/components/Navigation';
+import CompanyDetail from '@/components/CompanyDetail';
+
+export default function CompanyPage() {
+  const router = useRouter();
+  const companyId =
+    typeof router.query.id === 'string' ? router.query.id : null;
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
+        <div className="mx-auto max-w-3xl">
+          <Link
+            href="/companies"
+            className="mb-6 inline-block text-sm text-blue-600 hover:underline dark:text-blue-400"
+          >
+            ← All companies
+          </Link>
+          <div className="rounded-lg bg-white shadow dark:bg-zinc-900">
+            <CompanyDetail companyId={companyId} />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState, type ReactNode } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import useSWR from 'swr';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import Navigation from '@/components/Navigation';
+import DateRangePicker from '@/components/DateRangePicker';
+import type { CompanyComparison, CompanyDetail } from '@/types/company';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams, formatMonth } from '@/lib/utils/dates';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const COMPANY_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#a855f7', '#ef4444'];
+
+type Metric = 'kg' | 'shipments';
+
+/** Rows of the side-by-side metrics table */
+const METRIC_ROWS: { label: string; value: (c: CompanyDetail) => string }[] = [
+  { label: 'Country', value: c => c.country },
+  { label: 'Role', value: c => c.role[0].toUpperCase() + c.role.slice(1) },
+  { label: 'Shipments', value: c => c.totalShipments.toLocaleString() },
+  { label: 'Total Weight', value: c => `${c.totalWeight.toLocaleString()} kg` },
+  { label: 'Top Partner', value: c => c.topTradingPartners[0]?.name ?? '-' },
+  { label: 'Top Commodity', value: c => c.topCommodities[0]?.name ?? '-' },
+  { label: 'Main Sector', value: c => c.sectorMix[0]?.sector ?? '-' },
+];
+
+const headerClassName =
+  'px-4 py-3 text-left text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400';
+
+export default function ComparePage() {
+  const router = useRouter();
+  const [metric, setMetric] = useState<Metric>('kg');
+  const [dateRange, setDateRange] = useState<DateRangeQuery>({});
+  const rangeParams = dateRangeParams(dateRange);
+
+  const names =
+    typeof router.query.names === 'string'
+      ? router.query.names.split(',').filter(Boolean)
+      : [];
+  const { data, error } = useSWR<CompanyComparison | { error: string }>(
+    names.length >= 2
+      ? `/api/companies/compare?names=${names.map(encodeURIComponent).join(',')}${rangeParams ? `&${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+  const comparison = data && !('error' in data) ? data : null;
+  const companies = comparison?.companies ?? [];
+
+  const removeCompany = (id: string) => {
+    const remaining = companies.map(c => c.id).filter(other => other !== id);
+    router.push(
+      { pathname: '/companies/compare', query: { names: remaining.join(',') } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const chartData = (comparison?.monthly ?? []).map(month => ({
+    month: formatMonth(month.month),
+    ...Object.fromEntries(
+      companies.map((company, i) => [company.id, month[metric][i]])
+    ),
+  }));
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
+        <div className="mx-auto max-w-7xl">
+          <Link
+            href="/companies"
+            className="mb-6 inline-block text-sm text-blue-600 hover:underline dark:text-blue-400"
+          >
+            ← All companies
+          </Link>
+          <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
+              Compare Companies
+            </h1>
+            <DateRangePicker value={dateRange} onChange={setDateRange} />
+          </div>
+
+          {router.isReady && names.length < 2 ? (
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                Select 2 to 5 companies in the{' '}
+                <Link
+                  href="/companies"
+                  className="text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  company list
+                </Link>{' '}
+                to compare them.
+              </p>
+            </div>
+          ) : error || (data && 'error' in data) ? (
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {data && 'error' in data
+                  ? data.error
+                  : 'Failed to load comparison'}
+              </p>
+            </div>
+          ) : !comparison ? (
+            <div className="h-96 animate-pulse rounded-lg bg-white shadow dark:bg-zinc-900"></div>
+          ) : (
+            <div className="space-y-6">
+              {/* Side-by-side metrics */}
+              <div className="overflow-x-auto rounded-lg bg-white shadow dark:bg-zinc-900">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                      <th className={headerClassName}></th>
+                      {companies.map((company, i) => (
+                        <th key={company.id} className="px-4 py-3 text-left">
+                          <div className="flex items-start justify-between gap-2">
+                            <Link
+                              href={`/companies/${company.id}`}
+                              className="text-sm font-semibold text-zinc-900 hover:underline dark:text-zinc-50"
+                            >
+                              <span
+                                className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                                style={{ backgroundColor: COMPANY_COLORS[i] }}
+                              ></span>
+                              {company.name}
+                            </Link>
+                            {companies.length > 2 && (
+                              <button
+                                onClick={() => removeCompany(company.id)}
+                                className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+                                title={`Remove ${company.name}`}
+                              >
+                                ×
+                              </button>
+                            )}
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {METRIC_ROWS.map(row => (
+                      <tr
+                        key={row.label}
+                        className="border-b border-zinc-100 dark:border-zinc-800"
+                      >
+                        <td className={headerClassName}>{row.label}</td>
+                        {companies.map(company => (
+                          <td
+                            key={company.id}
+                            className="px-4 py-3 text-sm text-zinc-900 dark:text-zinc-50"
+                          >
+                            {row.value(company)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Aligned monthly series */}
+              <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+                <div className="mb-6 flex items-center justify-between">
+                  <h2 className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                    Monthly Activity
+                  </h2>
+                  <div className="flex gap-1">
+                    {(['kg', 'shipments'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setMetric(option)}
+                        aria-pressed={metric === option}
+                        className={`rounded px-2 py-1 text-xs font-medium capitalize transition-colors ${
+                          metric === option
+                            ? 'bg-zinc-900 text-white dark:bg-zinc-50 dark:text-zinc-900'
+                            : 'text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                      <XAxis
+                        dataKey="month"
+                        stroke="#71717a"
+                        style={{ fontSize: '12px' }}
+                      />
+                      <YAxis
+                        stroke="#71717a"
+                        style={{ fontSize: '12px' }}
+                        tickFormatter={value =>
+                          metric === 'kg'
+                            ? `${(value / 1000).toFixed(0)}k`
+                            : String(value)
+                        }
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: '#18181b',
+                          border: '1px solid #27272a',
+                          borderRadius: '6px',
+                          color: '#fafafa',
+                        }}
+                        formatter={value =>
+                          metric === 'kg'
+                            ? `${Number(value).toLocaleString()} kg`
+                            : Number(value).toLocaleString()
+                        }
+                      />
+                      <Legend wrapperStyle={{ fontSize: '12px' }} />
+                      {companies.map((company, i) => (
+                        <Line
+                          key={company.id}
+                          type="monotone"
+                          dataKey={company.id}
+                          name={company.name}
+                          stroke={COMPANY_COLORS[i]}
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                <SharedTable
+                  title="Shared Trading Partners"
+                  emptyText="No partner trades with more than one of these companies"
+                  companies={companies}
+                  rows={comparison.sharedPartners.map(partner => ({
+                    key: partner.id,
+                    label: (
+                      <Link
+                        href={`/companies/${partner.id}`}
+                        className="hover:underline"
+                      >
+                        {partner.name}
+                        <span className="ml-2 text-zinc-400 dark:text-zinc-500">
+                          {partner.country}
+                        </span>
+                      </Link>
+                    ),
+                    kg: partner.kg,
+                  }))}
+                />
+                <SharedTable
+                  title="Commodity Overlap"
+                  emptyText="These companies trade no commodities in common"
+                  companies={companies}
+                  rows={comparison.sharedCommodities.map(commodity => ({
+                    key: commodity.name,
+                    label: (
+                      <Link
+                        href={`/commodities?name=${encodeURIComponent(commodity.name)}`}
+                        className="hover:underline"
+                      >
+                        {commodity.name}
+                      </Link>
+                    ),
+                    kg: commodity.kg,
+                  }))}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+interface SharedTableProps {
+  title: string;
+  emptyText: string;
+  companies: CompanyDetail[];
+  rows: { key: string; label: ReactNode; kg: number[] }[];
+}
+
+/** Partners or commodities with one kg column per compared company */
+function SharedTable({ title, emptyText, companies, rows }: SharedTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-lg bg-white shadow dark:bg-zinc-900">
+      <h2 className="px-4 pt-6 pb-2 text-sm font-medium text-zinc-500 dark:text-zinc-400">
+        {title}
+      </h2>
+      {rows.length === 0 ? (
+        <p className="px-4 pb-6 text-sm text-zinc-500 dark:text-zinc-400">
+          {emptyText}
+        </p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-zinc-200 dark:border-zinc-800">
+              <th className={headerClassName}></th>
+              {companies.map((company, i) => (
+                <th
+                  key={company.id}
+                  className="px-4 py-3 text-right"
+                  title={company.name}
+                >
+                  <span
+                    className="inline-block h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: COMPANY_COLORS[i] }}
+                  ></span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.key}
+                className="border-b border-zinc-100 dark:border-zinc-800"
+              >
+                <td className="px-4 py-2 text-sm text-zinc-900 dark:text-zinc-50">
+                  {row.label}
+                </td>
+                {row.kg.map((kg, i) => (
+                  <td
+                    key={companies[i]?.id ?? i}
+                    className="px-4 py-2 text-right text-sm whitespace-nowrap text-zinc-600 dark:text-zinc-400"
+                  >
+                    {kg > 0 ? `${(kg / 1000).toFixed(1)}k kg` : '-'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import Navigation from '@/components/Navigation';
+import DateRangePicker from '@/components/DateRangePicker';
+import type {
+  CountriesResponse,
+  CountryDetail,
+  CountryFlowsResponse,
+  CountrySummary,
+} from '@/types/country';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams } from '@/lib/utils/dates';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const MATRIX_SIZE = 15;
+
+type CountrySort = keyof CountrySummary;
+
+const COLUMNS: { key: CountrySort; label: string }[] = [
+  { key: 'code', label: 'Country' },
+  { key: 'importShipments', label: 'Import Shipments' },
+  { key: 'importKg', label: 'Imported kg' },
+  { key: 'importers', label: 'Importers' },
+  { key: 'exportShipments', label: 'Export Shipments' },
+  { key: 'exportKg', label: 'Exported kg' },
+  { key: 'exporters', label: 'Exporters' },
+];
+
+const toggleClassName = (active: boolean) =>
+  `rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+    active
+      ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50'
+      : 'text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-50'
+  }`;
+
+export default function CountriesPage() {
+  const [view, setView] = useState<'table' | 'matrix'>('table');
+  const [sort, setSort] = useState<CountrySort>('importKg');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRangeQuery>({});
+  const rangeParams = dateRangeParams(dateRange);
+
+  const {
+    data: countries,
+    isLoading: countriesLoading,
+    error: countriesError,
+  } = useSWR<CountriesResponse>(
+    `/api/countries${rangeParams ? `?${rangeParams}` : ''}`,
+    fetcher
+  );
+
+  const { data: flows, error: flowsError } = useSWR<CountryFlowsResponse>(
+    view === 'matrix'
+      ? `/api/countries/flows?limit=${MATRIX_SIZE}${rangeParams ? `&${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+
+  const { data: detail, isLoading: detailLoading } = useSWR<CountryDetail>(
+    selectedCode
+      ? `/api/countries/${encodeURIComponent(selectedCode)}${rangeParams ? `?${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+
+  // Sorted client-side - there are only a few dozen countries
+  const rows = [...(countries?.data ?? [])].sort((a, b) => {
+    const direction = order === 'asc' ? 1 : -1;
+    if (sort === 'code') {
+      return direction * a.code.localeCompare(b.code);
+    }
+    return direction * (a[sort] - b[sort]) || a.code.localeCompare(b.code);
+  });
+
+  const handleSort = (column: CountrySort) => {
+    if (column === sort) {
+      setOrder(o => (o === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSort(column);
+      setOrder(column === 'code' ? 'asc' : 'desc');
+    }
+  };
+
+  const flowCells = new Map(
+    (flows?.flows ?? []).map(flow => [
+      `${flow.origin}>${flow.destination}`,
+      flow,
+    ])
+  );
+  const maxFlowKg = Math.max(1, ...(flows?.flows ?? []).map(flow => flow.kg));
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
+        <div className="mx-auto max-w-7xl">
+          <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
+              Countries
+            </h1>
+            <DateRangePicker value={dateRange} onChange={setDateRange} />
+          </div>
+
+          <div className="mb-6 flex gap-2">
+            <button
+              onClick={() => setView('table')}
+              className={toggleClassName(view === 'table')}
+            >
+              Table
+            </button>
+            <button
+              onClick={() => setView('matrix')}
+              className={toggleClassName(view === 'matrix')}
+            >
+              Flow matrix
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <div className="overflow-x-auto rounded-lg bg-white shadow lg:col-span-2 dark:bg-zinc-900">
+              {view === 'table' ? (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                      {COLUMNS.map(column => (
+                        <th
+                          key={column.key}
+                          className={`px-4 py-3 text-xs font-medium tracking-wider text-zinc-500 uppercase dark:text-zinc-400 ${
+                            column.key === 'code' ? 'text-left' : 'text-right'
+                          }`}
+                        >
+                          <button
+                            onClick={() => handleSort(column.key)}
+                            className={`uppercase hover:text-zinc-900 dark:hover:text-zinc-50 ${
+                              sort === column.key
+                                ? 'text-zinc-900 dark:text-zinc-50'
+                                : ''
+                            }`}
+                          >
+                            {column.label}
+                            {sort === column.key &&
+                              (order === 'asc' ? ' ↑' : ' ↓')}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {countriesLoading ? (
+                      [...Array(8)].map((_, idx) => (
+                        <tr
+                          key={idx}
+                          className="border-b border-zinc-100 dark:border-zinc-800"
+                        >
+                          <td colSpan={COLUMNS.length} className="px-4 py-3">
+                            <div className="h-4 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                          </td>
+                        </tr>
+                      ))
+                    ) : countriesError ||
+                      (countries && 'error' in countries) ? (
+                      <tr>
+                        <td
+                          colSpan={COLUMNS.length}
+                          className="px-4 py-12 text-center text-sm text-red-600 dark:text-red-400"
+                        >
+                          Failed to load countries
+                        </td>
+                      </tr>
+                    ) : rows.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={COLUMNS.length}
+                          className="px-4 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400"
+                        >
+                          No shipments in this date range
+                        </td>
+                      </tr>
+                    ) : (
+                      rows.map(country => (
+                        <tr
+                          key={country.code}
+                          onClick={() => setSelectedCode(country.code)}
+                          className={`cursor-pointer border-b border-zinc-100 transition-colors dark:border-zinc-800 ${
+                            selectedCode === country.code
+                              ? 'bg-blue-50 dark:bg-blue-900/20'
+                              : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+                          }`}
+                        >
+                          <td className="px-4 py-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                            {country.code}
+                          </td>
+                          {COLUMNS.slice(1).map(column => (
+                            <td
+                              key={column.key}
+                              className="px-4 py-3 text-right text-sm text-zinc-600 dark:text-zinc-400"
+                            >
+                              {country[column.key].toLocaleString()}
+                            </td>
+                          ))}
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              ) : flowsError || (flows && 'error' in flows) ? (
+                <p className="p-6 text-sm text-red-600 dark:text-red-400">
+                  Failed to load country flows
+                </p>
+              ) : !flows ? (
+                <div className="m-6 h-96 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+              ) : flows.flows.length === 0 ? (
+                <p className="p-6 text-sm text-zinc-500 dark:text-zinc-400">
+                  No shipments in this date range
+                </p>
+              ) : (
+                <div className="p-6">
+                  <p className="mb-4 text-xs text-zinc-500 dark:text-zinc-400">
+                    Rows are origin (exporter) countries, columns destination
+                    (importer) countries. Darker cells carry more kg.
+                  </p>
+                  <table className="text-xs">
+                    <thead>
+                      <tr>
+                        <th className="p-1 text-left font-medium text-zinc-500 dark:text-zinc-400">
+                          From \ To
+                        </th>
+                        {flows.destinations.map(code => (
+                          <th
+                            key={code}
+                            className="p-1 text-center font-medium text-zinc-500 dark:text-zinc-400"
+                          >
+                            <button
+                              onClick={() => setSelectedCode(code)}
+                              className="hover:text-zinc-900 dark:hover:text-zinc-50"
+                            >
+                              {code}
+                            </button>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {flows.origins.map(origin => (
+                        <tr key={origin}>
+                          <th className="p-1 text-left font-medium text-zinc-500 dark:text-zinc-400">
+                            <button
+                              onClick={() => setSelectedCode(origin)}
+                              className="hover:text-zinc-900 dark:hover:text-zinc-50"
+                            >
+                              {origin}
+                            </button>
+                          </th>
+                          {flows.destinations.map(destination => {
+                            const flow = flowCells.get(
+                              `${origin}>${destination}`
+                            );
+                            return (
+                              <td
+                                key={destination}
+                                className="h-8 w-12 border border-zinc-100 text-center text-zinc-900 dark:border-zinc-800 dark:text-zinc-50"
+                                style={
+                                  flow
+                                    ? {
+                                        backgroundColor: `rgba(59, 130, 246, ${0.1 + 0.9 * Math.sqrt(flow.kg / maxFlowKg)})`,
+                                      }
+                                    : undefined
+                                }
+                                title={
+                                  flow
+                                    ? `${origin} → ${destination}: ${flow.shipments.toLocaleString()} shipments, ${flow.kg.toLocaleString()} kg`
+                                    : `${origin} → ${destination}: no shipments`
+                                }
+                              >
+                                {flow ? `${(flow.kg / 1000).toFixed(0)}k` : ''}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Selected country */}
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              {!selectedCode ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Select a country to see its trading partners, commodities and
+                  companies.
+                </p>
+              ) : detailLoading || !detail ? (
+                <div className="space-y-3">
+                  <div className="h-6 w-24 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                  <div className="h-24 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+                </div>
+              ) : 'error' in detail ? (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  Failed to load {selectedCode}
+                </p>
+              ) : (
+                <>
+                  <h2 className="mb-4 text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    {detail.code}
+                  </h2>
+                  <div className="mb-6 grid grid-cols-2 gap-4">
+                    <div className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
+                      <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+                        {(detail.importKg / 1000).toFixed(1)}k
+                      </p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        kg Imported
+                      </p>
+                    </div>
+                    <div className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
+                      <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+                        {(detail.exportKg / 1000).toFixed(1)}k
+                      </p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        kg Exported
+                      </p>
+                    </div>
+                  </div>
+
+                  <h3 className="mb-2 text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                    Top Partner Countries
+                  </h3>
+                  <ul className="mb-6 space-y-1 text-sm">
+                    {detail.topPartners.map(partner => (
+                      <li
+                        key={partner.code}
+                        className="flex justify-between text-zinc-600 dark:text-zinc-400"
+                      >
+                        <button
+                          onClick={() => setSelectedCode(partner.code)}
+                          className="text-zinc-900 hover:underline dark:text-zinc-50"
+                        >
+                          {partner.code}
+                        </button>
+                        <span>
+                          ↓ {(partner.importKg / 1000).toFixed(1)}k · ↑{' '}
+                          {(partner.exportKg / 1000).toFixed(1)}k kg
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <h3 className="mb-2 text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                    Top Commodities
+                  </h3>
+                  <ul className="mb-6 space-y-1 text-sm">
+                    {detail.topCommodities.map(commodity => (
+                      <li
+                        key={commodity.name}
+                        className="flex justify-between gap-2 text-zinc-600 dark:text-zinc-400"
+                      >
+                        <span className="truncate">{commodity.name}</span>
+                        <span className="whitespace-nowrap">
+                          {(commodity.kg / 1000).toFixed(1)}k kg
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <h3 className="mb-2 text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                    Top Companies
+                  </h3>
+                  <ul className="space-y-1 text-sm">
+                    {detail.topCompanies.map(company => (
+                      <li
+                        key={company.id}
+                        className="flex justify-between gap-2 text-zinc-600 dark:text-zinc-400"
+                      >
+                        <Link
+                          href={`/companies/${company.id}`}
+                          className="truncate text-blue-600 hover:underline dark:text-blue-400"
+                        >
+                          {company.name}
+                        </Link>
+                        <span className="whitespace-nowrap">
+                          {company.totalShipments.toLocaleString()} shipments
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
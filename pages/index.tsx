@@ -1,6 +1,7 @@
 import useSWR from 'swr';
 import { Shipment } from '@/types/shipment';
 import Navigation from '@/components/Navigation';
+import ExportButton from '@/components/ExportButton';
 
 const fetcher = async (url: string) => {
   const res = await fetch(url);
@@ -72,14 +73,17 @@ export default function Home() {
           <h1 className="mb-6 text-3xl font-bold text-zinc-900 dark:text-zinc-50">
             Shipments
           </h1>
-          <p className="mb-8 text-zinc-600 dark:text-zinc-400">
-            Total shipments:{' '}
-            {isLoading ? (
-              <span className="inline-block h-4 w-12 animate-pulse rounded bg-zinc-200 align-middle dark:bg-zinc-700" />
-            ) : (
-              (response?.total.toLocaleString() ?? 0)
-            )}
-          </p>
+          <div className="mb-8 flex items-center justify-between">
+            <p className="text-zinc-600 dark:text-zinc-400">
+              Total shipments:{' '}
+              {isLoading ? (
+                <span className="inline-block h-4 w-12 animate-pulse rounded bg-zinc-200 align-middle dark:bg-zinc-700" />
+              ) : (
+                (response?.total.toLocaleString() ?? 0)
+              )}
+            </p>
+            <ExportButton href="/api/shipments" />
+          </div>
 
           <div className="overflow-hidden rounded-lg bg-white shadow dark:bg-zinc-900">
             <div className="overflow-x-auto">
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import Navigation from '@/components/Navigation';
+import DateRangePicker from '@/components/DateRangePicker';
+import WorldMap from '@/components/WorldMap';
+import type { CompaniesResponse } from '@/types/company';
+import type { CountriesResponse, CountryFlowsResponse } from '@/types/country';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams } from '@/lib/utils/dates';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const COMPANY_LIMIT = 10;
+
+const toggleClassName = (active: boolean) =>
+  `rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+    active
+      ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50'
+      : 'text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-50'
+  }`;
+
+export default function MapPage() {
+  const [metric, setMetric] = useState<'importKg' | 'exportKg'>('importKg');
+  const [showFlows, setShowFlows] = useState(true);
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRangeQuery>({});
+  const rangeParams = dateRangeParams(dateRange);
+
+  const { data: countries, error: countriesError } = useSWR<CountriesResponse>(
+    `/api/countries${rangeParams ? `?${rangeParams}` : ''}`,
+    fetcher
+  );
+  const { data: flows } = useSWR<CountryFlowsResponse>(
+    `/api/countries/flows?limit=100${rangeParams ? `&${rangeParams}` : ''}`,
+    fetcher
+  );
+
+  // Clicking a country filters the company list to companies based there
+  const { data: companies, isLoading: companiesLoading } =
+    useSWR<CompaniesResponse>(
+      selectedCode
+        ? `/api/companies?limit=${COMPANY_LIMIT}&country=${encodeURIComponent(selectedCode)}${rangeParams ? `&${rangeParams}` : ''}`
+        : null,
+      fetcher
+    );
+
+  const failed = countriesError || (countries && 'error' in countries);
+  const values = new Map(
+    (countries?.data ?? []).map(country => [country.code, country[metric]])
+  );
+  const selected = countries?.data?.find(c => c.code === selectedCode);
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
+        <div className="mx-auto max-w-7xl">
+          <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
+              Trade Map
+            </h1>
+            <DateRangePicker value={dateRange} onChange={setDateRange} />
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setMetric('importKg')}
+              className={toggleClassName(metric === 'importKg')}
+            >
+              Imports
+            </button>
+            <button
+              onClick={() => setMetric('exportKg')}
+              className={toggleClassName(metric === 'exportKg')}
+            >
+              Exports
+            </button>
+            <label className="ml-4 flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+              <input
+                type="checkbox"
+                checked={showFlows}
+                onChange={e => setShowFlows(e.target.checked)}
+              />
+              Show flows
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+            {/* Map */}
+            <div className="rounded-lg bg-white p-4 shadow lg:col-span-3 dark:bg-zinc-900">
+              {failed ? (
+                <div className="flex aspect-[2/1] items-center justify-center">
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Failed to load countries
+                  </p>
+                </div>
+              ) : !countries ? (
+                <div className="aspect-[2/1] animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+              ) : (
+                <>
+                  <WorldMap
+                    values={values}
+                    flows={showFlows && flows?.flows ? flows.flows : []}
+                    selectedCode={selectedCode}
+                    onSelect={setSelectedCode}
+                  />
+                  <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    Countries shaded by{' '}
+                    {metric === 'importKg' ? 'imported' : 'exported'} kg. Arcs
+                    run from origin to destination, wider for more kg.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* Selected country */}
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              {!selectedCode ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Click a country to list the companies based there.
+                </p>
+              ) : (
+                <>
+                  <h2 className="mb-1 text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    {selectedCode}
+                  </h2>
+                  {selected && (
+                    <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+                      {(selected.importKg / 1000).toFixed(1)}k kg imported ·{' '}
+                      {(selected.exportKg / 1000).toFixed(1)}k kg exported
+                    </p>
+                  )}
+                  {companiesLoading ? (
+                    <div className="space-y-2">
+                      {[...Array(5)].map((_, i) => (
+                        <div
+                          key={i}
+                          className="h-4 animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"
+                        ></div>
+                      ))}
+                    </div>
+                  ) : companies && !('error' in companies) ? (
+                    <>
+                      <ul className="mb-4 space-y-1 text-sm">
+                        {companies.data.map(company => (
+                          <li
+                            key={company.id}
+                            className="flex justify-between gap-2 text-zinc-600 dark:text-zinc-400"
+                          >
+                            <Link
+                              href={`/companies/${company.id}`}
+                              className="truncate text-blue-600 hover:underline dark:text-blue-400"
+                            >
+                              {company.name}
+                            </Link>
+                            <span className="whitespace-nowrap">
+                              {company.totalShipments.toLocaleString()}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      <Link
+                        href={`/companies?country=${encodeURIComponent(selectedCode)}`}
+                        className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        View all {companies.total.toLocaleString()} companies
+                      </Link>
+                    </>
+                  ) : (
+                    <p className="text-sm text-red-600 dark:text-red-400">
+                      Failed to load companies
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
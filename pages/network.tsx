@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import useSWR from 'swr';
+import { useDebounce } from 'use-debounce';
+import Navigation from '@/components/Navigation';
+import DateRangePicker from '@/components/DateRangePicker';
+import NetworkGraph from '@/components/NetworkGraph';
+import type { NetworkResponse } from '@/types/network';
+import type { DateRangeQuery } from '@/types/shipment';
+import { dateRangeParams } from '@/lib/utils/dates';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+const NODE_LIMIT = 150;
+
+const inputClassName =
+  'rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50';
+
+export default function NetworkPage() {
+  const router = useRouter();
+  // The ego-network center lives in the URL (?company=), so views can be shared
+  const center =
+    typeof router.query.company === 'string' ? router.query.company : null;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [depth, setDepth] = useState(1);
+  const [commodity, setCommodity] = useState('');
+  const [debouncedCommodity] = useDebounce(commodity, 300);
+  const [dateRange, setDateRange] = useState<DateRangeQuery>({});
+
+  const params = new URLSearchParams({ limit: String(NODE_LIMIT) });
+  if (center) {
+    params.set('company', center);
+    params.set('depth', String(depth));
+  }
+  if (debouncedCommodity.trim()) {
+    params.set('commodity', debouncedCommodity.trim());
+  }
+  const rangeParams = dateRangeParams(dateRange);
+
+  const { data, isLoading, error } = useSWR<NetworkResponse>(
+    router.isReady
+      ? `/api/network?${params}${rangeParams ? `&${rangeParams}` : ''}`
+      : null,
+    fetcher
+  );
+  const failed = error || (data && 'error' in data);
+
+  const setCenter = (id: string | null) => {
+    setSelectedId(id);
+    router.push(
+      { pathname: '/network', query: id ? { company: id } : {} },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const selected =
+    data && !failed
+      ? (data.nodes.find(node => node.id === (selectedId ?? center)) ?? null)
+      : null;
+  const centerNode = data?.nodes?.find(node => node.id === center);
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-zinc-50 p-8 dark:bg-black">
+        <div className="mx-auto max-w-7xl">
+          <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
+              Trade Network
+            </h1>
+            <DateRangePicker value={dateRange} onChange={setDateRange} />
+          </div>
+
+          {/* Filters */}
+          <div className="mb-6 flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              placeholder="Filter by commodity..."
+              aria-label="Commodity"
+              value={commodity}
+              onChange={e => setCommodity(e.target.value)}
+              className={inputClassName}
+            />
+            {center && (
+              <>
+                <label
+                  htmlFor="network-depth"
+                  className="text-sm text-zinc-600 dark:text-zinc-400"
+                >
+                  Depth
+                </label>
+                <select
+                  id="network-depth"
+                  value={depth}
+                  onChange={e => setDepth(Number(e.target.value))}
+                  className={inputClassName}
+                >
+                  {[1, 2, 3].map(hops => (
+                    <option key={hops} value={hops}>
+                      {hops} {hops === 1 ? 'hop' : 'hops'}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-sm text-zinc-600 dark:text-zinc-400">
+                  around {centerNode?.name ?? center}
+                </span>
+                <button
+                  onClick={() => setCenter(null)}
+                  className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                >
+                  Show whole network
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+            {/* Graph */}
+            <div className="rounded-lg bg-white p-4 shadow lg:col-span-3 dark:bg-zinc-900">
+              {isLoading ? (
+                <div className="aspect-[3/2] animate-pulse rounded bg-zinc-200 dark:bg-zinc-700"></div>
+              ) : failed ? (
+                <div className="flex aspect-[3/2] items-center justify-center">
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Failed to load network
+                  </p>
+                </div>
+              ) : data && data.nodes.length > 0 ? (
+                <>
+                  <NetworkGraph
+                    nodes={data.nodes}
+                    edges={data.edges}
+                    selectedId={selected?.id ?? null}
+                    onSelect={setSelectedId}
+                  />
+                  <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    {data.nodes.length} companies, {data.edges.length} trade
+                    routes
+                    {data.truncated &&
+                      ` (showing the ${NODE_LIMIT} most relevant companies)`}
+                    . Arrows point from exporter to importer.
+                  </p>
+                </>
+              ) : (
+                <div className="flex aspect-[3/2] items-center justify-center">
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                    No trade matches these filters
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Selected company */}
+            <div className="rounded-lg bg-white p-6 shadow dark:bg-zinc-900">
+              {selected ? (
+                <>
+                  <h2 className="mb-1 text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    {selected.name}
+                  </h2>
+                  <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+                    {selected.country}
+                    {selected.depth !== null &&
+                      selected.depth > 0 &&
+                      ` · ${selected.depth} ${selected.depth === 1 ? 'hop' : 'hops'} away`}
+                  </p>
+                  <div className="mb-6 grid grid-cols-2 gap-4">
+                    <div className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
+                      <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+                        {selected.shipments.toLocaleString()}
+                      </p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        Shipments
+                      </p>
+                    </div>
+                    <div className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
+                      <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+                        {(selected.kg / 1000).toFixed(1)}k
+                      </p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        kg Total
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    {selected.id !== center && (
+                      <button
+                        onClick={() => setCenter(selected.id)}
+                        className="rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+                      >
+                        Center network here
+                      </button>
+                    )}
+                    <Link
+                      href={`/companies/${selected.id}`}
+                      className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      View company details
+                    </Link>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Click a company to see its totals and explore its supply
+                  chain.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { CountryFlowSchema } from './country';
+
+// ============================================
+// Commodity Schemas
+// Note: Using z.coerce.number() because DuckDB returns numbers as strings in JSON
+// ============================================
+
+/** One commodity's totals across all shipments */
+export const CommoditySummarySchema = z.object({
+  name: z.string(),
+  industrySector: z.string(), // most common sector if shipments disagree
+  shipments: z.coerce.number(),
+  kg: z.coerce.number(),
+  importers: z.coerce.number(), // distinct importing companies
+  exporters: z.coerce.number(), // distinct exporting companies
+});
+
+export const CommoditiesResponseSchema = z.object({
+  data: z.array(CommoditySummarySchema),
+  total: z.coerce.number(),
+});
+
+/** One month of a commodity's trade (zero-filled) */
+export const CommodityMonthSchema = z.object({
+  month: z.string(), // ISO month start, e.g. "2025-04-01"
+  shipments: z.coerce.number(),
+  kg: z.coerce.number(),
+});
+
+/** A company trading the commodity, in one role */
+export const CommodityCompanySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string(),
+  shipments: z.coerce.number(),
+  kg: z.coerce.number(),
+});
+
+export const CommodityDetailSchema = CommoditySummarySchema.extend({
+  monthly: z.array(CommodityMonthSchema),
+  topImporters: z.array(CommodityCompanySchema),
+  topExporters: z.array(CommodityCompanySchema),
+  topLanes: z.array(CountryFlowSchema), // origin → destination country pairs
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CommoditySummary = z.infer<typeof CommoditySummarySchema>;
+export type CommoditiesResponse = z.infer<typeof CommoditiesResponseSchema>;
+export type CommodityMonth = z.infer<typeof CommodityMonthSchema>;
+export type CommodityCompany = z.infer<typeof CommodityCompanySchema>;
+export type CommodityDetail = z.infer<typeof CommodityDetailSchema>;
@@ -10,16 +10,98 @@ import { z } from 'zod';
 // Note: Using z.coerce.number() because DuckDB returns numbers as strings in JSON
 // ============================================
 
+/** Whether a company imports, exports or does both */
+export const CompanyRoleSchema = z.enum(['importer', 'exporter', 'both']);
+
 /** Company list item (for table display) */
 export const CompanyListItemSchema = z.object({
+  id: z.string(), // stable slug, e.g. "mann-hummel-mexico-us"
   name: z.string(),
   country: z.string(),
+  role: CompanyRoleSchema, // among the shipments counted
   totalShipments: z.coerce.number(),
   totalWeight: z.coerce.number(), // in kg
+  firstShipment: z.string(), // YYYY-MM-DD, earliest shipment counted
+  lastShipment: z.string(), // YYYY-MM-DD, latest shipment counted
+});
+
+/** Columns GET /api/companies can sort by */
+export const COMPANY_SORTS = [
+  'name',
+  'country',
+  'totalShipments',
+  'totalWeight',
+  'firstShipment',
+  'lastShipment',
+] as const;
+
+/**
+ * Facet filters of GET /api/companies. `role` is comma-separated;
+ * `commodity` is repeated for several (commodity names may contain commas).
+ */
+export const CompanyFacetQuerySchema = z.object({
+  role: z
+    .string()
+    .transform(value =>
+      value
+        .split(',')
+        .map(role => role.trim().toLowerCase())
+        .filter(Boolean)
+    )
+    .pipe(z.array(CompanyRoleSchema).min(1))
+    .optional(),
+  commodity: z
+    .union([z.string(), z.array(z.string())])
+    .transform(value =>
+      [value]
+        .flat()
+        .map(name => name.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.string()).min(1))
+    .optional(),
+  minShipments: z.coerce.number().int().nonnegative().optional(),
+  minWeight: z.coerce.number().nonnegative().optional(), // kg, like totalWeight
+});
+
+/** Facets counted by GET /api/companies and /api/companies/facets */
+export const COMPANY_FACETS = [
+  'country',
+  'role',
+  'commodity',
+  'sector',
+] as const;
+
+/** One facet value and how many companies have it */
+export const FacetValueSchema = z.object({
+  value: z.string(),
+  count: z.coerce.number(),
+});
+
+/**
+ * Company counts per facet value. Each facet is counted under every other
+ * active filter but not its own, so selecting a value never hides its
+ * siblings.
+ */
+export const CompanyFacetsSchema = z.object({
+  country: z.array(FacetValueSchema),
+  role: z.array(FacetValueSchema),
+  commodity: z.array(FacetValueSchema), // most common only, plus any selected
+  sector: z.array(FacetValueSchema),
+});
+
+/**
+ * `sort` and `order` query parameters of GET /api/companies. Without `sort`,
+ * companies rank by relevance to `q`, or else by totalShipments.
+ */
+export const CompanySortQuerySchema = z.object({
+  sort: z.enum(COMPANY_SORTS).optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
 });
 
 /** Trading partner in company detail */
 export const TradingPartnerSchema = z.object({
+  id: z.string(),
   name: z.string(),
   country: z.string(),
   shipments: z.coerce.number(),
@@ -31,16 +113,151 @@ export const CommoditySchema = z.object({
   kg: z.coerce.number(),
 });
 
+/** Weight and shipments in one industry sector */
+export const SectorTotalSchema = z.object({
+  sector: z.string(), // industry_sector, e.g. "Automotive"
+  shipments: z.coerce.number(),
+  kg: z.coerce.number(),
+});
+
 /** Full company detail (for detail panel) */
 export const CompanyDetailSchema = z.object({
-  name: z.string(),
+  id: z.string(),
+  name: z.string(), // display name (most common variant)
+  normalizedName: z.string(),
+  aliases: z.array(z.string()), // every raw name variant seen in shipments
   country: z.string(),
   website: z.string().optional(),
-  role: z.enum(['importer', 'exporter', 'both']),
+  role: CompanyRoleSchema,
   totalShipments: z.coerce.number(),
   totalWeight: z.coerce.number(), // in kg
   topTradingPartners: z.array(TradingPartnerSchema),
   topCommodities: z.array(CommoditySchema),
+  sectorMix: z.array(SectorTotalSchema), // every sector traded, by kg
+});
+
+/** One month of a company's activity, split by role */
+export const CompanyTimeseriesPointSchema = z.object({
+  month: z.string(), // ISO month start, e.g. "2025-04-01"
+  importShipments: z.coerce.number(),
+  exportShipments: z.coerce.number(),
+  importKg: z.coerce.number(),
+  exportKg: z.coerce.number(),
+});
+
+/** Monthly shipment history for one company (zero-filled) */
+export const CompanyTimeseriesSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string(),
+  points: z.array(CompanyTimeseriesPointSchema),
+});
+
+// ============================================
+// Trading Partner List Schemas
+// ============================================
+
+export const PARTNER_SORTS = ['shipments', 'kg'] as const;
+
+/** suppliers = exporters that ship to the company; customers = importers it ships to */
+export const PARTNER_DIRECTIONS = ['suppliers', 'customers', 'both'] as const;
+
+/** Query accepted by GET /api/companies/[name]/partners (besides paging and dates) */
+export const PartnersQuerySchema = z.object({
+  sort: z.enum(PARTNER_SORTS).default('shipments'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  direction: z.enum(PARTNER_DIRECTIONS).default('both'),
+});
+
+/** A trading partner with relationship details */
+export const PartnerSchema = TradingPartnerSchema.extend({
+  direction: z.enum(['supplier', 'customer', 'both']), // partner's role towards the company
+  kg: z.coerce.number(),
+  firstShipment: z.string(), // YYYY-MM-DD
+  lastShipment: z.string(), // YYYY-MM-DD
+  commodities: z.array(z.string()), // traded with this partner, heaviest first
+});
+
+/** Paginated trading partners response */
+export const PartnersResponseSchema = z.object({
+  data: z.array(PartnerSchema),
+  total: z.coerce.number(),
+});
+
+// ============================================
+// Similar Company Schemas
+// ============================================
+
+/** A likely competitor: trades with the same partners or the same goods */
+export const SimilarCompanySchema = z.object({
+  company: CompanyListItemSchema,
+  score: z.coerce.number(), // 0-1, weighted sum of the two overlaps below
+  partnerOverlap: z.coerce.number(), // Jaccard on partners in the same role, 0-1
+  commodityOverlap: z.coerce.number(), // Jaccard on commodities in the same role, 0-1
+  sharedCustomers: z.coerce.number(), // importers both companies sell to
+  sharedSuppliers: z.coerce.number(), // exporters both companies buy from
+  sharedCommodities: z.array(z.string()), // traded by both in the same role
+  reasons: z.array(z.string()),
+});
+
+export const SimilarCompaniesResponseSchema = z.object({
+  data: z.array(SimilarCompanySchema),
+});
+
+// ============================================
+// Company Comparison Schemas
+// Per-company arrays are aligned with `companies`: `kg[i]` belongs to
+// `companies[i]`, and is 0 when that company has no such activity.
+// ============================================
+
+export const COMPARE_MIN_COMPANIES = 2;
+export const COMPARE_MAX_COMPANIES = 5;
+
+/**
+ * Query accepted by GET /api/companies/compare (besides dates). `names` is
+ * comma-separated, or repeated for names that contain commas.
+ */
+export const CompareQuerySchema = z.object({
+  names: z
+    .union([z.string(), z.array(z.string())])
+    .transform(names =>
+      (typeof names === 'string' ? names.split(',') : names)
+        .map(name => name.trim())
+        .filter(Boolean)
+    )
+    .pipe(
+      z.array(z.string()).min(COMPARE_MIN_COMPANIES).max(COMPARE_MAX_COMPANIES)
+    ),
+});
+
+/** One month of every compared company's activity (zero-filled) */
+export const ComparisonMonthSchema = z.object({
+  month: z.string(), // ISO month start, e.g. "2025-04-01"
+  shipments: z.array(z.coerce.number()),
+  kg: z.array(z.coerce.number()),
+});
+
+/** A company trading with at least two of the compared companies */
+export const SharedPartnerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string(),
+  shipments: z.array(z.coerce.number()),
+  kg: z.array(z.coerce.number()),
+});
+
+/** A commodity traded by at least two of the compared companies */
+export const SharedCommoditySchema = z.object({
+  name: z.string(),
+  shipments: z.array(z.coerce.number()),
+  kg: z.array(z.coerce.number()),
+});
+
+export const CompanyComparisonSchema = z.object({
+  companies: z.array(CompanyDetailSchema), // in request order
+  monthly: z.array(ComparisonMonthSchema),
+  sharedPartners: z.array(SharedPartnerSchema),
+  sharedCommodities: z.array(SharedCommoditySchema),
 });
 
 // ============================================
@@ -65,18 +282,88 @@ export const TopCommoditySchema = z.object({
   kg: z.coerce.number(),
 });
 
+/** One sector's weight in one month - format: "May 2025" */
+export const SectorMonthItemSchema = z.object({
+  month: z.string(), // "MMM YYYY" format, like MonthlyVolumeItem
+  sector: z.string(),
+  kg: z.coerce.number(),
+  share: z.coerce.number(), // fraction of the month's kg, 0-1
+});
+
+/** Stats tables that can be exported one at a time, as rows */
+export const STATS_EXPORT_TABLES = [
+  'monthlyVolume',
+  'topCommodities',
+  'sectors',
+  'sectorMonthly',
+] as const;
+
+/** `table` query parameter for stats exports */
+export const StatsExportQuerySchema = z.object({
+  table: z.enum(STATS_EXPORT_TABLES).default('monthlyVolume'),
+});
+
 /** Combined stats response */
 export const StatsResponseSchema = z.object({
   totalImporters: z.coerce.number(),
   totalExporters: z.coerce.number(),
   topCommodities: z.array(TopCommoditySchema),
   monthlyVolume: z.array(MonthlyVolumeItemSchema),
+  sectors: z.array(SectorTotalSchema),
+  sectorMonthly: z.array(SectorMonthItemSchema),
 });
 
 /** Companies list response */
 export const CompaniesResponseSchema = z.object({
   data: z.array(CompanyListItemSchema),
   total: z.coerce.number(),
+  facets: CompanyFacetsSchema.optional(), // left out with `facets=false`
+});
+
+// ============================================
+// Duplicate Detection Schemas
+// ============================================
+
+/** A suggested duplicate pair: merge `source` into `target` */
+export const DuplicateCandidateSchema = z.object({
+  source: CompanyListItemSchema, // fewer shipments - merged away
+  target: CompanyListItemSchema, // more shipments - kept
+  score: z.coerce.number(), // 0-1, weighted sum of the signals below
+  nameSimilarity: z.coerce.number(), // Jaro-Winkler on normalized names, 0-1
+  sharedDomains: z.array(z.string()),
+  sameCountry: z.boolean(),
+  reasons: z.array(z.string()),
+});
+
+/** Duplicate suggestions response */
+export const DuplicatesResponseSchema = z.object({
+  data: z.array(DuplicateCandidateSchema),
+  total: z.coerce.number(),
+});
+
+/** Request body for accepting a merge */
+export const MergeRequestSchema = z
+  .object({
+    sourceId: z.string().min(1),
+    targetId: z.string().min(1),
+  })
+  .refine(body => body.sourceId !== body.targetId, {
+    message: 'A company cannot be merged into itself',
+    path: ['targetId'],
+  });
+
+/** An accepted merge in the alias table */
+export const CompanyMergeSchema = z.object({
+  aliasId: z.string(),
+  aliasName: z.string(),
+  canonicalId: z.string(),
+  canonicalName: z.string(),
+  mergedAt: z.string(),
+});
+
+/** Accepted merges response */
+export const CompanyMergesResponseSchema = z.object({
+  data: z.array(CompanyMergeSchema),
 });
 
 // ============================================
@@ -84,14 +371,46 @@ export const CompaniesResponseSchema = z.object({
 // ============================================
 
 export type CompanyListItem = z.infer<typeof CompanyListItemSchema>;
+export type CompanyRole = z.infer<typeof CompanyRoleSchema>;
+export type CompanySort = (typeof COMPANY_SORTS)[number];
+export type CompanySortQuery = z.infer<typeof CompanySortQuerySchema>;
+export type CompanyFacetQuery = z.infer<typeof CompanyFacetQuerySchema>;
+export type CompanyFacet = (typeof COMPANY_FACETS)[number];
+export type FacetValue = z.infer<typeof FacetValueSchema>;
+export type CompanyFacets = z.infer<typeof CompanyFacetsSchema>;
 export type CompanyDetail = z.infer<typeof CompanyDetailSchema>;
 export type TradingPartner = z.infer<typeof TradingPartnerSchema>;
 export type Commodity = z.infer<typeof CommoditySchema>;
+export type CompanyTimeseriesPoint = z.infer<
+  typeof CompanyTimeseriesPointSchema
+>;
+export type CompanyTimeseries = z.infer<typeof CompanyTimeseriesSchema>;
+export type PartnerSort = (typeof PARTNER_SORTS)[number];
+export type PartnerDirection = (typeof PARTNER_DIRECTIONS)[number];
+export type PartnersQuery = z.infer<typeof PartnersQuerySchema>;
+export type Partner = z.infer<typeof PartnerSchema>;
+export type PartnersResponse = z.infer<typeof PartnersResponseSchema>;
+export type SimilarCompany = z.infer<typeof SimilarCompanySchema>;
+export type SimilarCompaniesResponse = z.infer<
+  typeof SimilarCompaniesResponseSchema
+>;
+export type CompareQuery = z.infer<typeof CompareQuerySchema>;
+export type ComparisonMonth = z.infer<typeof ComparisonMonthSchema>;
+export type SharedPartner = z.infer<typeof SharedPartnerSchema>;
+export type SharedCommodity = z.infer<typeof SharedCommoditySchema>;
+export type CompanyComparison = z.infer<typeof CompanyComparisonSchema>;
 export type Stats = z.infer<typeof StatsSchema>;
 export type MonthlyVolumeItem = z.infer<typeof MonthlyVolumeItemSchema>;
 export type TopCommodity = z.infer<typeof TopCommoditySchema>;
+export type SectorTotal = z.infer<typeof SectorTotalSchema>;
+export type SectorMonthItem = z.infer<typeof SectorMonthItemSchema>;
 export type StatsResponse = z.infer<typeof StatsResponseSchema>;
 export type CompaniesResponse = z.infer<typeof CompaniesResponseSchema>;
+export type DuplicateCandidate = z.infer<typeof DuplicateCandidateSchema>;
+export type DuplicatesResponse = z.infer<typeof DuplicatesResponseSchema>;
+export type MergeRequest = z.infer<typeof MergeRequestSchema>;
+export type CompanyMerge = z.infer<typeof CompanyMergeSchema>;
+export type CompanyMergesResponse = z.infer<typeof CompanyMergesResponseSchema>;
 
 // Legacy export for compatibility with existing code
 export type Company = CompanyListItem;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+// ============================================
+// Country Schemas
+// Note: Using z.coerce.number() because DuckDB returns numbers as strings in JSON
+// ============================================
+
+/** One country's trade: imports by importer_country, exports by exporter_country */
+export const CountrySummarySchema = z.object({
+  code: z.string(), // as stored in shipments, e.g. "US"
+  importShipments: z.coerce.number(),
+  exportShipments: z.coerce.number(),
+  importKg: z.coerce.number(),
+  exportKg: z.coerce.number(),
+  importers: z.coerce.number(), // distinct importing companies
+  exporters: z.coerce.number(), // distinct exporting companies
+});
+
+export const CountriesResponseSchema = z.object({
+  data: z.array(CountrySummarySchema),
+});
+
+/** Trade with one partner country, from the detail country's point of view */
+export const PartnerCountrySchema = z.object({
+  code: z.string(),
+  importKg: z.coerce.number(), // shipped from the partner to this country
+  exportKg: z.coerce.number(), // shipped from this country to the partner
+  shipments: z.coerce.number(), // both directions
+});
+
+/** A company based in the country */
+export const CountryCompanySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  totalShipments: z.coerce.number(),
+  totalWeight: z.coerce.number(), // in kg
+});
+
+export const CountryDetailSchema = CountrySummarySchema.extend({
+  topPartners: z.array(PartnerCountrySchema),
+  topCommodities: z.array(
+    z.object({ name: z.string(), kg: z.coerce.number() })
+  ), // imports and exports
+  topCompanies: z.array(CountryCompanySchema),
+});
+
+/** One origin → destination cell of the flow matrix */
+export const CountryFlowSchema = z.object({
+  origin: z.string(), // exporter_country
+  destination: z.string(), // importer_country
+  shipments: z.coerce.number(),
+  kg: z.coerce.number(),
+});
+
+export const CountryFlowsResponseSchema = z.object({
+  origins: z.array(z.string()), // by exported kg, descending
+  destinations: z.array(z.string()), // by imported kg, descending
+  flows: z.array(CountryFlowSchema), // non-empty cells only
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CountrySummary = z.infer<typeof CountrySummarySchema>;
+export type CountriesResponse = z.infer<typeof CountriesResponseSchema>;
+export type PartnerCountry = z.infer<typeof PartnerCountrySchema>;
+export type CountryCompany = z.infer<typeof CountryCompanySchema>;
+export type CountryDetail = z.infer<typeof CountryDetailSchema>;
+export type CountryFlow = z.infer<typeof CountryFlowSchema>;
+export type CountryFlowsResponse = z.infer<typeof CountryFlowsResponseSchema>;
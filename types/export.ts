@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { CompanyFacetQuerySchema, CompanySortQuerySchema } from './company';
+import {
+  CountryListSchema,
+  DateRangeQuerySchema,
+  ShipmentQuerySchema,
+} from './shipment';
+
+// ============================================
+// Export Schemas
+// ============================================
+
+export const EXPORT_FORMATS = ['json', 'csv', 'xlsx', 'ndjson'] as const;
+
+/** Content-Type sent for each format; also what `Accept` is matched against */
+export const EXPORT_CONTENT_TYPES = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+} as const satisfies Record<(typeof EXPORT_FORMATS)[number], string>;
+
+/** `format` query parameter accepted by exportable listings */
+export const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).optional(),
+});
+
+// ============================================
+// Export Job Schemas
+// ============================================
+
+export const EXPORT_JOB_FORMATS = ['csv', 'parquet'] as const;
+export const EXPORT_JOB_RESOURCES = ['shipments', 'companies'] as const;
+export const EXPORT_JOB_STATUSES = [
+  'queued',
+  'running',
+  'completed',
+  'failed',
+  'expired',
+] as const;
+
+/** Content-Type of each export job file */
+export const EXPORT_JOB_CONTENT_TYPES = {
+  csv: 'text/csv',
+  parquet: 'application/vnd.apache.parquet',
+} as const satisfies Record<(typeof EXPORT_JOB_FORMATS)[number], string>;
+
+/** Filters and sort order accepted by GET /api/companies, without pagination */
+export const CompanyFiltersQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).optional(),
+    q: z.string().trim().min(1).optional(),
+    country: CountryListSchema.optional(),
+    sector: z.string().trim().min(1).optional(),
+  })
+  .extend(CompanyFacetQuerySchema.shape)
+  .extend(CompanySortQuerySchema.partial().shape)
+  .and(DateRangeQuerySchema);
+
+const ExportJobFormatSchema = z.enum(EXPORT_JOB_FORMATS).default('csv');
+
+/**
+ * Body of POST /api/exports. `query` takes the same parameters as the
+ * resource's GET listing, e.g. `{ "commodity": "steel", "from": "2024-01-01" }`
+ */
+export const ExportJobRequestSchema = z.discriminatedUnion('resource', [
+  z.object({
+    resource: z.literal('shipments'),
+    format: ExportJobFormatSchema,
+    query: ShipmentQuerySchema.prefault({}),
+  }),
+  z.object({
+    resource: z.literal('companies'),
+    format: ExportJobFormatSchema,
+    query: CompanyFiltersQuerySchema.prefault({}),
+  }),
+]);
+
+export const ExportJobSchema = z.object({
+  id: z.string(),
+  resource: z.enum(EXPORT_JOB_RESOURCES),
+  format: z.enum(EXPORT_JOB_FORMATS),
+  status: z.enum(EXPORT_JOB_STATUSES),
+  progress: z.number().min(0).max(1), // DuckDB's estimate while running
+  rows: z.number().int().nullable(), // set once completed
+  bytes: z.number().int().nullable(), // file size, set once completed
+  error: z.string().nullable(), // set if failed
+  createdAt: z.string(), // ISO timestamp
+  completedAt: z.string().nullable(), // completed or failed
+  expiresAt: z.string().nullable(), // file is deleted after this
+  downloadUrl: z.string().nullable(),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
+export type ExportJobFormat = (typeof EXPORT_JOB_FORMATS)[number];
+export type ExportJobResource = (typeof EXPORT_JOB_RESOURCES)[number];
+export type ExportJobStatus = (typeof EXPORT_JOB_STATUSES)[number];
+export type ExportJobRequest = z.infer<typeof ExportJobRequestSchema>;
+export type ExportJob = z.infer<typeof ExportJobSchema>;
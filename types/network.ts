@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// ============================================
+// Trade Network Schemas
+// Note: Query params arrive as strings; DuckDB numbers use z.coerce.number()
+// ============================================
+
+/** Query accepted by GET /api/network (date range parsed separately) */
+export const NetworkQuerySchema = z.object({
+  company: z.string().trim().min(1).optional(), // ego-network center (company ID)
+  depth: z.coerce.number().int().min(1).max(3).default(1), // hops from `company`
+  commodity: z.string().trim().min(1).optional(), // case-insensitive substring
+});
+
+/** A company in the graph */
+export const NetworkNodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string(),
+  shipments: z.coerce.number(), // across every matching shipment, both roles
+  kg: z.coerce.number(),
+  depth: z.coerce.number().nullable(), // hops from the center; null without one
+});
+
+/** Trade from one company to another, aggregated over matching shipments */
+export const NetworkEdgeSchema = z.object({
+  source: z.string(), // exporter ID
+  target: z.string(), // importer ID
+  shipments: z.coerce.number(),
+  kg: z.coerce.number(),
+});
+
+export const NetworkResponseSchema = z.object({
+  nodes: z.array(NetworkNodeSchema),
+  edges: z.array(NetworkEdgeSchema),
+  truncated: z.boolean(), // more companies matched than `limit`
+});
+
+// ============================================
+// Supply-Chain Path Schemas
+// ============================================
+
+/** Query accepted by GET /api/paths; `from`/`to` are company IDs or names */
+export const PathsQuerySchema = z
+  .object({
+    from: z.string().trim().min(1), // upstream company (exporter side)
+    to: z.string().trim().min(1), // downstream company (importer side)
+    maxHops: z.coerce.number().int().min(1).max(5).default(3),
+  })
+  .refine(q => q.from !== q.to, {
+    message: '`from` and `to` must be different companies',
+    path: ['to'],
+  });
+
+export const PathCompanySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string(),
+});
+
+/** A route from `from` to `to`; `legs[i]` ships companies[i] → companies[i + 1] */
+export const PathSchema = z.object({
+  companies: z.array(PathCompanySchema),
+  legs: z.array(NetworkEdgeSchema),
+  hops: z.coerce.number(),
+  strength: z.coerce.number(), // kg on the weakest leg
+});
+
+export const PathsResponseSchema = z.object({
+  from: PathCompanySchema,
+  to: PathCompanySchema,
+  maxHops: z.coerce.number(),
+  shortest: z.array(PathSchema), // fewest hops, strongest first
+  strongest: z.array(PathSchema), // highest strength, then fewest hops
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type NetworkQuery = z.infer<typeof NetworkQuerySchema>;
+export type NetworkNode = z.infer<typeof NetworkNodeSchema>;
+export type NetworkEdge = z.infer<typeof NetworkEdgeSchema>;
+export type NetworkResponse = z.infer<typeof NetworkResponseSchema>;
+export type PathsQuery = z.infer<typeof PathsQuerySchema>;
+export type PathCompany = z.infer<typeof PathCompanySchema>;
+export type Path = z.infer<typeof PathSchema>;
+export type PathsResponse = z.infer<typeof PathsResponseSchema>;
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { CompanyListItemSchema } from './company';
+
+// ============================================
+// Search Schemas
+// ============================================
+
+/** What a search result matched on */
+export const SEARCH_FIELDS = ['name', 'website', 'commodity'] as const;
+
+/** Query parameters of GET /api/search and /api/search/suggest */
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+});
+
+/** One matching name variant, website domain or commodity */
+export const SearchMatchSchema = z.object({
+  field: z.enum(SEARCH_FIELDS),
+  text: z.string(),
+  highlights: z.array(z.tuple([z.number(), z.number()])), // [start, end) in text
+});
+
+export const SearchResultSchema = z.object({
+  company: CompanyListItemSchema,
+  score: z.number(), // 0-1, best match's similarity times its field weight
+  matches: z.array(SearchMatchSchema), // best first
+});
+
+export const SearchResponseSchema = z.object({
+  query: z.string(),
+  data: z.array(SearchResultSchema),
+  total: z.coerce.number(),
+});
+
+// ============================================
+// Suggestion Schemas
+// ============================================
+
+/** Suggestion groups of GET /api/search/suggest, in display order */
+export const SUGGESTION_GROUPS = [
+  'companies',
+  'commodities',
+  'countries',
+  'sectors',
+] as const;
+
+/** One typeahead suggestion with a small metric to tell similar ones apart */
+export const SuggestionSchema = z.object({
+  id: z.string(), // company ID, commodity or sector name, or country code
+  label: z.string(),
+  detail: z.string().nullable(), // e.g. a company's country
+  metric: z.coerce.number(),
+  metricUnit: z.enum(['shipments', 'kg']),
+});
+
+export const SuggestResponseSchema = z.object({
+  query: z.string(),
+  companies: z.array(SuggestionSchema),
+  commodities: z.array(SuggestionSchema),
+  countries: z.array(SuggestionSchema),
+  sectors: z.array(SuggestionSchema),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+export type SearchMatch = z.infer<typeof SearchMatchSchema>;
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+export type SuggestionGroup = (typeof SUGGESTION_GROUPS)[number];
+export type Suggestion = z.infer<typeof SuggestionSchema>;
+export type SuggestResponse = z.infer<typeof SuggestResponseSchema>;
@@ -1,3 +1,5 @@
+import { z } from 'zod';
+
 export interface Shipment {
   id: string;
   importer_name: string;
@@ -11,3 +13,169 @@ export interface Shipment {
   industry_sector: string;
   weight_metric_tonnes: number;
 }
+
+// ============================================
+// Shipment Query Schemas
+// Note: Query params arrive as strings, so numbers use z.coerce.number()
+// ============================================
+
+/** Every column of the shipments table, in table order */
+export const SHIPMENT_COLUMNS = [
+  'id',
+  'importer_name',
+  'importer_website',
+  'importer_country',
+  'exporter_name',
+  'exporter_website',
+  'exporter_country',
+  'shipment_date',
+  'commodity_name',
+  'industry_sector',
+  'weight_metric_tonnes',
+] as const satisfies readonly (keyof Shipment)[];
+
+/** ISO calendar date - format: "2025-09-11" */
+export const IsoDateSchema = z.iso.date();
+
+/** Rolling presets, relative to the most recent shipment */
+export const DATE_RANGE_PRESETS = [
+  'last30d',
+  'ytd',
+  'last12m',
+  'quarter',
+] as const;
+
+/** A rolling preset, or a calendar quarter such as "2025-Q3" */
+export const DateRangePresetSchema = z.union([
+  z.enum(DATE_RANGE_PRESETS),
+  z
+    .string()
+    .regex(/^\d{4}-Q[1-4]$/, 'Expected a preset or a quarter like 2025-Q3'),
+]);
+
+/** `from`/`to` or `preset` query parameters, accepted by company endpoints */
+export const DateRangeQuerySchema = z
+  .object({
+    from: IsoDateSchema.optional(), // inclusive
+    to: IsoDateSchema.optional(), // inclusive
+    preset: DateRangePresetSchema.optional(),
+  })
+  .refine(q => !q.preset || (!q.from && !q.to), {
+    message: 'Use either `preset` or `from`/`to`, not both',
+    path: ['preset'],
+  })
+  .refine(q => !q.from || !q.to || q.from <= q.to, {
+    message: '`from` must be on or before `to`',
+    path: ['from'],
+  });
+
+/** Comma-separated list of country codes - "US,DE" → ['US', 'DE'] */
+export const CountryListSchema = z
+  .string()
+  .transform(value =>
+    value
+      .split(',')
+      .map(code => code.trim().toUpperCase())
+      .filter(Boolean)
+  )
+  .pipe(z.array(z.string().min(1)).min(1));
+
+/** Non-empty free-text filter (matched case-insensitively as a substring) */
+const TextFilterSchema = z.string().trim().min(1);
+
+/** Filters and sort order accepted by GET /api/shipments */
+export const ShipmentQuerySchema = z
+  .object({
+    importer: TextFilterSchema.optional(),
+    exporter: TextFilterSchema.optional(),
+    importerCountry: CountryListSchema.optional(),
+    exporterCountry: CountryListSchema.optional(),
+    commodity: TextFilterSchema.optional(),
+    sector: TextFilterSchema.optional(),
+    from: IsoDateSchema.optional(), // inclusive
+    to: IsoDateSchema.optional(), // inclusive
+    minWeight: z.coerce.number().nonnegative().optional(), // metric tonnes
+    maxWeight: z.coerce.number().nonnegative().optional(), // metric tonnes
+    sort: z.enum(SHIPMENT_COLUMNS).default('shipment_date'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine(q => !q.from || !q.to || q.from <= q.to, {
+    message: '`from` must be on or before `to`',
+    path: ['from'],
+  })
+  .refine(
+    q =>
+      q.minWeight === undefined ||
+      q.maxWeight === undefined ||
+      q.minWeight <= q.maxWeight,
+    {
+      message: '`minWeight` must be less than or equal to `maxWeight`',
+      path: ['minWeight'],
+    }
+  );
+
+// ============================================
+// Shipment Import Schemas
+// ============================================
+
+/** Required, non-blank text field */
+const RequiredTextSchema = z.string().trim().min(1);
+
+/** ISO country code, normalized to uppercase - "us" → "US" */
+const CountryCodeSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .transform(code => code.toUpperCase());
+
+/** One shipment record as accepted by POST /api/shipments/import */
+export const ShipmentSchema = z.object({
+  // Source extracts use numeric IDs; they are stored as strings
+  id: z
+    .union([RequiredTextSchema, z.number().int().nonnegative()])
+    .transform(String),
+  importer_name: RequiredTextSchema,
+  importer_website: z.string().trim().nullish(),
+  importer_country: CountryCodeSchema,
+  exporter_name: RequiredTextSchema,
+  exporter_website: z.string().trim().nullish(),
+  exporter_country: CountryCodeSchema,
+  shipment_date: IsoDateSchema,
+  commodity_name: RequiredTextSchema,
+  industry_sector: RequiredTextSchema,
+  weight_metric_tonnes: z.number().nonnegative(),
+});
+
+/** Outcome for one record of an import request */
+export const ShipmentImportResultSchema = z.object({
+  row: z.number().int().positive(), // 1-based position in the request body
+  id: z.string().nullable(), // null when the record had no usable id
+  status: z.enum(['accepted', 'rejected']),
+  errors: z.array(z.string()),
+});
+
+export const ShipmentImportResponseSchema = z.object({
+  accepted: z.number(),
+  rejected: z.number(),
+  results: z.array(ShipmentImportResultSchema),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+/** Resolved inclusive date window; an open end is unbounded */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export type ShipmentColumn = (typeof SHIPMENT_COLUMNS)[number];
+export type ShipmentQuery = z.infer<typeof ShipmentQuerySchema>;
+export type DateRangePreset = z.infer<typeof DateRangePresetSchema>;
+export type DateRangeQuery = z.infer<typeof DateRangeQuerySchema>;
+export type ShipmentInput = z.infer<typeof ShipmentSchema>;
+export type ShipmentImportResult = z.infer<typeof ShipmentImportResultSchema>;
+export type ShipmentImportResponse = z.infer<
+  typeof ShipmentImportResponseSchema
+>;
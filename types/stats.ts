@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+// ============================================
+// Time Series Schemas
+// Note: Query params arrive as strings; DuckDB numbers use z.coerce.number()
+// ============================================
+
+export const TIMESERIES_INTERVALS = [
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+] as const;
+
+export const TIMESERIES_METRICS = ['kg', 'shipments', 'companies'] as const;
+
+export const TIMESERIES_GROUPS = [
+  'commodity',
+  'industry_sector',
+  'country',
+] as const;
+
+/** Query accepted by GET /api/stats/timeseries (date range parsed separately) */
+export const TimeseriesQuerySchema = z.object({
+  interval: z.enum(TIMESERIES_INTERVALS).default('month'),
+  metric: z.enum(TIMESERIES_METRICS).default('kg'),
+  groupBy: z.enum(TIMESERIES_GROUPS).optional(),
+});
+
+/** One bucket - `bucket` is the ISO date the bucket starts on */
+export const TimeseriesPointSchema = z.object({
+  bucket: z.string(), // "2025-04-01"; weeks start on Monday
+  value: z.coerce.number(),
+});
+
+/** One series; `group` is null when the request has no groupBy */
+export const TimeseriesSeriesSchema = z.object({
+  group: z.string().nullable(),
+  total: z.coerce.number(),
+  points: z.array(TimeseriesPointSchema),
+});
+
+export const TimeseriesResponseSchema = z.object({
+  interval: z.enum(TIMESERIES_INTERVALS),
+  metric: z.enum(TIMESERIES_METRICS),
+  groupBy: z.enum(TIMESERIES_GROUPS).nullable(),
+  series: z.array(TimeseriesSeriesSchema),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type TimeseriesInterval = (typeof TIMESERIES_INTERVALS)[number];
+export type TimeseriesMetric = (typeof TIMESERIES_METRICS)[number];
+export type TimeseriesGroup = (typeof TIMESERIES_GROUPS)[number];
+export type TimeseriesQuery = z.infer<typeof TimeseriesQuerySchema>;
+export type TimeseriesPoint = z.infer<typeof TimeseriesPointSchema>;
+export type TimeseriesSeries = z.infer<typeof TimeseriesSeriesSchema>;
+export type TimeseriesResponse = z.infer<typeof TimeseriesResponseSchema>;